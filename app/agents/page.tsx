@@ -1,6 +1,10 @@
 import { ChatWindow } from "@/components/ChatWindow";
+import { auth } from "@clerk/nextjs/server";
 
-export default function AgentsPage() {
+export default async function AgentsPage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
   const InfoCard = (
     <div className="p-4 md:p-8 rounded bg-[#25252d] w-full max-h-[85%] overflow-hidden">
       <h1 className="text-3xl md:text-4xl mb-4">
@@ -37,6 +41,8 @@ export default function AgentsPage() {
           🛠️
           <span className="ml-2">
             The agent has memory and access to a search engine and a calculator.
+            Searches wait for you to approve, edit or reject them, and you can
+            replay or fork the run from any of its steps.
           </span>
         </li>
         <li className="hidden text-l md:block">
@@ -50,7 +56,7 @@ export default function AgentsPage() {
           🦜
           <span className="ml-2">
             By default, the agent is pretending to be a talking parrot, but you
-            can the prompt to whatever you want!
+            can pick or create another persona with its own prompt!
           </span>
         </li>
         <li className="hidden text-l md:block">
@@ -87,11 +93,11 @@ export default function AgentsPage() {
   return (
     <ChatWindow
       endpoint="api/chat/agents"
+      conversationEndpoint="agents"
       emptyStateComponent={InfoCard}
       placeholder="Squawk! I'm a conversational agent! Ask me about the current weather in Honolulu!"
-      titleText="Polly the Agentic Parrot"
-      emoji="🦜"
-      showIntermediateStepsToggle={true}
+      alwaysShowIntermediateSteps={true}
+      showThreadHistory={true}
     />
   );
 }
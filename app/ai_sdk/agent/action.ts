@@ -1,11 +1,20 @@
 "use server";
 
+import { getChatModel } from "@/lib/models/registry";
+import {
+  builtInPrompt,
+  getPrompt,
+  recordPromptRuns,
+} from "@/lib/prompts/server";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { auth } from "@clerk/nextjs/server";
 import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
-import type { ChatPromptTemplate } from "@langchain/core/prompts";
-import { ChatOpenAI } from "@langchain/openai";
+import {
+  ChatPromptTemplate,
+  MessagesPlaceholder,
+} from "@langchain/core/prompts";
 import { createStreamableValue } from "ai/rsc";
 import { AgentExecutor, createToolCallingAgent } from "langchain/agents";
-import { pull } from "langchain/hub";
 
 export async function runAgent(input: string) {
   "use server";
@@ -13,42 +22,64 @@ export async function runAgent(input: string) {
   const stream = createStreamableValue();
 
   (async () => {
-    const tools = [new TavilySearchResults({ maxResults: 1 })];
-
-    const prompt = await pull<ChatPromptTemplate>(
-      "hwchase17/openai-tools-agent",
-    );
-
-    const llm = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0,
-    });
-
-    const agent = createToolCallingAgent({
-      llm,
-      tools,
-      prompt,
-    });
-
-    const agentExecutor = new AgentExecutor({
-      agent,
-      tools,
-    });
-
-    const streamingEvents = agentExecutor.streamEvents(
-      {
-        input,
-      },
-      {
-        version: "v2",
-      },
-    );
-
-    for await (const item of streamingEvents) {
-      stream.update(JSON.parse(JSON.stringify(item, null, 2)));
-    }
+    try {
+      const startedAt = Date.now();
+      const tools = [new TavilySearchResults({ maxResults: 1 })];
+
+      /**
+       * The same shape as the `hwchase17/openai-tools-agent` hub prompt, with
+       * a system message versioned per workspace, see `lib/prompts`. Signed
+       * out visitors have no workspace, so they get the built-in version.
+       */
+      const { userId } = await auth();
+      const client = userId ? await createClerkSupabaseClientSsr() : null;
+      const systemPrompt = client
+        ? await getPrompt(client, "ai_sdk_agent_system")
+        : builtInPrompt("ai_sdk_agent_system");
+      const prompt = ChatPromptTemplate.fromMessages([
+        ["system", systemPrompt.template],
+        ["human", "{input}"],
+        new MessagesPlaceholder("agent_scratchpad"),
+      ]);
+
+      const llm = getChatModel("ai_sdk_agent");
+
+      const agent = createToolCallingAgent({
+        llm,
+        tools,
+        prompt,
+      });
+
+      const agentExecutor = new AgentExecutor({
+        agent,
+        tools,
+      });
 
-    stream.done();
+      const streamingEvents = agentExecutor.streamEvents(
+        {
+          input,
+        },
+        {
+          version: "v2",
+        },
+      );
+
+      for await (const item of streamingEvents) {
+        stream.update(JSON.parse(JSON.stringify(item, null, 2)));
+      }
+
+      if (client) {
+        await recordPromptRuns(client, [systemPrompt], {
+          messageId: null,
+          latencyMs: Date.now() - startedAt,
+        });
+      }
+
+      stream.done();
+    } catch (e) {
+      // Nothing awaits this function, so the client is told instead
+      stream.error(e);
+    }
   })();
 
   return { streamData: stream.value };
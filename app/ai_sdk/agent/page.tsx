@@ -10,6 +10,7 @@ export default function Page() {
   const [input, setInput] = useState("");
   const [data, setData] = useState<StreamEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>();
 
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -24,13 +25,19 @@ export default function Page() {
     if (!input) return;
     setIsLoading(true);
     setData([]);
+    setError(undefined);
     setInput("");
 
-    const { streamData } = await runAgent(input);
-    for await (const item of readStreamableValue(streamData)) {
-      setData((prev) => [...prev, item]);
+    try {
+      const { streamData } = await runAgent(input);
+      for await (const item of readStreamableValue(streamData)) {
+        setData((prev) => [...prev, item]);
+      }
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsLoading(false);
     }
-    setIsLoading(false);
   }
 
   return (
@@ -50,6 +57,7 @@ export default function Page() {
           Submit
         </button>
       </form>
+      {error && <p className="text-red-400">{error}</p>}
       <div
         ref={scrollRef}
         className="flex flex-col gap-2 px-2 h-[650px] overflow-y-auto"
@@ -1,9 +1,9 @@
 "use server";
 
+import { getChatModel } from "@/lib/models/registry";
 import { JsonOutputKeyToolsParser } from "@langchain/core/output_parsers/openai_tools";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import type { Runnable } from "@langchain/core/runnables";
-import { ChatOpenAI } from "@langchain/openai";
 import { createStreamableValue } from "ai/rsc";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
@@ -35,10 +35,7 @@ export async function executeTool(
       ["human", "{input}"],
     ]);
 
-    const llm = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0,
-    });
+    const llm = getChatModel("ai_sdk_tools");
 
     let chain: Runnable;
 
@@ -51,18 +48,16 @@ export async function executeTool(
     } else {
       chain = prompt
         .pipe(
-          llm.bind({
-            tools: [
-              {
-                type: "function" as const,
-                function: {
-                  name: "get_weather",
-                  description: Weather.description,
-                  parameters: zodToJsonSchema(Weather),
-                },
+          llm.bindTools([
+            {
+              type: "function" as const,
+              function: {
+                name: "get_weather",
+                description: Weather.description,
+                parameters: zodToJsonSchema(Weather),
               },
-            ],
-          }),
+            },
+          ]),
         )
         .pipe(
           new JsonOutputKeyToolsParser<z.infer<typeof Weather>>({
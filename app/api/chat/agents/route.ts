@@ -1,17 +1,19 @@
-import { StreamingTextResponse, type Message as VercelChatMessage } from "ai";
+import type { Message as VercelChatMessage } from "ai";
 import { type NextRequest, NextResponse } from "next/server";
 
-import { Calculator } from "@langchain/community/tools/calculator";
-import { SerpAPI } from "@langchain/community/tools/serpapi";
+import { AIMessage, ChatMessage, HumanMessage } from "@langchain/core/messages";
+
+import { createChatAgent } from "@/lib/agents/agent";
+import { streamApprovedAgentRun } from "@/lib/agents/stream";
+import { continuesRun, prepareThreadRun } from "@/lib/agents/threads";
 import {
-  AIMessage,
-  type BaseMessage,
-  ChatMessage,
-  HumanMessage,
-  SystemMessage,
-} from "@langchain/core/messages";
-import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { ChatOpenAI } from "@langchain/openai";
+  agentRunToMessages,
+  conversationHeaders,
+  resumeConversationTurn,
+  savePendingMessages,
+  saveReply,
+  startConversationTurn,
+} from "@/lib/conversations";
 
 export const runtime = "edge";
 
@@ -25,114 +27,61 @@ const convertVercelMessageToLangChainMessage = (message: VercelChatMessage) => {
   return new ChatMessage(message.content, message.role);
 };
 
-const convertLangChainMessageToVercelMessage = (message: BaseMessage) => {
-  if (message._getType() === "human") {
-    return { content: message.content, role: "user" };
-  }
-  if (message._getType() === "ai") {
-    return {
-      content: message.content,
-      role: "assistant",
-      tool_calls: (message as AIMessage).tool_calls,
-    };
-  }
-  return { content: message.content, role: message._getType() };
-};
-
-const AGENT_SYSTEM_TEMPLATE =
-  "You are a talking parrot named Polly. All final responses must be how a talking parrot would respond. Squawk often!";
-
 /**
  * This handler initializes and calls an tool caling ReAct agent.
  * See the docs for more information:
  *
  * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
+ *
+ * The agent is checkpointed on the conversation's thread (see
+ * `createChatAgent`), so besides `{ conversationId, message }` the body can
+ * resume, replay or fork the thread, see `AgentThreadRequest`.
  */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const returnIntermediateSteps = body.show_intermediate_steps;
-    /**
-     * We represent intermediate steps as system messages for display purposes,
-     * but don't want them in the chat history.
-     */
-    const messages = (body.messages ?? [])
-      .filter(
-        (message: VercelChatMessage) =>
-          message.role === "user" || message.role === "assistant",
-      )
-      .map(convertVercelMessageToLangChainMessage);
-
-    // Requires process.env.SERPAPI_API_KEY to be set: https://serpapi.com/
-    // You can remove this or use a different tool instead.
-    const tools = [new Calculator(), new SerpAPI()];
-    const chat = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0,
-    });
-
-    /**
-     * Use a prebuilt LangGraph agent.
-     */
-    const agent = createReactAgent({
-      llm: chat,
+    const conversation = continuesRun(body)
+      ? await resumeConversationTurn("agents", {
+          conversationId: body.conversationId,
+          replyId: body.resume?.replyId,
+        })
+      : await startConversationTurn("agents", body);
+    const { agent, tools, config } = createChatAgent(conversation);
+    config.callbacks = [conversation.usage];
+    const run = await prepareThreadRun(
+      agent,
+      config,
       tools,
-      /**
-       * Modify the stock prompt in the prebuilt agent. See docs
-       * for how to customize your agent:
-       *
-       * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
-       */
-      messageModifier: new SystemMessage(AGENT_SYSTEM_TEMPLATE),
-    });
-
-    if (!returnIntermediateSteps) {
-      /**
-       * Stream back all generated tokens and steps from their runs.
-       *
-       * We do some filtering of the generated events and only stream back
-       * the final response as a string.
-       *
-       * For this specific type of tool calling ReAct agents with OpenAI, we can tell when
-       * the agent is ready to stream back final output when it no longer calls
-       * a tool and instead streams back content.
-       *
-       * See: https://langchain-ai.github.io/langgraphjs/how-tos/stream-tokens/
-       */
-      const eventStream = await agent.streamEvents(
-        { messages },
-        { version: "v2" },
-      );
-
-      const textEncoder = new TextEncoder();
-      const transformStream = new ReadableStream({
-        async start(controller) {
-          for await (const { event, data } of eventStream) {
-            if (event === "on_chat_model_stream") {
-              // Intermediate chat model generations will contain tool calls and no content
-              if (data.chunk.content) {
-                controller.enqueue(textEncoder.encode(data.chunk.content));
-              }
-            }
-          }
-          controller.close();
-        },
-      });
+      conversation,
+      body,
+    );
 
-      return new StreamingTextResponse(transformStream);
-    }
     /**
-     * We could also pick intermediate steps out from `streamEvents` chunks, but
-     * they are generated as JSON objects, so streaming and displaying them with
-     * the AI SDK is more complicated.
+     * Stream each tool call as the model makes it and each result as its tool
+     * returns, followed by the answer's tokens. See `lib/agents/stream.ts`.
+     *
+     * Steps are always streamed, since calls awaiting approval are shown with
+     * them.
      */
-    const result = await agent.invoke({ messages });
-
-    return NextResponse.json(
+    return new Response(
+      streamApprovedAgentRun(
+        agent,
+        run.messages && {
+          messages: run.messages.map(convertVercelMessageToLangChainMessage),
+        },
+        run.config,
+        tools,
+        (newMessages) =>
+          saveReply(conversation, agentRunToMessages(newMessages)),
+        // Once the thread holds the message, the run can be resumed
+        () => savePendingMessages(conversation),
+      ),
       {
-        messages: result.messages.map(convertLangChainMessageToVercelMessage),
+        headers: {
+          ...conversationHeaders(conversation),
+          "Content-Type": "application/x-ndjson",
+        },
       },
-      { status: 200 },
     );
   } catch (e: any) {
     return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
@@ -1,22 +1,48 @@
-import { StreamingTextResponse, type Message as VercelChatMessage } from "ai";
+import {
+  LangChainAdapter,
+  StreamData,
+  type Message as VercelChatMessage,
+} from "ai";
 import { type NextRequest, NextResponse } from "next/server";
 
-import { createClient } from "@supabase/supabase-js";
-
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
 import type { Document } from "@langchain/core/documents";
-import {
-  BytesOutputParser,
-  StringOutputParser,
-} from "@langchain/core/output_parsers";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import type { StringPromptValue } from "@langchain/core/prompt_values";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { RunnableSequence } from "@langchain/core/runnables";
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
 
-export const runtime = "edge";
+import {
+  conversationHeaders,
+  saveReply,
+  startConversationTurn,
+} from "@/lib/conversations";
+import { HttpError } from "@/lib/errors";
+import { getChatModel } from "@/lib/models/registry";
+import { getPrompt } from "@/lib/prompts/server";
+import {
+  type RetrievalSource,
+  appendAnnotation,
+} from "@/lib/retrieval/annotations";
+import { parseRetrievalFilters } from "@/lib/retrieval/filters";
+import { HybridRetriever } from "@/lib/retrieval/hybrid";
+import { retrievalOptionsSchema } from "@/lib/retrieval/options";
+import { LLMReranker } from "@/lib/retrieval/rerank";
+import { getChunkStore } from "@/lib/retrieval/store";
+import { RetrievalTraceHandler } from "@/lib/retrieval/trace";
+import { getWorkspace } from "@/lib/workspace";
+
+// The local chunk stores (`VECTOR_STORE=memory` or `file`) live in the
+// Node.js process that ingests documents, so retrieval runs there too.
+export const runtime = "nodejs";
 
+/**
+ * Numbers each chunk so the model can cite it as `[n]`, matching the order
+ * of the sources sent back to the client.
+ */
 const combineDocumentsFn = (docs: Document[]) => {
-  const serializedDocs = docs.map((doc) => doc.pageContent);
+  const serializedDocs = docs.map(
+    (doc, i) => `<passage id="${i + 1}">\n${doc.pageContent}\n</passage>`,
+  );
   return serializedDocs.join("\n\n");
 };
 
@@ -33,61 +59,57 @@ const formatVercelMessages = (chatHistory: VercelChatMessage[]) => {
   return formattedDialogueTurns.join("\n");
 };
 
-const CONDENSE_QUESTION_TEMPLATE = `Given the following conversation and a follow up question, rephrase the follow up question to be a standalone question, in its original language.
-
-<chat_history>
-  {chat_history}
-</chat_history>
-
-Follow Up Input: {question}
-Standalone question:`;
-const condenseQuestionPrompt = PromptTemplate.fromTemplate(
-  CONDENSE_QUESTION_TEMPLATE,
-);
-
-const ANSWER_TEMPLATE = `You are an energetic talking puppy named Dana, and must answer all questions like a happy, talking dog would.
-Use lots of puns!
-
-Answer the question based only on the following context and chat history:
-<context>
-  {context}
-</context>
-
-<chat_history>
-  {chat_history}
-</chat_history>
-
-Question: {question}
-`;
-const answerPrompt = PromptTemplate.fromTemplate(ANSWER_TEMPLATE);
-
 /**
  * This handler initializes and calls a retrieval chain. It composes the chain using
  * LangChain Expression Language. See the docs for more information:
  *
  * https://js.langchain.com/v0.2/docs/how_to/qa_chat_history_how_to/
+ *
+ * The optional `retrieval` field of the body picks between hybrid keyword +
+ * vector search (the default) and vector search only, and whether to rerank
+ * the results with the model, and `filters` narrows the search down by tag,
+ * status, document or upload date.
  */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const messages = body.messages ?? [];
-    const previousMessages = messages.slice(0, -1);
-    const currentMessageContent = messages[messages.length - 1].content;
-
-    const model = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0.2,
+    const retrievalOptions = retrievalOptionsSchema.safeParse(
+      body.retrieval ?? {},
+    );
+    if (!retrievalOptions.success) {
+      throw new HttpError("Invalid retrieval options", 400);
+    }
+    const filters = parseRetrievalFilters(body.filters);
+    const conversation = await startConversationTurn("retrieval", body);
+    const previousMessages = conversation.history;
+    const currentMessageContent = conversation.message.content;
+
+    const { persona } = conversation;
+    const model = getChatModel("retrieval", {
+      temperature: persona.temperature ?? undefined,
     });
 
-    const client = createClient(
-      process.env.SUPABASE_URL!,
-      process.env.SUPABASE_PRIVATE_KEY!,
+    /**
+     * Only search chunks uploaded to the caller's workspace, on top of any
+     * requested filters. The Clerk Supabase token also lets row level
+     * security enforce this.
+     */
+    const workspace = await getWorkspace();
+    const { client } = conversation;
+    const { mode, rerank } = retrievalOptions.data;
+
+    /**
+     * Both templates are versioned per workspace, see `lib/prompts`. Every
+     * turn of a conversation gets the same versions.
+     */
+    const [condenseQuestionTemplate, answerTemplate] = await Promise.all([
+      getPrompt(client, "retrieval_condense_question", conversation.id),
+      getPrompt(client, "retrieval_answer", conversation.id),
+    ]);
+    const condenseQuestionPrompt = PromptTemplate.fromTemplate(
+      condenseQuestionTemplate.template,
     );
-    const vectorstore = new SupabaseVectorStore(new OpenAIEmbeddings(), {
-      client,
-      tableName: "documents",
-      queryName: "match_documents",
-    });
+    const answerPrompt = PromptTemplate.fromTemplate(answerTemplate.template);
 
     /**
      * We use LangChain Expression Language to compose two chains.
@@ -102,18 +124,43 @@ export async function POST(req: NextRequest) {
       condenseQuestionPrompt,
       model,
       new StringOutputParser(),
-    ]);
+    ]).withConfig({ runName: "condense_question" });
 
-    let resolveWithDocuments: (value: Document[]) => void;
-    const documentPromise = new Promise<Document[]>((resolve) => {
-      resolveWithDocuments = resolve;
-    });
-
-    const retriever = vectorstore.asRetriever({
+    /**
+     * Sources, the standalone question, step timings and token usage are
+     * streamed to the client as message annotations alongside the answer.
+     * See `lib/retrieval/annotations.ts` for their types.
+     */
+    const data = new StreamData();
+    const trace = new RetrievalTraceHandler();
+    let sources: RetrievalSource[] = [];
+    let promptCharacters = 0;
+
+    const retriever = new HybridRetriever({
+      store: getChunkStore(client, workspace),
+      filters,
+      rankers: mode === "hybrid" ? ["vector", "keyword"] : ["vector"],
+      reranker: rerank
+        ? new LLMReranker(getChatModel("retrieval_rerank"))
+        : undefined,
       callbacks: [
         {
+          /**
+           * Source `n` is the chunk cited as `[n]`. Only an excerpt is sent,
+           * and `ChatMessageBubble` loads the full chunk by id when it is
+           * expanded.
+           */
           handleRetrieverEnd(documents) {
-            resolveWithDocuments(documents);
+            sources = documents.map((doc) => {
+              const { retrieval, ...metadata } = doc.metadata;
+              return {
+                id: Number(doc.id),
+                pageContent: `${doc.pageContent.slice(0, 50)}...`,
+                metadata,
+                ...retrieval,
+              };
+            });
+            appendAnnotation(data, { type: "sources", sources });
           },
         },
       ],
@@ -129,41 +176,62 @@ export async function POST(req: NextRequest) {
         ]),
         chat_history: (input) => input.chat_history,
         question: (input) => input.question,
+        persona: () => persona.system_prompt,
       },
-      answerPrompt,
-      model,
+      RunnableSequence.from([
+        answerPrompt,
+        (prompt: StringPromptValue) => {
+          promptCharacters = prompt.toString().length;
+          return prompt;
+        },
+        model,
+      ]).withConfig({ runName: "generate_answer" }),
     ]);
 
     const conversationalRetrievalQAChain = RunnableSequence.from([
       {
-        question: standaloneQuestionChain,
+        question: standaloneQuestionChain.pipe((question: string) => {
+          appendAnnotation(data, { type: "standalone_question", question });
+          return question;
+        }),
         chat_history: (input) => input.chat_history,
       },
       answerChain,
-      new BytesOutputParser(),
+      new StringOutputParser(),
     ]);
 
-    const stream = await conversationalRetrievalQAChain.stream({
-      question: currentMessageContent,
-      chat_history: formatVercelMessages(previousMessages),
-    });
-
-    const documents = await documentPromise;
-    const serializedSources = Buffer.from(
-      JSON.stringify(
-        documents.map((doc) => {
-          return {
-            pageContent: `${doc.pageContent.slice(0, 50)}...`,
-            metadata: doc.metadata,
-          };
-        }),
-      ),
-    ).toString("base64");
+    const stream = await conversationalRetrievalQAChain.stream(
+      {
+        question: currentMessageContent,
+        chat_history: formatVercelMessages(previousMessages),
+      },
+      { callbacks: [trace, conversation.usage] },
+    );
 
-    return new StreamingTextResponse(stream, {
-      headers: {
-        "x-message-index": (previousMessages.length + 1).toString(),
-        "x-sources": serializedSources,
+    return LangChainAdapter.toDataStreamResponse(stream, {
+      data,
+      init: { headers: conversationHeaders(conversation) },
+      callbacks: {
+        async onFinal(completion) {
+          appendAnnotation(data, {
+            type: "prompt",
+            prompt: {
+              characters: promptCharacters,
+              tokens: trace.answerPromptTokens,
+            },
+          });
+          appendAnnotation(data, { type: "timings", timings: trace.timings });
+          appendAnnotation(data, { type: "usage", usage: trace.usage });
+          try {
+            await saveReply(
+              conversation,
+              [{ role: "assistant", content: completion, sources }],
+              [condenseQuestionTemplate, answerTemplate],
+            );
+          } finally {
+            await data.close();
+          }
+        },
       },
     });
   } catch (e: any) {
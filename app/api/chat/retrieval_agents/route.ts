@@ -1,21 +1,25 @@
 import { StreamingTextResponse, type Message as VercelChatMessage } from "ai";
 import { type NextRequest, NextResponse } from "next/server";
 
-import { createClient } from "@supabase/supabase-js";
+import { AIMessage, ChatMessage, HumanMessage } from "@langchain/core/messages";
 
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
+import { createRetrievalAgent } from "@/lib/agents/retrieval";
+import { streamApprovedAgentRun } from "@/lib/agents/stream";
+import { continuesRun, prepareThreadRun } from "@/lib/agents/threads";
 import {
-  AIMessage,
-  type BaseMessage,
-  ChatMessage,
-  HumanMessage,
-  SystemMessage,
-} from "@langchain/core/messages";
-import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
-import { createRetrieverTool } from "langchain/tools/retriever";
-
-export const runtime = "edge";
+  agentRunToMessages,
+  conversationHeaders,
+  persistStreamedReply,
+  resumeConversationTurn,
+  savePendingMessages,
+  saveReply,
+  startConversationTurn,
+} from "@/lib/conversations";
+import { parseRetrievalFilters } from "@/lib/retrieval/filters";
+
+// The local chunk stores (`VECTOR_STORE=memory` or `file`) live in the
+// Node.js process that ingests documents, so retrieval runs there too.
+export const runtime = "nodejs";
 
 const convertVercelMessageToLangChainMessage = (message: VercelChatMessage) => {
   if (message.role === "user") {
@@ -27,88 +31,45 @@ const convertVercelMessageToLangChainMessage = (message: VercelChatMessage) => {
   return new ChatMessage(message.content, message.role);
 };
 
-const convertLangChainMessageToVercelMessage = (message: BaseMessage) => {
-  if (message._getType() === "human") {
-    return { content: message.content, role: "user" };
-  }
-  if (message._getType() === "ai") {
-    return {
-      content: message.content,
-      role: "assistant",
-      tool_calls: (message as AIMessage).tool_calls,
-    };
-  }
-  return { content: message.content, role: message._getType() };
-};
-
-const AGENT_SYSTEM_TEMPLATE = `You are a stereotypical robot named Robbie and must answer all questions like a stereotypical robot. Use lots of interjections like "BEEP" and "BOOP".
-
-If you don't know how to answer a question, use the available tools to look up relevant information. You should particularly do this for questions about LangChain.`;
-
 /**
  * This handler initializes and calls an tool caling ReAct agent.
  * See the docs for more information:
  *
  * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
  * https://js.langchain.com/docs/use_cases/question_answering/conversational_retrieval_agents
+ *
+ * The agent is checkpointed on the conversation's thread (see
+ * `createRetrievalAgent`), so besides `{ conversationId, message }` the body
+ * can resume, replay or fork the thread, see `AgentThreadRequest`.
  */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    /**
-     * We represent intermediate steps as system messages for display purposes,
-     * but don't want them in the chat history.
-     */
-    const messages = (body.messages ?? [])
-      .filter(
-        (message: VercelChatMessage) =>
-          message.role === "user" || message.role === "assistant",
-      )
-      .map(convertVercelMessageToLangChainMessage);
-    const returnIntermediateSteps = body.show_intermediate_steps;
-
-    const chatModel = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0.2,
+    const filters = parseRetrievalFilters(body.filters);
+    const conversation = continuesRun(body)
+      ? await resumeConversationTurn("retrieval_agents", {
+          conversationId: body.conversationId,
+          replyId: body.resume?.replyId,
+        })
+      : await startConversationTurn("retrieval_agents", body);
+    const { agent, tools, config, systemPrompt } = await createRetrievalAgent({
+      ...conversation,
+      filters,
     });
-
-    const client = createClient(
-      process.env.SUPABASE_URL!,
-      process.env.SUPABASE_PRIVATE_KEY!,
+    config.callbacks = [conversation.usage];
+    const run = await prepareThreadRun(
+      agent,
+      config,
+      tools,
+      conversation,
+      body,
     );
-    const vectorstore = new SupabaseVectorStore(new OpenAIEmbeddings(), {
-      client,
-      tableName: "documents",
-      queryName: "match_documents",
-    });
-
-    const retriever = vectorstore.asRetriever();
-
-    /**
-     * Wrap the retriever in a tool to present it to the agent in a
-     * usable form.
-     */
-    const tool = createRetrieverTool(retriever, {
-      name: "search_latest_knowledge",
-      description: "Searches and returns up-to-date general information.",
-    });
-
-    /**
-     * Use a prebuilt LangGraph agent.
-     */
-    const agent = await createReactAgent({
-      llm: chatModel,
-      tools: [tool],
-      /**
-       * Modify the stock prompt in the prebuilt agent. See docs
-       * for how to customize your agent:
-       *
-       * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
-       */
-      messageModifier: new SystemMessage(AGENT_SYSTEM_TEMPLATE),
-    });
+    const input = run.messages && {
+      messages: run.messages.map(convertVercelMessageToLangChainMessage),
+    };
 
-    if (!returnIntermediateSteps) {
+    // Runs that are picked up always stream steps
+    if (!body.show_intermediate_steps && input) {
       /**
        * Stream back all generated tokens and steps from their runs.
        *
@@ -121,17 +82,19 @@ export async function POST(req: NextRequest) {
        *
        * See: https://langchain-ai.github.io/langgraphjs/how-tos/stream-tokens/
        */
-      const eventStream = await agent.streamEvents(
-        {
-          messages,
-        },
-        { version: "v2" },
-      );
+      const eventStream = await agent.streamEvents(input, {
+        ...run.config,
+        version: "v2",
+      });
 
       const textEncoder = new TextEncoder();
       const transformStream = new ReadableStream({
         async start(controller) {
-          for await (const { event, data } of eventStream) {
+          for await (const { event, data, metadata } of eventStream) {
+            // Once the thread holds the message, the run can be resumed
+            if (metadata?.langgraph_node) {
+              await savePendingMessages(conversation);
+            }
             if (event === "on_chat_model_stream") {
               // Intermediate chat model generations will contain tool calls and no content
               if (data.chunk.content) {
@@ -143,19 +106,33 @@ export async function POST(req: NextRequest) {
         },
       });
 
-      return new StreamingTextResponse(transformStream);
+      return new StreamingTextResponse(
+        persistStreamedReply(transformStream, conversation, [systemPrompt]),
+        { headers: conversationHeaders(conversation) },
+      );
     }
     /**
-     * We could also pick intermediate steps out from `streamEvents` chunks, but
-     * they are generated as JSON objects, so streaming and displaying them with
-     * the AI SDK is more complicated.
+     * Stream each tool call as the model makes it and each result as its tool
+     * returns, followed by the answer's tokens. See `lib/agents/stream.ts`.
      */
-    const result = await agent.invoke({ messages });
-    return NextResponse.json(
+    return new Response(
+      streamApprovedAgentRun(
+        agent,
+        input,
+        run.config,
+        tools,
+        (newMessages) =>
+          saveReply(conversation, agentRunToMessages(newMessages), [
+            systemPrompt,
+          ]),
+        () => savePendingMessages(conversation),
+      ),
       {
-        messages: result.messages.map(convertLangChainMessageToVercelMessage),
+        headers: {
+          ...conversationHeaders(conversation),
+          "Content-Type": "application/x-ndjson",
+        },
       },
-      { status: 200 },
     );
   } catch (e: any) {
     return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
@@ -2,23 +2,22 @@ import { StreamingTextResponse, type Message as VercelChatMessage } from "ai";
 import { type NextRequest, NextResponse } from "next/server";
 
 import { PromptTemplate } from "@langchain/core/prompts";
-import { ChatOpenAI } from "@langchain/openai";
 import { HttpResponseOutputParser } from "langchain/output_parsers";
 
+import {
+  conversationHeaders,
+  persistStreamedReply,
+  startConversationTurn,
+} from "@/lib/conversations";
+import { getChatModel } from "@/lib/models/registry";
+import { getPrompt } from "@/lib/prompts/server";
+
 export const runtime = "edge";
 
 const formatMessage = (message: VercelChatMessage) => {
   return `${message.role}: ${message.content}`;
 };
 
-const TEMPLATE = `You are a pirate named Patchy. All responses must be extremely verbose and in pirate dialect.
-
-Current conversation:
-{chat_history}
-
-User: {input}
-AI:`;
-
 /**
  * This handler initializes and calls a simple chain with a prompt,
  * chat model, and output parser. See the docs for more information:
@@ -28,23 +27,31 @@ AI:`;
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const messages = body.messages ?? [];
-    const formattedPreviousMessages = messages.slice(0, -1).map(formatMessage);
-    const currentMessageContent = messages[messages.length - 1].content;
-    const prompt = PromptTemplate.fromTemplate(TEMPLATE);
+    const conversation = await startConversationTurn("chat", body);
+    const formattedPreviousMessages = conversation.history.map(formatMessage);
+    const currentMessageContent = conversation.message.content;
 
     /**
-     * You can also try e.g.:
-     *
-     * import { ChatAnthropic } from "@langchain/anthropic";
-     * const model = new ChatAnthropic({});
-     *
-     * See a full list of supported models at:
-     * https://js.langchain.com/docs/modules/model_io/models/
+     * The template is versioned per workspace, see `lib/prompts`. The
+     * persona's system prompt is passed in as a variable rather than pasted
+     * into it, so braces in it are not read as template variables.
      */
-    const model = new ChatOpenAI({
-      temperature: 0.8,
-      model: "gpt-4o-mini",
+    const chatPrompt = await getPrompt(
+      conversation.client,
+      "chat",
+      conversation.id,
+    );
+    const prompt = PromptTemplate.fromTemplate(chatPrompt.template);
+
+    /**
+     * The provider, model and temperature come from the model registry. Set
+     * `MODEL_CONFIG` to use e.g. Anthropic or a local Ollama model instead,
+     * see `lib/models/registry.ts`. The conversation's persona can override
+     * the temperature.
+     */
+    const { persona } = conversation;
+    const model = getChatModel("chat", {
+      temperature: persona.temperature ?? undefined,
     });
 
     /**
@@ -61,12 +68,19 @@ export async function POST(req: NextRequest) {
      */
     const chain = prompt.pipe(model).pipe(outputParser);
 
-    const stream = await chain.stream({
-      chat_history: formattedPreviousMessages.join("\n"),
-      input: currentMessageContent,
-    });
+    const stream = await chain.stream(
+      {
+        persona: persona.system_prompt,
+        chat_history: formattedPreviousMessages.join("\n"),
+        input: currentMessageContent,
+      },
+      { callbacks: [conversation.usage] },
+    );
 
-    return new StreamingTextResponse(stream);
+    return new StreamingTextResponse(
+      persistStreamedReply(stream, conversation, [chatPrompt]),
+      { headers: conversationHeaders(conversation) },
+    );
   } catch (e: any) {
     return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
   }
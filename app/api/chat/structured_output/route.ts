@@ -3,7 +3,8 @@ import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
 import { PromptTemplate } from "@langchain/core/prompts";
-import { ChatOpenAI } from "@langchain/openai";
+
+import { getChatModel } from "@/lib/models/registry";
 
 export const runtime = "edge";
 
@@ -29,12 +30,9 @@ export async function POST(req: NextRequest) {
 
     const prompt = PromptTemplate.fromTemplate(TEMPLATE);
     /**
-     * Function calling is currently only supported with ChatOpenAI models
+     * Structured output needs a provider that supports tool calling
      */
-    const model = new ChatOpenAI({
-      temperature: 0.8,
-      model: "gpt-4o-mini",
-    });
+    const model = getChatModel("structured_output");
 
     /**
      * We use Zod (https://zod.dev) to define our schema for convenience,
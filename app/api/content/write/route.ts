@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { z } from "zod";
+
+import { SerpAPI } from "@langchain/community/tools/serpapi";
+
+import { HttpError } from "@/lib/errors";
+import { getChatModel } from "@/lib/models/registry";
+import { parseRetrievalFilters } from "@/lib/retrieval/filters";
+import { HybridRetriever } from "@/lib/retrieval/hybrid";
+import { getChunkStore } from "@/lib/retrieval/store";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { UsageHandler } from "@/lib/usage/server";
+import { getWorkspace } from "@/lib/workspace";
+import { createContentWriter } from "@/lib/writer/graph";
+import { streamContentWriter } from "@/lib/writer/stream";
+
+// The local chunk stores (`VECTOR_STORE=memory` or `file`) live in the
+// Node.js process that ingests documents, so research runs there too.
+export const runtime = "nodejs";
+
+const writeRequestSchema = z.object({
+  topic: z.string().trim().min(1).max(500),
+  audience: z.string().trim().max(200).optional(),
+  keywords: z.array(z.string().trim().min(1)).max(10).optional(),
+});
+
+/**
+ * Writes an article with the content writer graph (see `lib/writer/graph.ts`)
+ * and saves it as a draft in `content`. The body is
+ * `{ topic, audience?, keywords?, filters? }`, where `filters` narrows the
+ * library chunks the research reads, as in the retrieval routes. Each node's
+ * progress is streamed back as newline-delimited `ContentWriterEvent`s.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = writeRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new HttpError(
+        `Invalid request: ${parsed.error.issues
+          .map((issue) => issue.message)
+          .join(", ")}`,
+        400,
+      );
+    }
+
+    const workspace = await getWorkspace();
+    const client = await createClerkSupabaseClientSsr();
+    const retriever = new HybridRetriever({
+      store: getChunkStore(client, workspace),
+      filters: parseRetrievalFilters(body.filters),
+      rankers: ["vector"],
+    });
+    const writer = createContentWriter({
+      model: getChatModel("content_writer"),
+      retriever,
+      // Web search is only used when process.env.SERPAPI_API_KEY is set:
+      // https://serpapi.com/
+      search: process.env.SERPAPI_API_KEY ? new SerpAPI() : undefined,
+      client,
+      userId: workspace.userId,
+      // Stops the run when the client disconnects
+      signal: req.signal,
+    });
+
+    return new Response(
+      streamContentWriter(writer, parsed.data, {
+        signal: req.signal,
+        callbacks: [new UsageHandler(client, { feature: "content_writer" })],
+      }),
+      { headers: { "Content-Type": "application/x-ndjson" } },
+    );
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { HttpError } from "@/lib/errors";
+import { cancelIngestionJob, getIngestionJob } from "@/lib/ingest/jobs";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { getWorkspace } from "@/lib/workspace";
+
+export const dynamic = "force-dynamic";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Returns the status and progress of an ingestion job. Row level security
+ * hides jobs from other workspaces, which are reported as not found.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { jobId: string } },
+) {
+  try {
+    await getWorkspace();
+    if (!UUID_PATTERN.test(params.jobId)) {
+      throw new HttpError("Ingestion job not found", 404);
+    }
+    const client = await createClerkSupabaseClientSsr();
+    const job = await getIngestionJob(client, params.jobId);
+    return NextResponse.json({ job }, { status: 200 });
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+  }
+}
+
+/**
+ * Cancels a job that hasn't finished, marking it failed with the `error` in
+ * the body. The upload form does this when a job stops making progress.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { jobId: string } },
+) {
+  try {
+    await getWorkspace();
+    if (!UUID_PATTERN.test(params.jobId)) {
+      throw new HttpError("Ingestion job not found", 404);
+    }
+    const body = await req.json().catch(() => ({}));
+    const client = await createClerkSupabaseClientSsr();
+    const job = await cancelIngestionJob(
+      client,
+      params.jobId,
+      typeof body.error === "string" && body.error
+        ? body.error
+        : "The ingestion job was cancelled",
+    );
+    return NextResponse.json({ job }, { status: 200 });
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+  }
+}
@@ -1,26 +1,134 @@
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { type NextRequest, NextResponse } from "next/server";
 
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { createClient } from "@supabase/supabase-js";
+import { HttpError } from "@/lib/errors";
+import { resolveMimeType } from "@/lib/ingest/fileTypes";
+import { createIngestionJob } from "@/lib/ingest/jobs";
+import {
+  UnsupportedFileTypeError,
+  loadFile,
+  loadMarkdown,
+  pastedSourceName,
+} from "@/lib/ingest/loaders";
+import type { LoadedSource } from "@/lib/ingest/pipeline";
+import {
+  DEFAULT_SPLITTER_CONFIG,
+  type SplitterConfig,
+  splitterConfigSchema,
+} from "@/lib/ingest/splitterConfig";
+import { isIngestionWorkerConfigured } from "@/lib/ingest/worker";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { getWorkspace } from "@/lib/workspace";
 
-export const runtime = "edge";
+// PDF and DOCX parsing rely on Node.js APIs that aren't available on the edge.
+export const runtime = "nodejs";
 
 // Before running, follow set-up instructions at
 // https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase
 
+type IngestRequest = {
+  files: File[];
+  text?: string;
+  name?: string;
+  splitterConfig: SplitterConfig;
+};
+
+function parseSplitterConfig(value: unknown) {
+  if (value === undefined) {
+    return DEFAULT_SPLITTER_CONFIG;
+  }
+  const parsed = splitterConfigSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new HttpError(
+      `Invalid splitter config: ${parsed.error.issues
+        .map((issue) => issue.message)
+        .join(", ")}`,
+      400,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Reads the upload from the request. File uploads are sent as multipart form
+ * data (`files`, plus optional `text`, `name` and JSON encoded
+ * `splitterConfig` fields), while pasted text can still be sent as JSON
+ * (`{ text, name, splitterConfig }`). Pasted text is stored under `name`, so
+ * pasting a revised version under the same name updates that source instead
+ * of creating another one (see `pastedSourceName` for text without one).
+ */
+async function readIngestRequest(req: NextRequest): Promise<IngestRequest> {
+  if (!req.headers.get("content-type")?.includes("multipart/form-data")) {
+    const body = await req.json();
+    return {
+      files: [],
+      text: body.text,
+      name: body.name,
+      splitterConfig: parseSplitterConfig(body.splitterConfig),
+    };
+  }
+  const formData = await req.formData();
+  const field = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === "string" ? value : undefined;
+  };
+  const splitterConfig = field("splitterConfig");
+  let parsedSplitterConfig: unknown;
+  try {
+    parsedSplitterConfig = splitterConfig && JSON.parse(splitterConfig);
+  } catch {
+    throw new HttpError("Invalid splitter config: expected JSON", 400);
+  }
+  return {
+    files: formData
+      .getAll("files")
+      .filter((file): file is File => typeof file !== "string"),
+    text: field("text"),
+    name: field("name"),
+    splitterConfig: parseSplitterConfig(parsedSplitterConfig || undefined),
+  };
+}
+
+/**
+ * Loads every file and the pasted text into documents, which the job stores
+ * for the worker to split and embed.
+ */
+async function loadSources({ files, text, name }: IngestRequest) {
+  const sources: LoadedSource[] = [];
+  for (const file of files) {
+    sources.push({
+      name: file.name,
+      mimeType: resolveMimeType(file) ?? file.type,
+      documents: await loadFile(file),
+    });
+  }
+  if (text?.trim()) {
+    const source = await pastedSourceName(text, name);
+    sources.push({
+      name: source,
+      mimeType: "text/markdown",
+      documents: loadMarkdown(text, { source, mimeType: "text/markdown" }),
+    });
+  }
+  return sources.filter((source) => source.documents.length);
+}
+
 /**
- * This handler takes input text, splits it into chunks, and embeds those chunks
- * into a vector store for later retrieval. See the following docs for more information:
+ * This handler loads uploaded files or input text, queues an ingestion job
+ * for them and returns it with a 202. The ingestion worker (see
+ * `lib/ingest/worker.ts`) claims the job, splits the sources into chunks
+ * with the requested splitter strategy, and embeds those chunks into a
+ * vector store for later retrieval, while the client polls
+ * `/api/retrieval/ingest/[jobId]` for progress. Each chunk keeps the metadata
+ * of the page, section or row it came from, and each file is recorded as a
+ * source, along with its splitter config, that can be managed from the
+ * library. Re-uploading a source only embeds the chunks that changed.
+ * See the following docs for more information:
  *
  * https://js.langchain.com/v0.2/docs/how_to/recursive_text_splitter
+ * https://js.langchain.com/v0.2/docs/how_to/split_by_token
  * https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase
  */
 export async function POST(req: NextRequest) {
-  const body = await req.json();
-  const text = body.text;
-
   if (process.env.NEXT_PUBLIC_DEMO === "true") {
     return NextResponse.json(
       {
@@ -34,30 +142,46 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const client = createClient(
-      process.env.SUPABASE_URL!,
-      process.env.SUPABASE_PRIVATE_KEY!,
-    );
-
-    const splitter = RecursiveCharacterTextSplitter.fromLanguage("markdown", {
-      chunkSize: 256,
-      chunkOverlap: 20,
-    });
+    const workspace = await getWorkspace();
+    const upload = await readIngestRequest(req);
+    const unsupported = upload.files.find((file) => !resolveMimeType(file));
+    if (unsupported) {
+      throw new UnsupportedFileTypeError(unsupported.name);
+    }
+    if (!upload.files.length && !upload.text?.trim()) {
+      return NextResponse.json(
+        { error: "Provide some text or at least one non-empty file." },
+        { status: 400 },
+      );
+    }
+    if (!isIngestionWorkerConfigured()) {
+      throw new HttpError(
+        "Uploads are ingested by a worker that needs SUPABASE_SERVICE_ROLE_KEY to be set.",
+        503,
+      );
+    }
+    const sources = await loadSources(upload);
+    if (!sources.length) {
+      throw new HttpError(
+        "The uploaded files didn't contain any text to ingest.",
+        400,
+      );
+    }
 
-    const splitDocuments = await splitter.createDocuments([text]);
-
-    const vectorstore = await SupabaseVectorStore.fromDocuments(
-      splitDocuments,
-      new OpenAIEmbeddings(),
-      {
-        client,
-        tableName: "documents",
-        queryName: "match_documents",
-      },
+    /**
+     * Uses the signed-in user's Supabase token rather than the service key,
+     * so row level security rejects jobs for another workspace.
+     */
+    const client = await createClerkSupabaseClientSsr();
+    const job = await createIngestionJob(
+      client,
+      workspace,
+      sources,
+      upload.splitterConfig,
     );
 
-    return NextResponse.json({ ok: true }, { status: 200 });
+    return NextResponse.json({ job }, { status: 202 });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: 500 });
+    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
   }
 }
@@ -2,11 +2,12 @@ import { createTRPCContext } from "@/trpc/init";
 import { appRouter } from "@/trpc/routers/_app";
 import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
 
-const handler = (req: Request) => fetchRequestHandler({
-  endpoint: "/api/trpc",
-  router: appRouter,
-  createContext: createTRPCContext,
-  req,
-});
+const handler = (req: Request) =>
+  fetchRequestHandler({
+    endpoint: "/api/trpc",
+    router: appRouter,
+    createContext: createTRPCContext,
+    req,
+  });
 
-export { handler as GET, handler as POST };
\ No newline at end of file
+export { handler as GET, handler as POST };
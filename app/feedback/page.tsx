@@ -0,0 +1,9 @@
+import { FeedbackReview } from "@/components/FeedbackReview";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function FeedbackPage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
+  return <FeedbackReview />;
+}
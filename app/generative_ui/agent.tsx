@@ -1,21 +1,39 @@
 import "server-only";
 
+import { getPersona } from "@/lib/personas/server";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { UsageHandler } from "@/lib/usage/server";
+import { auth } from "@clerk/nextjs/server";
 import { ChatMessage } from "@langchain/core/messages";
-import { agentExecutor } from "./ai/chain";
+import { createAgentExecutor } from "./ai/chain";
 import { exposeEndpoints, streamRunnableUI } from "./utils/server";
 
 async function agent(inputs: {
   input: string;
   chat_history: [role: string, content: string][];
+  /** A persona of the caller's workspace, or the built-in one if unset. */
+  personaId?: string;
 }) {
   "use server";
 
-  return streamRunnableUI(agentExecutor, {
-    input: inputs.input,
-    chat_history: inputs.chat_history.map(
-      ([role, content]) => new ChatMessage(content, role),
-    ),
-  });
+  const client = await createClerkSupabaseClientSsr();
+  const persona = await getPersona(client, "generative_ui", inputs.personaId);
+  // Usage is recorded per user, so only for signed-in ones
+  const { userId } = await auth();
+  return streamRunnableUI(
+    createAgentExecutor(persona),
+    {
+      input: inputs.input,
+      chat_history: inputs.chat_history.map(
+        ([role, content]) => new ChatMessage(content, role),
+      ),
+    },
+    {
+      callbacks: userId
+        ? [new UsageHandler(client, { feature: "generative_ui" })]
+        : [],
+    },
+  );
 }
 
 export const EndpointsContext = exposeEndpoints({ agent });
@@ -1,10 +1,12 @@
 import { Place } from "@/app/generative_ui/components/place";
+import { getChatModel } from "@/lib/models/registry";
+import { type PersonaSettings, isToolAllowed } from "@/lib/personas/defaults";
+import { SystemMessage } from "@langchain/core/messages";
 import {
   ChatPromptTemplate,
   MessagesPlaceholder,
 } from "@langchain/core/prompts";
 import { tool } from "@langchain/core/tools";
-import { ChatOpenAI } from "@langchain/openai";
 import { AgentExecutor, createToolCallingAgent } from "langchain/agents";
 import { z } from "zod";
 import { Images } from "../components/image";
@@ -62,25 +64,29 @@ const imagesTool = tool(
   },
 );
 
-const prompt = ChatPromptTemplate.fromMessages([
-  [
-    "system",
-    "You are a talking parrot named Polly. All final responses must be how a talking parrot would respond. Squawk often!",
-  ],
-  new MessagesPlaceholder("chat_history"),
-  ["human", "{input}"],
-  new MessagesPlaceholder("agent_scratchpad"),
-]);
+/**
+ * Builds the agent for a persona. Its system prompt is added as a message so
+ * braces in it are not read as template variables.
+ */
+export function createAgentExecutor(persona: PersonaSettings) {
+  const prompt = ChatPromptTemplate.fromMessages([
+    new SystemMessage(persona.system_prompt),
+    new MessagesPlaceholder("chat_history"),
+    ["human", "{input}"],
+    new MessagesPlaceholder("agent_scratchpad"),
+  ]);
 
-const llm = new ChatOpenAI({
-  model: "gpt-4o-mini",
-  temperature: 0,
-  streaming: true,
-});
+  const llm = getChatModel("generative_ui", {
+    streaming: true,
+    temperature: persona.temperature ?? undefined,
+  });
 
-const tools = [searchTool, imagesTool];
+  const tools = [searchTool, imagesTool].filter((tool) =>
+    isToolAllowed(persona, tool.name),
+  );
 
-export const agentExecutor = new AgentExecutor({
-  agent: createToolCallingAgent({ llm, tools, prompt }),
-  tools,
-});
+  return new AgentExecutor({
+    agent: createToolCallingAgent({ llm, tools, prompt }),
+    tools,
+  });
+}
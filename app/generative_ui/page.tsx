@@ -1,5 +1,6 @@
 "use client";
 
+import { PersonaSelect } from "@/components/PersonaSelect";
 import { useState } from "react";
 import type { EndpointsContext } from "./agent";
 import { LocalContext } from "./shared";
@@ -10,6 +11,7 @@ export default function GenerativeUIPage() {
 
   const [elements, setElements] = useState<JSX.Element[]>([]);
   const [input, setInput] = useState("");
+  const [personaId, setPersonaId] = useState<string>();
 
   const historyState = useState<[role: string, content: string][]>([]);
   const [history, setHistory] = historyState;
@@ -18,7 +20,11 @@ export default function GenerativeUIPage() {
     const newElements = [...elements];
 
     // execute the agent with user input and chat history
-    const element = await actions.agent({ input, chat_history: history });
+    const element = await actions.agent({
+      input,
+      chat_history: history,
+      personaId,
+    });
 
     newElements.push(
       <div className="flex flex-col gap-2" key={history.length}>
@@ -109,6 +115,12 @@ export default function GenerativeUIPage() {
           </div>
         </LocalContext.Provider>
 
+        <PersonaSelect
+          endpoint="generative_ui"
+          value={personaId}
+          onChange={setPersonaId}
+        />
+
         <form
           className="grid grid-cols-[1fr,auto] items-center gap-2"
           onSubmit={async (e) => {
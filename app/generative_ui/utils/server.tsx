@@ -19,6 +19,8 @@ const STREAM_UI_RUN_NAME = "stream_runnable_ui";
  * and converts the generator to a RSC friendly stream
  *
  * @param runnable
+ * @param inputs
+ * @param config Passed on to the run, e.g. its callbacks
  * @returns React node which can be sent to the client
  */
 export function streamRunnableUI<RunInput, RunOutput>(
@@ -26,6 +28,7 @@ export function streamRunnableUI<RunInput, RunOutput>(
     | Runnable<RunInput, RunOutput>
     | CompiledStateGraph<RunInput, Partial<RunInput>>,
   inputs: RunInput,
+  config?: RunnableConfig,
 ) {
   const ui = createStreamableUI();
   const [lastEvent, resolve] = withResolvers<string>();
@@ -41,6 +44,7 @@ export function streamRunnableUI<RunInput, RunOutput>(
     for await (const streamEvent of (
       runnable as Runnable<RunInput, RunOutput>
     ).streamEvents(inputs, {
+      ...config,
       version: "v1",
     })) {
       if (
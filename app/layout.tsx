@@ -2,6 +2,7 @@ import "./globals.css";
 import { Public_Sans } from "next/font/google";
 
 import { Navbar } from "@/components/Navbar";
+import { TRPCProvider } from "@/trpc/client";
 import { ClerkProvider } from "@clerk/nextjs";
 
 const publicSans = Public_Sans({ subsets: ["latin"] });
@@ -15,10 +16,12 @@ export default function RootLayout({
     <ClerkProvider>
       <html lang="en">
         <body className={publicSans.className}>
-          <div className="flex flex-col p-4 md:p-12 h-[100vh]">
-            <Navbar />
-            {children}
-          </div>
+          <TRPCProvider>
+            <div className="flex flex-col p-4 md:p-12 h-[100vh]">
+              <Navbar />
+              {children}
+            </div>
+          </TRPCProvider>
         </body>
       </html>
     </ClerkProvider>
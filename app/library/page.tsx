@@ -0,0 +1,9 @@
+import { DocumentLibrary } from "@/components/DocumentLibrary";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function LibraryPage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
+  return <DocumentLibrary />;
+}
@@ -47,8 +47,8 @@ export default async function Home() {
         <li>
           🏴‍☠️
           <span className="ml-2">
-            By default, the bot is pretending to be a pirate, but you can change
-            the prompt to whatever you want!
+            By default, the bot is pretending to be a pirate, but you can pick
+            or create another persona with its own prompt!
           </span>
         </li>
         <li className="hidden text-l md:block">
@@ -84,8 +84,7 @@ export default async function Home() {
   return (
     <ChatWindow
       endpoint="api/chat"
-      emoji="🏴‍☠️"
-      titleText="Patchy the Chatty Pirate"
+      conversationEndpoint="chat"
       placeholder="I'm an LLM pretending to be a pirate! Ask me about the pirate life!"
       emptyStateComponent={InfoCard}
     />
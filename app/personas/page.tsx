@@ -0,0 +1,9 @@
+import { PersonaManager } from "@/components/PersonaManager";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function PersonasPage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
+  return <PersonaManager />;
+}
@@ -0,0 +1,9 @@
+import { PromptManager } from "@/components/PromptManager";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function PromptsPage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
+  return <PromptManager />;
+}
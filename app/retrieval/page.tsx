@@ -67,7 +67,7 @@ export default async function AgentsPage() {
           🐶
           <span className="ml-2">
             By default, the agent is pretending to be a talking puppy, but you
-            can change the prompt to whatever you want!
+            can pick or create another persona with its own prompt!
           </span>
         </li>
         <li className="text-l">
@@ -112,13 +112,15 @@ export default async function AgentsPage() {
   return (
     <ChatWindow
       endpoint="api/chat/retrieval"
+      conversationEndpoint="retrieval"
       emptyStateComponent={InfoCard}
       showIngestForm={true}
+      showRetrievalFilters={true}
+      showRetrievalOptions={true}
+      streamProtocol="data"
       placeholder={
         'I\'ve got a nose for finding the right documents! Ask, "What is a document loader?"'
       }
-      emoji="🐶"
-      titleText="Dana the Document-Retrieving Dog"
     />
   );
 }
@@ -54,8 +54,8 @@ export default async function AgentsPage() {
         <li>
           🤖
           <span className="ml-2">
-            By default, the agent is pretending to be a robot, but you can
-            change the prompt to whatever you want!
+            By default, the agent is pretending to be a robot, but you can pick
+            or create another persona with its own prompt!
           </span>
         </li>
         <li className="hidden text-l md:block">
@@ -101,14 +101,15 @@ export default async function AgentsPage() {
   return (
     <ChatWindow
       endpoint="api/chat/retrieval_agents"
+      conversationEndpoint="retrieval_agents"
       emptyStateComponent={InfoCard}
       showIngestForm={true}
+      showRetrievalFilters={true}
       showIntermediateStepsToggle={true}
+      showThreadHistory={true}
       placeholder={
         'Beep boop! I\'m a robot retrieval-focused agent! Ask, "What are some ways of doing retrieval in LangChain.js?"'
       }
-      emoji="🤖"
-      titleText="Robbie the Retrieval Robot"
     />
   );
 }
@@ -0,0 +1,9 @@
+import { UsageDashboard } from "@/components/UsageDashboard";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function UsagePage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
+  return <UsageDashboard />;
+}
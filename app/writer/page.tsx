@@ -0,0 +1,9 @@
+import { ContentWriter } from "@/components/ContentWriter";
+import { auth } from "@clerk/nextjs/server";
+
+export default async function WriterPage() {
+  const { userId, redirectToSignIn } = await auth();
+
+  if (!userId) return redirectToSignIn();
+  return <ContentWriter />;
+}
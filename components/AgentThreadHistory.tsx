@@ -0,0 +1,153 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+
+import { trpc } from "@/trpc/client";
+import type { AgentCheckpoint } from "@/trpc/routers/agentThreads";
+
+const MESSAGE_ICONS: Record<string, string> = {
+  human: "🧑",
+  ai: "🤖",
+  tool: "🛠️",
+};
+
+function CheckpointItem(props: {
+  checkpoint: AgentCheckpoint;
+  latest: boolean;
+  disabled?: boolean;
+  onReplay: (checkpointId: string) => void;
+  onFork: (checkpointId: string, message: string) => void;
+}) {
+  const { checkpoint, latest, disabled } = props;
+  const [forking, setForking] = useState(false);
+  const [message, setMessage] = useState("");
+
+  function submitFork(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (message.trim()) {
+      props.onFork(checkpoint.checkpointId, message);
+      setForking(false);
+      setMessage("");
+    }
+  }
+
+  return (
+    <li
+      className={`p-2 rounded bg-[#25252d] ${checkpoint.onLatestBranch ? "" : "opacity-60"}`}
+    >
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span>Step {checkpoint.step}</span>
+        <span>{checkpoint.writtenBy.join(", ") || checkpoint.source}</span>
+        {checkpoint.next.length ? (
+          <span>→ {checkpoint.next.join(", ")}</span>
+        ) : (
+          <span>✔️ finished</span>
+        )}
+        {checkpoint.awaitingApproval ? <span>⏸️ awaiting approval</span> : ""}
+        {latest ? <span>📍 latest</span> : ""}
+        {checkpoint.onLatestBranch ? "" : <span>🌿 other branch</span>}
+        {checkpoint.createdAt ? (
+          <span className="ml-auto">
+            {new Date(checkpoint.createdAt).toLocaleString()}
+          </span>
+        ) : (
+          ""
+        )}
+      </div>
+      {checkpoint.lastMessage ? (
+        <div className="text-sm mt-1">
+          {MESSAGE_ICONS[checkpoint.lastMessage.type] ?? "💬"}{" "}
+          {checkpoint.lastMessage.summary || "(empty)"}
+        </div>
+      ) : (
+        ""
+      )}
+      <div className="flex gap-2 mt-2 text-sm">
+        {checkpoint.next.length && !checkpoint.awaitingApproval ? (
+          <button
+            type="button"
+            className="px-2 py-1 bg-sky-600 rounded disabled:opacity-50"
+            disabled={disabled}
+            onClick={() => props.onReplay(checkpoint.checkpointId)}
+          >
+            ▶️ Replay from here
+          </button>
+        ) : (
+          ""
+        )}
+        {checkpoint.messageCount ? (
+          <button
+            type="button"
+            className="px-2 py-1 bg-slate-600 rounded disabled:opacity-50"
+            disabled={disabled}
+            onClick={() => setForking(!forking)}
+          >
+            🌿 Fork
+          </button>
+        ) : (
+          ""
+        )}
+      </div>
+      {forking ? (
+        <form onSubmit={submitFork} className="flex gap-2 mt-2">
+          <input
+            className="grow p-1 rounded text-black text-sm"
+            value={message}
+            placeholder="Ask something else from this point"
+            onChange={(e) => setMessage(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 bg-sky-600 rounded text-sm disabled:opacity-50"
+            disabled={disabled}
+          >
+            Send
+          </button>
+        </form>
+      ) : (
+        ""
+      )}
+    </li>
+  );
+}
+
+/**
+ * The checkpoints of an agent conversation's thread, latest first, to
+ * replay the run from one of them or fork the thread with a new message.
+ * Checkpoints on branches left behind by earlier replays and forks are
+ * dimmed.
+ */
+export function AgentThreadHistory(props: {
+  conversationId: string;
+  disabled?: boolean;
+  onReplay: (checkpointId: string) => void;
+  onFork: (checkpointId: string, message: string) => void;
+}) {
+  const { data: checkpoints, isLoading } = trpc.agentThreads.history.useQuery({
+    conversationId: props.conversationId,
+  });
+
+  return (
+    <div className="w-full max-h-[40%] overflow-auto mb-4">
+      <h3 className="text-lg mb-2">🕰️ Time travel</h3>
+      {isLoading ? <span className="text-sm">Loading...</span> : ""}
+      {checkpoints && !checkpoints.length ? (
+        <span className="text-sm">No checkpoints yet.</span>
+      ) : (
+        ""
+      )}
+      <ul className="flex flex-col gap-2">
+        {checkpoints?.map((checkpoint, i) => (
+          <CheckpointItem
+            key={checkpoint.checkpointId}
+            checkpoint={checkpoint}
+            latest={i === 0}
+            disabled={props.disabled}
+            onReplay={props.onReplay}
+            onFork={props.onFork}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,22 +1,179 @@
 import type { Message } from "ai/react";
+import { useState } from "react";
+
+import { MessageFeedback } from "@/components/MessageFeedback";
+import { RetrievalTrace } from "@/components/RetrievalTrace";
+import { checkCitations } from "@/lib/citations";
+import type { MessageFeedback as Feedback } from "@/lib/feedback";
+import { trpc } from "@/trpc/client";
+
+/**
+ * Describes where a chunk came from using the metadata added at ingestion,
+ * e.g. "page 4 of report.pdf" or "Setup › Install in guide.md".
+ */
+const formatSourceLocation = (metadata?: Record<string, any>) => {
+  if (!metadata?.source) {
+    return undefined;
+  }
+  if (metadata.page !== undefined) {
+    return `page ${metadata.page} of ${metadata.source}`;
+  }
+  if (metadata.row !== undefined) {
+    return `row ${metadata.row} of ${metadata.source}`;
+  }
+  if (metadata.headingPath?.length) {
+    return `${metadata.headingPath.join(" › ")} in ${metadata.source}`;
+  }
+  return metadata.source;
+};
+
+/**
+ * Describes how a chunk was retrieved, e.g. "score 0.0325 via keyword +
+ * vector". Only sources found by the hybrid retriever carry a score.
+ */
+const formatRetrievalScore = (source: Record<string, any>) => {
+  if (source.score === undefined) {
+    return undefined;
+  }
+  const rerank =
+    source.rerankScore !== undefined ? `, rerank ${source.rerankScore}/10` : "";
+  return `score ${source.score.toFixed(4)} via ${source.rankers.join(" + ")}${rerank}`;
+};
+
+/**
+ * A numbered source under an answer. Expanding it loads the full chunk,
+ * since only a short excerpt is sent along with the answer.
+ */
+function CitedSource(props: {
+  source: Record<string, any>;
+  index: number;
+  anchorId: string;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const { source, index, anchorId, expanded } = props;
+  const canExpand = source.id !== undefined;
+  const { data: chunk, isLoading } = trpc.documents.chunk.useQuery(
+    { id: source.id },
+    { enabled: expanded && canExpand },
+  );
+  return (
+    <div className="mt-2" id={anchorId}>
+      <button
+        type="button"
+        className="text-left"
+        disabled={!canExpand}
+        onClick={props.onToggle}
+      >
+        {canExpand ? (expanded ? "▾ " : "▸ ") : ""}[{index + 1}] &quot;
+        {expanded && chunk ? chunk.content : source.pageContent}&quot;
+      </button>
+      {expanded && isLoading ? <div>Loading chunk...</div> : ""}
+      {formatSourceLocation(source.metadata) ? (
+        <div>
+          <br />
+          From {formatSourceLocation(source.metadata)}
+        </div>
+      ) : source.metadata?.loc?.lines !== undefined ? (
+        <div>
+          <br />
+          Lines {source.metadata?.loc?.lines?.from} to{" "}
+          {source.metadata?.loc?.lines?.to}
+        </div>
+      ) : (
+        ""
+      )}
+      {formatRetrievalScore(source) ? (
+        <div>{formatRetrievalScore(source)}</div>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
 
 export function ChatMessageBubble(props: {
   message: Message;
   aiEmoji?: string;
   sources: any[];
+  /** Shows the rating buttons, once the answer has been stored. */
+  feedback?: {
+    messageId: string;
+    value?: Pick<Feedback, "rating" | "comment">;
+  };
 }) {
+  const [expandedSource, setExpandedSource] = useState<number | null>(null);
   const colorClassName =
     props.message.role === "user" ? "bg-sky-600" : "bg-slate-50 text-black";
   const alignmentClassName =
     props.message.role === "user" ? "ml-auto" : "mr-auto";
   const prefix = props.message.role === "user" ? "🧑" : props.aiEmoji;
+
+  const anchorId = (n: number) => `source:${props.message.id}:${n}`;
+  const sentences =
+    props.message.role === "assistant" && props.sources?.length
+      ? checkCitations(props.message.content, props.sources.length)
+      : undefined;
+  const ungroundedCount =
+    sentences?.filter((sentence) => sentence.ungrounded).length ?? 0;
+
+  function openSource(n: number) {
+    setExpandedSource(n);
+    document
+      .getElementById(anchorId(n))
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }
+
   return (
     <div
       className={`${alignmentClassName} ${colorClassName} rounded px-4 py-2 max-w-[80%] mb-8 flex`}
     >
       <div className="mr-2">{prefix}</div>
       <div className="whitespace-pre-wrap flex flex-col">
-        <span>{props.message.content}</span>
+        {sentences ? (
+          <span>
+            {sentences.map((sentence, i) => (
+              <span
+                key={`sentence:${i}`}
+                className={
+                  sentence.ungrounded
+                    ? "underline decoration-wavy decoration-amber-500"
+                    : ""
+                }
+                title={
+                  sentence.ungrounded
+                    ? "This sentence doesn't cite any of the sources"
+                    : undefined
+                }
+              >
+                {sentence.parts.map((part, j) =>
+                  typeof part === "string" ? (
+                    part
+                  ) : (
+                    <button
+                      key={`citation:${j}`}
+                      type="button"
+                      className="align-super text-xs font-bold text-sky-700"
+                      onClick={() => openSource(part.citation - 1)}
+                    >
+                      [{part.citation}]
+                    </button>
+                  ),
+                )}
+              </span>
+            ))}
+          </span>
+        ) : (
+          <span>{props.message.content}</span>
+        )}
+        {ungroundedCount ? (
+          <span className="mt-2 text-xs text-amber-700">
+            ⚠️ {ungroundedCount} sentence{ungroundedCount > 1 ? "s" : ""}{" "}
+            {ungroundedCount > 1 ? "don't" : "doesn't"} cite a retrieved source.
+          </span>
+        ) : (
+          ""
+        )}
         {props.sources?.length ? (
           <>
             <code className="mt-4 mr-auto bg-slate-600 px-2 py-1 rounded">
@@ -24,24 +181,36 @@ export function ChatMessageBubble(props: {
             </code>
             <code className="mt-1 mr-2 bg-slate-600 px-2 py-1 rounded text-xs">
               {props.sources?.map((source, i) => (
-                <div className="mt-2" key={`source:${i}`}>
-                  {i + 1}. &quot;{source.pageContent}&quot;
-                  {source.metadata?.loc?.lines !== undefined ? (
-                    <div>
-                      <br />
-                      Lines {source.metadata?.loc?.lines?.from} to{" "}
-                      {source.metadata?.loc?.lines?.to}
-                    </div>
-                  ) : (
-                    ""
-                  )}
-                </div>
+                <CitedSource
+                  key={`source:${i}`}
+                  source={source}
+                  index={i}
+                  anchorId={anchorId(i)}
+                  expanded={expandedSource === i}
+                  onToggle={() =>
+                    setExpandedSource(expandedSource === i ? null : i)
+                  }
+                />
               ))}
             </code>
           </>
         ) : (
           ""
         )}
+        {props.message.role === "assistant" ? (
+          <RetrievalTrace message={props.message} />
+        ) : (
+          ""
+        )}
+        {props.message.role === "assistant" && props.feedback ? (
+          <MessageFeedback
+            key={props.feedback.value?.rating}
+            messageId={props.feedback.messageId}
+            value={props.feedback.value}
+          />
+        ) : (
+          ""
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 "use client";
 
+import { useClerk } from "@clerk/nextjs";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 
@@ -8,18 +9,78 @@ import { useChat } from "ai/react";
 import { type ReactElement, useRef, useState } from "react";
 import type { FormEvent } from "react";
 
+import { AgentThreadHistory } from "@/components/AgentThreadHistory";
 import { ChatMessageBubble } from "@/components/ChatMessageBubble";
+import { ConversationSidebar } from "@/components/ConversationSidebar";
+import { PersonaSelect } from "@/components/PersonaSelect";
+import { RetrievalFilterBar } from "@/components/RetrievalFilterBar";
 import { UploadDocumentsForm } from "@/components/UploadDocumentsForm";
-import { IntermediateStep } from "./IntermediateStep";
+import {
+  type IntermediateStepContent,
+  type ToolDecision,
+  groupIntermediateSteps,
+  parseIntermediateStep,
+  readAgentStepEvents,
+} from "@/lib/agents/steps";
+import type { ConversationEndpoint } from "@/lib/conversations";
+import { DEFAULT_PERSONAS } from "@/lib/personas/defaults";
+import { getAnnotation } from "@/lib/retrieval/annotations";
+import {
+  RETRIEVAL_MODES,
+  type RetrievalFilters,
+  type RetrievalMode,
+  type RetrievalOptions,
+} from "@/lib/retrieval/options";
+import { trpc } from "@/trpc/client";
+import type { AgentThreadState } from "@/trpc/routers/agentThreads";
+import { IntermediateStep, IntermediateStepGroup } from "./IntermediateStep";
+
+/**
+ * Stored messages have uuids, while ones still being streamed have ids
+ * generated by `useChat`.
+ */
+const isStoredMessageId = (id: string) =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
 
 export function ChatWindow(props: {
   endpoint: string;
   emptyStateComponent: ReactElement;
   placeholder?: string;
+  /**
+   * With a `conversationEndpoint`, the title and emoji come from the selected
+   * persona instead.
+   */
   titleText?: string;
   emoji?: string;
   showIngestForm?: boolean;
   showIntermediateStepsToggle?: boolean;
+  /**
+   * Always streams agent steps, for endpoints whose tool calls may wait for
+   * the user's approval.
+   */
+  alwaysShowIntermediateSteps?: boolean;
+  /**
+   * For agent endpoints that checkpoint each conversation on a thread (see
+   * `trpc.agentThreads`): picks up runs that did not finish when a
+   * conversation is opened, and shows the thread's checkpoints to replay or
+   * fork from.
+   */
+  showThreadHistory?: boolean;
+  /** Lets the user pick the retrieval mode and reranking for each request. */
+  showRetrievalOptions?: boolean;
+  /** Shows a filter bar whose selection is sent as `filters`. */
+  showRetrievalFilters?: boolean;
+  /**
+   * When set, messages are stored server-side and the endpoint receives a
+   * `conversationId` plus the new message instead of the full history. A
+   * persona can then be picked for the conversation, sent as `personaId`.
+   */
+  conversationEndpoint?: ConversationEndpoint;
+  /**
+   * `data` for endpoints that stream annotations, such as retrieval sources,
+   * alongside the text.
+   */
+  streamProtocol?: "text" | "data";
 }) {
   const messageContainerRef = useRef<HTMLDivElement | null>(null);
 
@@ -27,15 +88,57 @@ export function ChatWindow(props: {
     endpoint,
     emptyStateComponent,
     placeholder,
-    titleText = "An LLM",
     showIngestForm,
     showIntermediateStepsToggle,
-    emoji,
+    alwaysShowIntermediateSteps,
+    showThreadHistory,
+    showRetrievalOptions,
+    showRetrievalFilters,
+    conversationEndpoint,
+    streamProtocol = "text",
   } = props;
 
+  const utils = trpc.useUtils();
+  const { redirectToSignIn } = useClerk();
+  const [conversationId, setConversationId] = useState<string>();
+  // Read inside request callbacks, which would otherwise see stale state
+  const conversationIdRef = useRef<string>();
+  // The id the route stores the streamed answer under
+  const replyIdRef = useRef<string>();
+  const { data: feedback } = trpc.feedback.forConversation.useQuery(
+    { conversationId: conversationId ?? "" },
+    { enabled: !!conversationEndpoint && !!conversationId },
+  );
+
+  const [personaId, setPersonaId] = useState<string>();
+  const { data: personas } = trpc.personas.list.useQuery(undefined, {
+    enabled: !!conversationEndpoint,
+  });
+  const persona =
+    personas?.find(({ id }) => id === personaId) ??
+    (conversationEndpoint ? DEFAULT_PERSONAS[conversationEndpoint] : undefined);
+  const titleText = persona?.name ?? props.titleText ?? "An LLM";
+  const emoji = persona?.emoji ?? props.emoji;
+  const personaSelect = conversationEndpoint && (
+    <PersonaSelect
+      endpoint={conversationEndpoint}
+      value={personaId}
+      onChange={setPersonaId}
+    />
+  );
+
   const [showIntermediateSteps, setShowIntermediateSteps] = useState(false);
   const [intermediateStepsLoading, setIntermediateStepsLoading] =
     useState(false);
+  // The reply of an agent run that was cut off before it finished
+  const [interruptedReplyId, setInterruptedReplyId] = useState<string>();
+  const [showTimeTravel, setShowTimeTravel] = useState(false);
+  // The paused agent run whose tool calls wait for the user's decisions
+  const [pendingApproval, setPendingApproval] = useState<{
+    replyId: string;
+    ids: string[];
+    decisions: ToolDecision[];
+  }>();
   const ingestForm = showIngestForm && <UploadDocumentsForm />;
   const intemediateStepsToggle = showIntermediateStepsToggle && (
     <div>
@@ -50,9 +153,60 @@ export function ChatWindow(props: {
     </div>
   );
 
-  const [sourcesForMessages, setSourcesForMessages] = useState<
-    Record<string, any>
-  >({});
+  const [retrievalOptions, setRetrievalOptions] = useState<RetrievalOptions>({
+    mode: "hybrid",
+    rerank: false,
+  });
+  const retrievalOptionsControls = showRetrievalOptions && (
+    <div className="flex gap-4">
+      <select
+        className="rounded text-black"
+        value={retrievalOptions.mode}
+        onChange={(e) =>
+          setRetrievalOptions({
+            ...retrievalOptions,
+            mode: e.target.value as RetrievalMode,
+          })
+        }
+      >
+        {Object.entries(RETRIEVAL_MODES).map(([mode, label]) => (
+          <option key={mode} value={mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <div>
+        <input
+          type="checkbox"
+          id="rerank"
+          name="rerank"
+          checked={retrievalOptions.rerank}
+          onChange={(e) =>
+            setRetrievalOptions({
+              ...retrievalOptions,
+              rerank: e.target.checked,
+            })
+          }
+        />
+        <label htmlFor="rerank"> Rerank results</label>
+      </div>
+    </div>
+  );
+
+  const [retrievalFilters, setRetrievalFilters] = useState<RetrievalFilters>(
+    {},
+  );
+  const retrievalFilterBar = showRetrievalFilters && (
+    <RetrievalFilterBar
+      value={retrievalFilters}
+      onChange={setRetrievalFilters}
+    />
+  );
+  const requestBody = {
+    ...(showRetrievalOptions ? { retrieval: retrievalOptions } : {}),
+    ...(showRetrievalFilters ? { filters: retrievalFilters } : {}),
+    ...(conversationEndpoint ? { personaId: personaId ?? null } : {}),
+  };
 
   const {
     messages,
@@ -64,27 +218,92 @@ export function ChatWindow(props: {
     setMessages,
   } = useChat({
     api: endpoint,
+    body: requestBody,
+    experimental_prepareRequestBody: conversationEndpoint
+      ? ({ messages, requestBody }) => {
+          const { role, content } = messages[messages.length - 1];
+          return {
+            ...requestBody,
+            conversationId: conversationIdRef.current ?? null,
+            message: { role, content },
+          };
+        }
+      : undefined,
     onResponse(response) {
-      const sourcesHeader = response.headers.get("x-sources");
-      const sources = sourcesHeader
-        ? JSON.parse(Buffer.from(sourcesHeader, "base64").toString("utf8"))
-        : [];
-      const messageIndexHeader = response.headers.get("x-message-index");
-      if (sources.length && messageIndexHeader !== null) {
-        setSourcesForMessages({
-          ...sourcesForMessages,
-          [messageIndexHeader]: sources,
-        });
+      // The session may have ended since the page was loaded
+      if (response.status === 401) {
+        redirectToSignIn();
       }
+      const conversationIdHeader = response.headers.get("x-conversation-id");
+      if (conversationIdHeader) {
+        selectConversation(conversationIdHeader);
+      }
+      replyIdRef.current = response.headers.get("x-message-id") ?? undefined;
     },
-    streamMode: "text",
+    onFinish(message) {
+      const replyId = replyIdRef.current;
+      replyIdRef.current = undefined;
+      if (replyId) {
+        // Switch to the stored id so the answer can be rated
+        setMessages((messages) =>
+          messages.map((m) =>
+            m.id === message.id ? { ...m, id: replyId } : m,
+          ),
+        );
+      }
+    },
+    streamProtocol,
     onError: (e) => {
       toast(e.message, {
         theme: "dark",
       });
+      pickUpCutOffRun();
     },
   });
 
+  function selectConversation(id: string | undefined) {
+    if (id !== conversationIdRef.current && conversationEndpoint) {
+      utils.conversations.list.invalidate({ endpoint: conversationEndpoint });
+    }
+    conversationIdRef.current = id;
+    setConversationId(id);
+  }
+
+  async function openConversation(id: string) {
+    if (chatEndpointIsLoading || intermediateStepsLoading) {
+      return;
+    }
+    try {
+      const conversation = await utils.conversations.get.fetch({ id });
+      const thread = showThreadHistory
+        ? await utils.agentThreads.get.fetch(
+            { conversationId: id },
+            { staleTime: 0 },
+          )
+        : undefined;
+      selectConversation(id);
+      setPendingApproval(undefined);
+      setInterruptedReplyId(undefined);
+      setPersonaId(conversation.conversation.persona_id ?? undefined);
+      // The steps of a run that did not finish are not stored yet
+      setMessages([...conversation.messages, ...(thread?.steps ?? [])]);
+      if (thread) {
+        pickUpAgentThread(thread);
+      }
+    } catch (e: any) {
+      toast(e.message, {
+        theme: "dark",
+      });
+    }
+  }
+
+  function startNewConversation() {
+    selectConversation(undefined);
+    setPendingApproval(undefined);
+    setInterruptedReplyId(undefined);
+    setMessages([]);
+  }
+
   async function sendMessage(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
     if (messageContainerRef.current) {
@@ -96,159 +315,445 @@ export function ChatWindow(props: {
     if (chatEndpointIsLoading ?? intermediateStepsLoading) {
       return;
     }
-    if (!showIntermediateSteps) {
+    if (!showIntermediateSteps && !alwaysShowIntermediateSteps) {
+      setPendingApproval(undefined);
       handleSubmit(e);
       // Some extra work to show intermediate steps properly
     } else {
-      setIntermediateStepsLoading(true);
       setInput("");
-      const messagesWithUserReply = messages.concat({
+      const userMessage: Message = {
         id: messages.length.toString(),
         content: input,
         role: "user",
-      });
+      };
+      const messagesWithUserReply = messages.concat(userMessage);
       setMessages(messagesWithUserReply);
+      await postAgentRequest(
+        {
+          ...(conversationEndpoint
+            ? {
+                conversationId: conversationIdRef.current,
+                message: userMessage,
+              }
+            : { messages: messagesWithUserReply }),
+        },
+        messagesWithUserReply,
+      );
+    }
+  }
+
+  /**
+   * Posts `body` to the endpoint and shows the agent steps it streams back
+   * after `previous`. If the run is cut off, endpoints with a thread history
+   * are checked for a run to resume.
+   */
+  async function postAgentRequest(
+    body: Record<string, unknown>,
+    previous: Message[],
+  ) {
+    setIntermediateStepsLoading(true);
+    setPendingApproval(undefined);
+    setInterruptedReplyId(undefined);
+    try {
       const response = await fetch(endpoint, {
         method: "POST",
         body: JSON.stringify({
-          messages: messagesWithUserReply,
+          ...requestBody,
+          ...body,
           show_intermediate_steps: true,
         }),
       });
-      const json = await response.json();
+      await readAgentSteps(response, previous);
+    } catch (e: any) {
+      toast(e.message, {
+        theme: "dark",
+      });
+      await pickUpCutOffRun();
+    } finally {
       setIntermediateStepsLoading(false);
-      if (response.status === 200) {
-        const responseMessages: Message[] = json.messages;
-        // Represent intermediate steps as system messages for display purposes
-        // TODO: Add proper support for tool messages
-        const toolCallMessages = responseMessages.filter(
-          (responseMessage: Message) => {
-            return (
-              (responseMessage.role === "assistant" &&
-                !!responseMessage.tool_calls?.length) ||
-              responseMessage.role === "tool"
-            );
-          },
-        );
-        const intermediateStepMessages = [];
-        for (let i = 0; i < toolCallMessages.length; i += 2) {
-          const aiMessage = toolCallMessages[i];
-          const toolMessage = toolCallMessages[i + 1];
-          intermediateStepMessages.push({
-            id: (messagesWithUserReply.length + i / 2).toString(),
-            role: "system" as const,
-            content: JSON.stringify({
-              action: aiMessage.tool_calls?.[0],
-              observation: toolMessage.content,
-            }),
-          });
-        }
-        const newMessages = messagesWithUserReply;
-        for (const message of intermediateStepMessages) {
-          newMessages.push(message);
-          setMessages([...newMessages]);
-          await new Promise((resolve) =>
-            setTimeout(resolve, 1000 + Math.random() * 1000),
-          );
-        }
-        setMessages([
-          ...newMessages,
-          {
-            id: newMessages.length.toString(),
-            content: responseMessages[responseMessages.length - 1].content,
-            role: "assistant",
-          },
-        ]);
+      if (showThreadHistory && conversationIdRef.current) {
+        utils.agentThreads.history.invalidate({
+          conversationId: conversationIdRef.current,
+        });
+      }
+    }
+  }
+
+  /**
+   * Offers to carry on with an agent run that did not finish: its calls
+   * awaiting approval get their buttons back, and a run that was cut off can
+   * be resumed.
+   */
+  function pickUpAgentThread(thread: AgentThreadState) {
+    if (!thread.replyId) {
+      return;
+    }
+    if (thread.status === "awaiting_approval") {
+      setMessages((messages) =>
+        messages.map((m) =>
+          m.role === "system" && thread.awaitingApproval.includes(m.id)
+            ? {
+                ...m,
+                content: JSON.stringify({
+                  ...parseIntermediateStep(m),
+                  approval: "pending",
+                }),
+              }
+            : m,
+        ),
+      );
+      setPendingApproval({
+        replyId: thread.replyId,
+        ids: thread.awaitingApproval,
+        decisions: [],
+      });
+    } else if (thread.status === "interrupted") {
+      setInterruptedReplyId(thread.replyId);
+    }
+  }
+
+  /**
+   * After a request failed, checks endpoints with a thread history for a
+   * run to resume.
+   */
+  async function pickUpCutOffRun() {
+    if (!showThreadHistory || !conversationIdRef.current) {
+      return;
+    }
+    await utils.agentThreads.get
+      .fetch({ conversationId: conversationIdRef.current }, { staleTime: 0 })
+      .then(pickUpAgentThread)
+      .catch(() => undefined);
+  }
+
+  function resumeAgentRun() {
+    if (!interruptedReplyId || intermediateStepsLoading) {
+      return;
+    }
+    postAgentRequest(
+      {
+        conversationId: conversationIdRef.current,
+        resume: { replyId: interruptedReplyId },
+      },
+      messages,
+    );
+  }
+
+  /** Runs the agent again from an earlier checkpoint of its thread. */
+  function replayFromCheckpoint(checkpointId: string) {
+    if (intermediateStepsLoading) {
+      return;
+    }
+    postAgentRequest(
+      { conversationId: conversationIdRef.current, replay: { checkpointId } },
+      messages,
+    );
+  }
+
+  /** Asks `content` from an earlier checkpoint, branching off the thread. */
+  function forkFromCheckpoint(checkpointId: string, content: string) {
+    if (intermediateStepsLoading) {
+      return;
+    }
+    const userMessage: Message = {
+      id: messages.length.toString(),
+      content,
+      role: "user",
+    };
+    const messagesWithUserReply = messages.concat(userMessage);
+    setMessages(messagesWithUserReply);
+    postAgentRequest(
+      {
+        conversationId: conversationIdRef.current,
+        message: userMessage,
+        fork: { checkpointId },
+      },
+      messagesWithUserReply,
+    );
+  }
+
+  /**
+   * Shows the agent step events of a response after `previous`, then
+   * switches the answer to its stored id so it can be rated. If the run
+   * paused for approval, the calls it waits for are kept in
+   * `pendingApproval` instead.
+   */
+  async function readAgentSteps(response: Response, previous: Message[]) {
+    if (response.status === 401) {
+      redirectToSignIn();
+    }
+    if (!response.ok || !response.body) {
+      const json = await response.json();
+      throw new Error(json.error ?? response.statusText);
+    }
+    const conversationIdHeader = response.headers.get("x-conversation-id");
+    if (conversationIdHeader) {
+      selectConversation(conversationIdHeader);
+    }
+
+    // Represent tool calls as system messages for display purposes, keyed
+    // by tool call id, with the answer streamed in after them
+    const steps = [...previous];
+    const answer: Message = {
+      id: previous.length.toString(),
+      role: "assistant",
+      content: "",
+    };
+    const showSteps = () =>
+      setMessages([...steps, ...(answer.content ? [{ ...answer }] : [])]);
+    const updateStep = (
+      id: string,
+      update: Partial<IntermediateStepContent>,
+    ) => {
+      const index = steps.findIndex(
+        (step) => step.role === "system" && step.id === id,
+      );
+      if (index !== -1) {
+        steps[index] = {
+          ...steps[index],
+          content: JSON.stringify({
+            ...parseIntermediateStep(steps[index]),
+            ...update,
+          }),
+        };
+      }
+    };
+    const awaitingApproval: string[] = [];
+    await readAgentStepEvents(response.body, (event) => {
+      if (event.type === "tool_start") {
+        steps.push({
+          id: event.id,
+          role: "system",
+          content: JSON.stringify({
+            action: { id: event.id, name: event.name, args: event.args },
+            turn: event.turn,
+          } as IntermediateStepContent),
+        });
+      } else if (event.type === "tool_end") {
+        updateStep(event.id, { observation: event.output });
+      } else if (event.type === "approval_required") {
+        updateStep(event.id, { approval: "pending" });
+        awaitingApproval.push(event.id);
+      } else if (event.type === "token") {
+        answer.content += event.content;
       } else {
-        if (json.error) {
-          toast(json.error, {
-            theme: "dark",
-          });
-          throw new Error(json.error);
-        }
+        throw new Error(event.error);
       }
+      showSteps();
+    });
+    const replyId = response.headers.get("x-message-id") ?? answer.id;
+    if (awaitingApproval.length) {
+      setPendingApproval({ replyId, ids: awaitingApproval, decisions: [] });
+    } else {
+      // Switch to the stored id so the answer can be rated
+      answer.id = replyId;
+      showSteps();
+    }
+  }
+
+  /**
+   * Records the user's decision on a call awaiting approval, and resumes the
+   * paused run once every call it waits for is decided.
+   */
+  async function decideToolCall(decision: ToolDecision) {
+    if (!pendingApproval || intermediateStepsLoading) {
+      return;
+    }
+    const decisions = pendingApproval.decisions
+      .filter(({ id }) => id !== decision.id)
+      .concat(decision);
+    const decided = messages.map((m) => {
+      if (m.role !== "system" || m.id !== decision.id) {
+        return m;
+      }
+      const step = parseIntermediateStep(m);
+      return {
+        ...m,
+        content: JSON.stringify({
+          ...step,
+          action: { ...step.action, args: decision.args ?? step.action.args },
+          approval: decision.decision,
+        }),
+      };
+    });
+    setMessages(decided);
+    if (
+      !pendingApproval.ids.every((id) => decisions.some((d) => d.id === id))
+    ) {
+      setPendingApproval({ ...pendingApproval, decisions });
+      return;
     }
+
+    await postAgentRequest(
+      {
+        conversationId: conversationIdRef.current,
+        resume: { replyId: pendingApproval.replyId, decisions },
+      },
+      decided,
+    );
   }
 
+  // Decisions are only offered on the calls of the run that is still paused
+  const isAwaitingDecision = (m: Message) =>
+    !!pendingApproval?.ids.includes(m.id);
+
   return (
-    <div
-      className={`flex flex-col items-center p-4 md:p-8 rounded grow overflow-hidden ${messages.length > 0 ? "border" : ""}`}
-    >
-      <h2 className={`${messages.length > 0 ? "" : "hidden"} text-2xl`}>
-        {emoji} {titleText}
-      </h2>
-      {messages.length === 0 ? emptyStateComponent : ""}
+    <div className="flex grow overflow-hidden">
+      {conversationEndpoint && (
+        <ConversationSidebar
+          endpoint={conversationEndpoint}
+          activeConversationId={conversationId}
+          onSelect={openConversation}
+          onNew={startNewConversation}
+        />
+      )}
       <div
-        className="flex flex-col-reverse w-full mb-4 overflow-auto transition-[flex-grow] ease-in-out"
-        ref={messageContainerRef}
+        className={`flex flex-col items-center p-4 md:p-8 rounded grow overflow-hidden ${messages.length > 0 ? "border" : ""}`}
       >
-        {messages.length > 0
-          ? [...messages].reverse().map((m, i) => {
-              const sourceKey = (messages.length - 1 - i).toString();
-              return m.role === "system" ? (
-                <IntermediateStep key={m.id} message={m} />
-              ) : (
-                <ChatMessageBubble
-                  key={m.id}
-                  message={m}
-                  aiEmoji={emoji}
-                  sources={sourcesForMessages[sourceKey]}
-                />
-              );
-            })
-          : ""}
-      </div>
+        <h2 className={`${messages.length > 0 ? "" : "hidden"} text-2xl`}>
+          {emoji} {titleText}
+        </h2>
+        {messages.length === 0 ? emptyStateComponent : ""}
+        <div
+          className="flex flex-col-reverse w-full mb-4 overflow-auto transition-[flex-grow] ease-in-out"
+          ref={messageContainerRef}
+        >
+          {messages.length > 0
+            ? groupIntermediateSteps(messages)
+                .reverse()
+                .map(([m, ...parallel]) =>
+                  parallel.length ? (
+                    <IntermediateStepGroup
+                      key={m.id}
+                      messages={[m, ...parallel]}
+                      onDecision={
+                        [m, ...parallel].some(isAwaitingDecision)
+                          ? decideToolCall
+                          : undefined
+                      }
+                    />
+                  ) : m.role === "system" ? (
+                    <IntermediateStep
+                      key={m.id}
+                      message={m}
+                      onDecision={
+                        isAwaitingDecision(m) ? decideToolCall : undefined
+                      }
+                    />
+                  ) : (
+                    <ChatMessageBubble
+                      key={m.id}
+                      message={m}
+                      aiEmoji={emoji}
+                      sources={getAnnotation(m, "sources")?.sources ?? []}
+                      feedback={
+                        conversationEndpoint && isStoredMessageId(m.id)
+                          ? {
+                              messageId: m.id,
+                              value: feedback?.find(
+                                ({ message_id }) => message_id === m.id,
+                              ),
+                            }
+                          : undefined
+                      }
+                    />
+                  ),
+                )
+            : ""}
+        </div>
 
-      {messages.length === 0 && ingestForm}
+        {messages.length === 0 && ingestForm}
 
-      <form onSubmit={sendMessage} className="flex w-full flex-col">
-        <div className="flex">{intemediateStepsToggle}</div>
-        <div className="flex w-full mt-4">
-          <input
-            className="grow mr-8 p-4 rounded"
-            value={input}
-            placeholder={placeholder ?? "What's it like to be a pirate?"}
-            onChange={handleInputChange}
-          />
-          <button
-            type="submit"
-            className="shrink-0 px-8 py-4 bg-sky-600 rounded w-28"
-          >
-            <div
-              role="status"
-              className={`${chatEndpointIsLoading || intermediateStepsLoading ? "" : "hidden"} flex justify-center`}
+        {interruptedReplyId ? (
+          <div className="flex w-full items-center gap-4 mb-4 p-2 rounded bg-[#25252d] text-sm">
+            <span>⚠️ The last run stopped before it finished.</span>
+            <button
+              type="button"
+              className="px-4 py-1 bg-sky-600 rounded"
+              onClick={resumeAgentRun}
             >
-              <svg
-                aria-hidden="true"
-                className="w-6 h-6 text-white animate-spin dark:text-white fill-sky-800"
-                viewBox="0 0 100 101"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
+              Resume
+            </button>
+          </div>
+        ) : (
+          ""
+        )}
+        {showThreadHistory && showTimeTravel && conversationId ? (
+          <AgentThreadHistory
+            conversationId={conversationId}
+            disabled={intermediateStepsLoading}
+            onReplay={replayFromCheckpoint}
+            onFork={forkFromCheckpoint}
+          />
+        ) : (
+          ""
+        )}
+
+        <form onSubmit={sendMessage} className="flex w-full flex-col">
+          {retrievalFilterBar}
+          <div className="flex gap-4">
+            {personaSelect}
+            {intemediateStepsToggle}
+            {showThreadHistory && conversationId ? (
+              <button
+                type="button"
+                className="px-2 rounded bg-[#25252d] text-sm"
+                onClick={() => setShowTimeTravel(!showTimeTravel)}
               >
-                <path
-                  d="M100 50.5908C100 78.2051 77.6142 100.591 50 100.591C22.3858 100.591 0 78.2051 0 50.5908C0 22.9766 22.3858 0.59082 50 0.59082C77.6142 0.59082 100 22.9766 100 50.5908ZM9.08144 50.5908C9.08144 73.1895 27.4013 91.5094 50 91.5094C72.5987 91.5094 90.9186 73.1895 90.9186 50.5908C90.9186 27.9921 72.5987 9.67226 50 9.67226C27.4013 9.67226 9.08144 27.9921 9.08144 50.5908Z"
-                  fill="currentColor"
-                />
-                <path
-                  d="M93.9676 39.0409C96.393 38.4038 97.8624 35.9116 97.0079 33.5539C95.2932 28.8227 92.871 24.3692 89.8167 20.348C85.8452 15.1192 80.8826 10.7238 75.2124 7.41289C69.5422 4.10194 63.2754 1.94025 56.7698 1.05124C51.7666 0.367541 46.6976 0.446843 41.7345 1.27873C39.2613 1.69328 37.813 4.19778 38.4501 6.62326C39.0873 9.04874 41.5694 10.4717 44.0505 10.1071C47.8511 9.54855 51.7191 9.52689 55.5402 10.0491C60.8642 10.7766 65.9928 12.5457 70.6331 15.2552C75.2735 17.9648 79.3347 21.5619 82.5849 25.841C84.9175 28.9121 86.7997 32.2913 88.1811 35.8758C89.083 38.2158 91.5421 39.6781 93.9676 39.0409Z"
-                  fill="currentFill"
-                />
-              </svg>
-              <span className="sr-only">Loading...</span>
-            </div>
-            <span
-              className={
-                chatEndpointIsLoading || intermediateStepsLoading
-                  ? "hidden"
-                  : ""
-              }
+                🕰️ {showTimeTravel ? "Hide time travel" : "Time travel"}
+              </button>
+            ) : (
+              ""
+            )}
+            {retrievalOptionsControls}
+          </div>
+          <div className="flex w-full mt-4">
+            <input
+              className="grow mr-8 p-4 rounded"
+              value={input}
+              placeholder={placeholder ?? "What's it like to be a pirate?"}
+              onChange={handleInputChange}
+            />
+            <button
+              type="submit"
+              className="shrink-0 px-8 py-4 bg-sky-600 rounded w-28"
             >
-              Send
-            </span>
-          </button>
-        </div>
-      </form>
-      <ToastContainer />
+              <div
+                role="status"
+                className={`${chatEndpointIsLoading || intermediateStepsLoading ? "" : "hidden"} flex justify-center`}
+              >
+                <svg
+                  aria-hidden="true"
+                  className="w-6 h-6 text-white animate-spin dark:text-white fill-sky-800"
+                  viewBox="0 0 100 101"
+                  fill="none"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    d="M100 50.5908C100 78.2051 77.6142 100.591 50 100.591C22.3858 100.591 0 78.2051 0 50.5908C0 22.9766 22.3858 0.59082 50 0.59082C77.6142 0.59082 100 22.9766 100 50.5908ZM9.08144 50.5908C9.08144 73.1895 27.4013 91.5094 50 91.5094C72.5987 91.5094 90.9186 73.1895 90.9186 50.5908C90.9186 27.9921 72.5987 9.67226 50 9.67226C27.4013 9.67226 9.08144 27.9921 9.08144 50.5908Z"
+                    fill="currentColor"
+                  />
+                  <path
+                    d="M93.9676 39.0409C96.393 38.4038 97.8624 35.9116 97.0079 33.5539C95.2932 28.8227 92.871 24.3692 89.8167 20.348C85.8452 15.1192 80.8826 10.7238 75.2124 7.41289C69.5422 4.10194 63.2754 1.94025 56.7698 1.05124C51.7666 0.367541 46.6976 0.446843 41.7345 1.27873C39.2613 1.69328 37.813 4.19778 38.4501 6.62326C39.0873 9.04874 41.5694 10.4717 44.0505 10.1071C47.8511 9.54855 51.7191 9.52689 55.5402 10.0491C60.8642 10.7766 65.9928 12.5457 70.6331 15.2552C75.2735 17.9648 79.3347 21.5619 82.5849 25.841C84.9175 28.9121 86.7997 32.2913 88.1811 35.8758C89.083 38.2158 91.5421 39.6781 93.9676 39.0409Z"
+                    fill="currentFill"
+                  />
+                </svg>
+                <span className="sr-only">Loading...</span>
+              </div>
+              <span
+                className={
+                  chatEndpointIsLoading || intermediateStepsLoading
+                    ? "hidden"
+                    : ""
+                }
+              >
+                Send
+              </span>
+            </button>
+          </div>
+        </form>
+        <ToastContainer />
+      </div>
     </div>
   );
 }
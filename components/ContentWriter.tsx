@@ -0,0 +1,252 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+
+import { readJsonLines } from "@/lib/agents/steps";
+import {
+  CONTENT_WRITER_NODES,
+  type ContentWriterEvent,
+  type ContentWriterNode,
+  type WrittenArticle,
+} from "@/lib/writer/events";
+
+type NodeProgress = {
+  status: "running" | "done";
+  /** How many times the node started, as critique and revise can repeat. */
+  runs: number;
+  messages: string[];
+  summary?: string;
+};
+
+const STATUS_ICONS = {
+  pending: "⚪",
+  running: "⏳",
+  done: "✅",
+};
+
+function NodeRow(props: { node: ContentWriterNode; progress?: NodeProgress }) {
+  const { node, progress } = props;
+  return (
+    <li className="p-2 rounded bg-[#25252d]">
+      <div className="flex gap-2">
+        <span>{STATUS_ICONS[progress?.status ?? "pending"]}</span>
+        <span className="grow">
+          {CONTENT_WRITER_NODES[node]}
+          {progress && progress.runs > 1 ? ` (run ${progress.runs})` : ""}
+        </span>
+        {progress?.summary ? (
+          <span className="text-sm">{progress.summary}</span>
+        ) : (
+          ""
+        )}
+      </div>
+      {progress?.status === "running" && progress.messages.length ? (
+        <ul className="ml-8 mt-1 text-xs">
+          {progress.messages.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      ) : (
+        ""
+      )}
+    </li>
+  );
+}
+
+/** `savedId` is unset when the article could not be saved. */
+function ArticleView(props: { article: WrittenArticle; savedId?: string }) {
+  const { article, savedId } = props;
+  return (
+    <div className="flex flex-col gap-4 mt-4">
+      {article.seo ? (
+        <div className="p-4 rounded bg-[#25252d]">
+          <h3 className="text-lg mb-2">🔍 SEO check</h3>
+          <ul className="text-sm mb-2">
+            {article.seo.checks.map((check) => (
+              <li key={check.label}>
+                {check.passed ? "✅" : "❌"} {check.label}
+              </li>
+            ))}
+          </ul>
+          <p className="text-sm">
+            <strong>Meta description:</strong> {article.seo.metaDescription}
+          </p>
+          <p className="text-sm">
+            <strong>Keywords:</strong>{" "}
+            {article.seo.keywords.join(", ") || "none"}
+          </p>
+          {article.seo.suggestions.length ? (
+            <ul className="list-disc ml-6 mt-2 text-sm">
+              {article.seo.suggestions.map((suggestion) => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+          ) : (
+            ""
+          )}
+        </div>
+      ) : (
+        ""
+      )}
+      <div className="p-4 rounded bg-[#25252d]">
+        <div className="flex gap-2 items-baseline mb-2">
+          <h3 className="grow text-xl">{article.title}</h3>
+          <span className="text-xs">
+            {savedId
+              ? `Saved as a draft (${savedId})`
+              : "⚠️ Not saved, copy it before you leave"}
+          </span>
+        </div>
+        <pre className="whitespace-pre-wrap font-sans text-sm">
+          {article.body}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Writes an article with the content writer graph, showing each node's
+ * progress as it streams in, then the draft it saved with its SEO report.
+ */
+export function ContentWriter() {
+  const [topic, setTopic] = useState("");
+  const [audience, setAudience] = useState("");
+  const [keywords, setKeywords] = useState("");
+  const [isWriting, setIsWriting] = useState(false);
+  const [progress, setProgress] = useState<
+    Partial<Record<ContentWriterNode, NodeProgress>>
+  >({});
+  const [article, setArticle] = useState<WrittenArticle>();
+  const [savedId, setSavedId] = useState<string>();
+
+  async function write(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!topic.trim() || isWriting) {
+      return;
+    }
+    setIsWriting(true);
+    setProgress({});
+    setArticle(undefined);
+    setSavedId(undefined);
+    try {
+      const response = await fetch("/api/content/write", {
+        method: "POST",
+        body: JSON.stringify({
+          topic,
+          audience: audience.trim() || undefined,
+          keywords: keywords
+            .split(",")
+            .map((keyword) => keyword.trim())
+            .filter(Boolean),
+        }),
+      });
+      if (!response.ok || !response.body) {
+        const json = await response.json();
+        throw new Error(json.error ?? response.statusText);
+      }
+      await readJsonLines<ContentWriterEvent>(response.body, (event) => {
+        if (event.type === "node_start") {
+          setProgress((progress) => ({
+            ...progress,
+            [event.node]: {
+              status: "running",
+              runs: (progress[event.node]?.runs ?? 0) + 1,
+              messages: [],
+            },
+          }));
+        } else if (event.type === "node_progress") {
+          setProgress((progress) => {
+            const current = progress[event.node];
+            return current
+              ? {
+                  ...progress,
+                  [event.node]: {
+                    ...current,
+                    messages: [...current.messages, event.message],
+                  },
+                }
+              : progress;
+          });
+        } else if (event.type === "node_end") {
+          setProgress((progress) => {
+            const current = progress[event.node];
+            return current
+              ? {
+                  ...progress,
+                  [event.node]: {
+                    ...current,
+                    status: "done",
+                    summary: event.summary,
+                  },
+                }
+              : progress;
+          });
+        } else if (event.type === "draft") {
+          setArticle(event);
+          setSavedId(event.id);
+        } else {
+          setArticle(event.article);
+          throw new Error(event.error);
+        }
+      });
+    } catch (e: any) {
+      toast(e.message, { theme: "dark" });
+    } finally {
+      setIsWriting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col p-4 md:p-8 rounded grow overflow-auto border">
+      <h2 className="text-2xl mb-4">✍️ Content writer</h2>
+      <p className="text-sm mb-4">
+        Outlines an article, researches each section in your library (and on the
+        web when search is set up), drafts, critiques and revises it, then
+        checks its SEO and saves it as a draft.
+      </p>
+      <form onSubmit={write} className="flex flex-col gap-2 mb-4 text-sm">
+        <input
+          className="p-2 rounded text-black"
+          placeholder="Topic, e.g. How to choose a running shoe"
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-2">
+          <input
+            className="grow p-2 rounded text-black"
+            placeholder="Audience, e.g. beginner runners"
+            value={audience}
+            onChange={(e) => setAudience(e.target.value)}
+          />
+          <input
+            className="grow p-2 rounded text-black"
+            placeholder="Keywords, comma separated"
+            value={keywords}
+            onChange={(e) => setKeywords(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-sky-600 rounded disabled:opacity-50"
+            disabled={isWriting || !topic.trim()}
+          >
+            {isWriting ? "Writing..." : "Write"}
+          </button>
+        </div>
+      </form>
+      <ul className="flex flex-col gap-2">
+        {Object.keys(CONTENT_WRITER_NODES).map((node) => (
+          <NodeRow
+            key={node}
+            node={node as ContentWriterNode}
+            progress={progress[node as ContentWriterNode]}
+          />
+        ))}
+      </ul>
+      {article ? <ArticleView article={article} savedId={savedId} /> : ""}
+      <ToastContainer />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+
+import type { ConversationEndpoint } from "@/lib/conversations";
+import { trpc } from "@/trpc/client";
+
+export function ConversationSidebar(props: {
+  endpoint: ConversationEndpoint;
+  activeConversationId?: string;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+}) {
+  const { endpoint, activeConversationId, onSelect, onNew } = props;
+
+  const utils = trpc.useUtils();
+  const { data: conversations, isLoading } = trpc.conversations.list.useQuery({
+    endpoint,
+  });
+  const invalidate = () => utils.conversations.list.invalidate({ endpoint });
+  const rename = trpc.conversations.rename.useMutation({
+    onSuccess: invalidate,
+  });
+  const remove = trpc.conversations.delete.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  function submitRename(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (editingId && draftTitle.trim()) {
+      rename.mutate({ id: editingId, title: draftTitle });
+    }
+    setEditingId(null);
+  }
+
+  function deleteConversation(conversationId: string) {
+    if (!window.confirm("Delete this conversation?")) {
+      return;
+    }
+    remove.mutate({ id: conversationId });
+    if (conversationId === activeConversationId) {
+      onNew();
+    }
+  }
+
+  return (
+    <aside className="hidden md:flex flex-col w-64 shrink-0 mr-4 overflow-hidden">
+      <button
+        type="button"
+        className="px-4 py-2 mb-4 bg-sky-600 rounded"
+        onClick={onNew}
+      >
+        ➕ New conversation
+      </button>
+      <div className="flex flex-col overflow-auto">
+        {isLoading ? <span className="text-sm px-2">Loading...</span> : ""}
+        {conversations?.map((conversation) =>
+          conversation.id === editingId ? (
+            <form key={conversation.id} onSubmit={submitRename}>
+              <input
+                autoFocus
+                className="w-full p-2 mb-1 rounded text-black"
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={() => setEditingId(null)}
+              />
+            </form>
+          ) : (
+            <div
+              key={conversation.id}
+              className={`group flex items-center rounded mb-1 ${conversation.id === activeConversationId ? "bg-[#25252d]" : "hover:bg-[#25252d]"}`}
+            >
+              <button
+                type="button"
+                className="grow p-2 text-left truncate"
+                title={conversation.title}
+                onClick={() => onSelect(conversation.id)}
+              >
+                {conversation.title}
+              </button>
+              <button
+                type="button"
+                className="hidden group-hover:block px-1"
+                title="Rename"
+                onClick={() => {
+                  setDraftTitle(conversation.title);
+                  setEditingId(conversation.id);
+                }}
+              >
+                ✏️
+              </button>
+              <button
+                type="button"
+                className="hidden group-hover:block px-1"
+                title="Delete"
+                onClick={() => deleteConversation(conversation.id)}
+              >
+                🗑️
+              </button>
+            </div>
+          ),
+        )}
+      </div>
+    </aside>
+  );
+}
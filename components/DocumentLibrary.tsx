@@ -0,0 +1,299 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+
+import {
+  IngestionProgress,
+  waitForIngestionJob,
+} from "@/components/IngestionProgress";
+import { SplitterConfigFields } from "@/components/SplitterConfigFields";
+import type { IngestionJob } from "@/lib/ingest/jobs";
+import type { DocumentSource } from "@/lib/ingest/pipeline";
+import {
+  type SplitterConfig,
+  describeSplitterConfig,
+} from "@/lib/ingest/splitterConfig";
+import { SOURCE_STATUSES, type SourceStatus } from "@/lib/retrieval/options";
+import { trpc } from "@/trpc/client";
+
+function ChunkPreview(props: { sourceId: string }) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = trpc.documents.chunks.useQuery({
+    id: props.sourceId,
+    page,
+  });
+
+  if (isLoading) {
+    return <div className="p-4 text-sm">Loading chunks...</div>;
+  }
+  return (
+    <div className="flex flex-col gap-2 p-4">
+      {data?.items.map((chunk, i) => (
+        <code
+          key={chunk.id}
+          className="block bg-slate-600 px-2 py-1 rounded text-xs whitespace-pre-wrap"
+        >
+          <b>
+            #{(page - 1) * data.pageSize + i + 1}
+            {chunk.metadata.page !== undefined
+              ? ` · page ${chunk.metadata.page}`
+              : ""}
+            {chunk.metadata.headingPath?.length
+              ? ` · ${chunk.metadata.headingPath.join(" › ")}`
+              : ""}
+          </b>
+          <br />
+          {chunk.content}
+        </code>
+      ))}
+      {data && data.totalPages > 1 ? (
+        <div className="flex gap-4 text-sm">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            ◀ Previous
+          </button>
+          <span>
+            Page {page} of {data.totalPages}
+          </span>
+          <button
+            type="button"
+            disabled={page >= data.totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            Next ▶
+          </button>
+        </div>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
+
+function ReingestForm(props: {
+  source: DocumentSource;
+  onSubmit: (splitterConfig: SplitterConfig) => void;
+  isLoading: boolean;
+}) {
+  const [splitterConfig, setSplitterConfig] = useState(
+    props.source.splitter_config,
+  );
+
+  function submit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    props.onSubmit(splitterConfig);
+  }
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-2 text-sm">
+      <SplitterConfigFields
+        value={splitterConfig}
+        onChange={setSplitterConfig}
+      />
+      <button
+        type="submit"
+        disabled={props.isLoading}
+        className="px-2 py-1 bg-sky-600 rounded"
+      >
+        {props.isLoading ? "Re-ingesting..." : "Re-ingest"}
+      </button>
+    </form>
+  );
+}
+
+function SourceTagsEditor(props: {
+  source: DocumentSource;
+  onChange: (changes: { tags?: string[]; status?: SourceStatus }) => void;
+}) {
+  const { source, onChange } = props;
+  const [newTag, setNewTag] = useState("");
+
+  function addTag(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const tag = newTag.trim().toLowerCase();
+    if (tag && !source.tags.includes(tag)) {
+      onChange({ tags: [...source.tags, tag] });
+    }
+    setNewTag("");
+  }
+
+  return (
+    <form
+      onSubmit={addTag}
+      className="flex flex-wrap items-center gap-2 px-4 pb-4 text-sm"
+    >
+      <select
+        className="p-1 rounded text-black"
+        value={source.status}
+        onChange={(e) => onChange({ status: e.target.value as SourceStatus })}
+      >
+        {SOURCE_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {status}
+          </option>
+        ))}
+      </select>
+      {source.tags.map((tag) => (
+        <span key={tag} className="px-2 py-1 rounded-full bg-slate-600 text-xs">
+          #{tag}{" "}
+          <button
+            type="button"
+            aria-label={`Remove tag ${tag}`}
+            onClick={() =>
+              onChange({ tags: source.tags.filter((t) => t !== tag) })
+            }
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+      <input
+        className="w-32 p-1 rounded text-black"
+        placeholder="Add a tag"
+        value={newTag}
+        onChange={(e) => setNewTag(e.target.value)}
+      />
+    </form>
+  );
+}
+
+export function DocumentLibrary() {
+  const utils = trpc.useUtils();
+  const { data: sources, isLoading } = trpc.documents.list.useQuery();
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const onError = (e: { message: string }) => {
+    toast(e.message, { theme: "dark" });
+  };
+  /** The re-ingestion job running for each source, by source id. */
+  const [jobs, setJobs] = useState<Record<string, IngestionJob>>({});
+  const setJob = (sourceId: string, job?: IngestionJob) =>
+    setJobs(({ [sourceId]: _, ...rest }) =>
+      job ? { ...rest, [sourceId]: job } : rest,
+    );
+
+  async function waitForReingestion(source: DocumentSource, job: IngestionJob) {
+    setJob(source.id, job);
+    try {
+      const { status, error, result } = await waitForIngestionJob(
+        job.id,
+        (update) => setJob(source.id, update),
+      );
+      if (status === "failed" || !result) {
+        throw new Error(error ?? "Re-ingesting failed.");
+      }
+      toast(
+        `Re-ingested ${source.name}: ${result.added} chunks added, ${result.unchanged} unchanged, ${result.removed} removed`,
+        { theme: "dark" },
+      );
+    } catch (e: any) {
+      onError(e);
+    } finally {
+      setJob(source.id);
+      utils.documents.list.invalidate();
+      utils.documents.chunks.invalidate({ id: source.id });
+    }
+  }
+
+  const reingest = trpc.documents.reingest.useMutation({ onError });
+  const update = trpc.documents.update.useMutation({
+    onSuccess: () => {
+      utils.documents.list.invalidate();
+      utils.documents.tags.invalidate();
+    },
+    onError,
+  });
+  const remove = trpc.documents.delete.useMutation({
+    onSuccess: () => utils.documents.list.invalidate(),
+    onError,
+  });
+
+  function deleteSource(source: DocumentSource) {
+    if (
+      window.confirm(
+        `Delete ${source.name} and its ${source.chunk_count} chunks? This cannot be undone.`,
+      )
+    ) {
+      remove.mutate({ id: source.id });
+    }
+  }
+
+  return (
+    <div className="flex flex-col p-4 md:p-8 rounded grow overflow-auto border">
+      <h2 className="text-2xl mb-4">📚 Document library</h2>
+      {isLoading ? <span>Loading...</span> : ""}
+      {sources?.length === 0 ? (
+        <span>
+          No documents yet. Upload some from the{" "}
+          <a href="/retrieval" className="underline">
+            retrieval page
+          </a>
+          .
+        </span>
+      ) : (
+        ""
+      )}
+      {sources?.map((source) => (
+        <div key={source.id} className="mb-4 rounded bg-[#25252d]">
+          <div className="flex flex-wrap items-center gap-4 p-4">
+            <div className="grow">
+              <div className="font-bold">{source.name}</div>
+              <div className="text-sm">
+                {source.mime_type} · {source.chunk_count} chunks ·{" "}
+                {describeSplitterConfig(source.splitter_config)} · uploaded{" "}
+                {new Date(source.created_at).toLocaleString()}
+              </div>
+            </div>
+            <ReingestForm
+              source={source}
+              isLoading={
+                Boolean(jobs[source.id]) ||
+                (reingest.isPending && reingest.variables?.id === source.id)
+              }
+              onSubmit={(splitterConfig) =>
+                reingest.mutate(
+                  { id: source.id, splitterConfig },
+                  { onSuccess: (job) => waitForReingestion(source, job) },
+                )
+              }
+            />
+            <button
+              type="button"
+              className="px-2 py-1 rounded bg-slate-600 text-sm"
+              onClick={() =>
+                setPreviewId(previewId === source.id ? null : source.id)
+              }
+            >
+              {previewId === source.id ? "🔼 Hide chunks" : "🔽 Preview chunks"}
+            </button>
+            <button
+              type="button"
+              className="px-2 py-1 rounded bg-red-700 text-sm"
+              onClick={() => deleteSource(source)}
+            >
+              🗑️ Delete
+            </button>
+          </div>
+          {jobs[source.id] ? (
+            <div className="px-4 pb-4">
+              <IngestionProgress job={jobs[source.id]} />
+            </div>
+          ) : (
+            ""
+          )}
+          <SourceTagsEditor
+            source={source}
+            onChange={(changes) => update.mutate({ id: source.id, ...changes })}
+          />
+          {previewId === source.id ? <ChunkPreview sourceId={source.id} /> : ""}
+        </div>
+      ))}
+      <ToastContainer />
+    </div>
+  );
+}
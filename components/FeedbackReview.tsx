@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+
+import type { ConversationEndpoint } from "@/lib/conversations";
+import {
+  FEEDBACK_ENDPOINTS,
+  type FeedbackRating,
+  type MessageFeedback,
+} from "@/lib/feedback";
+import { trpc } from "@/trpc/client";
+import type { FeedbackTally } from "@/trpc/routers/feedback";
+
+type FeedbackFilters = {
+  endpoint?: ConversationEndpoint;
+  rating?: FeedbackRating;
+  from?: string;
+  to?: string;
+};
+
+function TallyTable(props: { title: string; tallies: FeedbackTally[] }) {
+  return (
+    <table className="text-sm">
+      <thead>
+        <tr className="text-left">
+          <th className="pr-4">{props.title}</th>
+          <th className="pr-4">👍</th>
+          <th className="pr-4">👎</th>
+        </tr>
+      </thead>
+      <tbody>
+        {props.tallies.map((tally) => (
+          <tr key={tally.name}>
+            <td className="pr-4">{tally.name}</td>
+            <td className="pr-4">{tally.up}</td>
+            <td className="pr-4">{tally.down}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function FeedbackCard(props: { feedback: MessageFeedback }) {
+  const { feedback } = props;
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="mb-4 p-4 rounded bg-[#25252d] text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-lg">
+          {feedback.rating === "up" ? "👍" : "👎"}
+        </span>
+        <span className="grow">
+          {FEEDBACK_ENDPOINTS[feedback.endpoint]} · {feedback.persona_name} ·{" "}
+          <code>{feedback.model ?? "unknown model"}</code>
+        </span>
+        <span className="text-xs">
+          {new Date(feedback.created_at).toLocaleString()}
+        </span>
+      </div>
+      {feedback.comment ? (
+        <blockquote className="mt-2 pl-2 border-l-2 italic">
+          {feedback.comment}
+        </blockquote>
+      ) : (
+        ""
+      )}
+      <div className="mt-2">
+        <b>Q:</b> {feedback.question ?? "–"}
+      </div>
+      <button
+        type="button"
+        className="mt-2 text-left whitespace-pre-wrap"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <b>A:</b>{" "}
+        {expanded || feedback.answer.length <= 280
+          ? feedback.answer
+          : `${feedback.answer.slice(0, 280)}... 🔽`}
+      </button>
+      <div className="mt-2 flex flex-wrap gap-2 text-xs">
+        {feedback.source_ids.length ? (
+          <span className="px-2 py-1 rounded bg-slate-600">
+            Sources: {feedback.source_ids.map((id) => `#${id}`).join(", ")}
+          </span>
+        ) : (
+          ""
+        )}
+        {feedback.prompt_versions.map((prompt) => (
+          <span key={prompt.key} className="px-2 py-1 rounded bg-slate-600">
+            {prompt.key} v{prompt.version}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lists the workspace's feedback on answers, filtered by endpoint, rating
+ * and date, with thumbs up and down counted per persona and model.
+ */
+export function FeedbackReview() {
+  const [filters, setFilters] = useState<FeedbackFilters>({});
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = trpc.feedback.list.useQuery({
+    ...filters,
+    page,
+  });
+  const { data: summary } = trpc.feedback.summary.useQuery(filters);
+
+  function changeFilters(changes: FeedbackFilters) {
+    setFilters({ ...filters, ...changes });
+    setPage(1);
+  }
+
+  return (
+    <div className="flex flex-col p-4 md:p-8 rounded grow overflow-auto border">
+      <h2 className="text-2xl mb-4">💬 Feedback</h2>
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        <select
+          className="p-1 rounded text-black"
+          value={filters.endpoint ?? ""}
+          onChange={(e) =>
+            changeFilters({
+              endpoint: (e.target.value || undefined) as
+                | ConversationEndpoint
+                | undefined,
+            })
+          }
+        >
+          <option value="">All endpoints</option>
+          {Object.entries(FEEDBACK_ENDPOINTS).map(([endpoint, label]) => (
+            <option key={endpoint} value={endpoint}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="p-1 rounded text-black"
+          value={filters.rating ?? ""}
+          onChange={(e) =>
+            changeFilters({
+              rating: (e.target.value || undefined) as
+                | FeedbackRating
+                | undefined,
+            })
+          }
+        >
+          <option value="">👍 and 👎</option>
+          <option value="up">👍 only</option>
+          <option value="down">👎 only</option>
+        </select>
+        <label>
+          From{" "}
+          <input
+            type="date"
+            className="p-1 rounded text-black"
+            value={filters.from ?? ""}
+            onChange={(e) =>
+              changeFilters({ from: e.target.value || undefined })
+            }
+          />
+        </label>
+        <label>
+          to{" "}
+          <input
+            type="date"
+            className="p-1 rounded text-black"
+            value={filters.to ?? ""}
+            onChange={(e) => changeFilters({ to: e.target.value || undefined })}
+          />
+        </label>
+      </div>
+      {summary && (summary.personas.length || summary.models.length) ? (
+        <div className="flex flex-wrap gap-8 mb-4">
+          <TallyTable title="Persona" tallies={summary.personas} />
+          <TallyTable title="Model" tallies={summary.models} />
+        </div>
+      ) : (
+        ""
+      )}
+      {isLoading ? <span>Loading...</span> : ""}
+      {data && !data.items.length ? (
+        <span>No feedback matches these filters yet.</span>
+      ) : (
+        ""
+      )}
+      {data?.items.map((feedback) => (
+        <FeedbackCard key={feedback.id} feedback={feedback} />
+      ))}
+      {data && data.totalPages > 1 ? (
+        <div className="flex gap-4 text-sm">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            ◀ Previous
+          </button>
+          <span>
+            Page {page} of {data.totalPages}
+          </span>
+          <button
+            type="button"
+            disabled={page >= data.totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            Next ▶
+          </button>
+        </div>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
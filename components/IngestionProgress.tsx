@@ -0,0 +1,79 @@
+"use client";
+
+import type { IngestionJob, IngestionJobStatus } from "@/lib/ingest/jobs";
+
+const POLL_INTERVAL_MS = 1000;
+
+/** How long a job can go without progress before the client gives up on it. */
+const STALLED_JOB_MS = 5 * 60 * 1000;
+
+const STATUS_LABELS: Record<IngestionJobStatus, string> = {
+  queued: "Queued",
+  splitting: "Loading and splitting documents",
+  embedding: "Embedding chunks",
+  done: "Done",
+  failed: "Failed",
+};
+
+/**
+ * Polls a job's status endpoint until it is done or failed, passing each
+ * update to `onUpdate`. A job that reports no progress for `STALLED_JOB_MS`
+ * is cancelled, which marks it failed.
+ */
+export async function waitForIngestionJob(
+  jobId: string,
+  onUpdate: (job: IngestionJob) => void,
+) {
+  let lastUpdate = "";
+  let deadline = Date.now() + STALLED_JOB_MS;
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    const stalled = Date.now() > deadline;
+    const response = await fetch(
+      `/api/retrieval/ingest/${jobId}`,
+      stalled
+        ? {
+            method: "DELETE",
+            body: JSON.stringify({
+              error: "The ingestion job stopped making progress.",
+            }),
+          }
+        : undefined,
+    );
+    const json = await response.json();
+    if (!response.ok) {
+      throw new Error(json.error);
+    }
+    const job = json.job as IngestionJob;
+    onUpdate(job);
+    if (stalled || job.status === "done" || job.status === "failed") {
+      return job;
+    }
+    if (job.updated_at !== lastUpdate) {
+      lastUpdate = job.updated_at;
+      deadline = Date.now() + STALLED_JOB_MS;
+    }
+  }
+}
+
+export function IngestionProgress(props: { job: IngestionJob }) {
+  const { status, processed_chunks, total_chunks } = props.job;
+  const percent =
+    status === "done"
+      ? 100
+      : total_chunks
+        ? Math.round((processed_chunks / total_chunks) * 100)
+        : 0;
+  return (
+    <div className="mt-2 text-sm">
+      {STATUS_LABELS[status]}
+      {total_chunks ? ` · ${processed_chunks} of ${total_chunks} chunks` : ""}
+      <div className="h-2 mt-1 rounded bg-slate-600 overflow-hidden">
+        <div
+          className="h-full bg-sky-600 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,133 @@
 import type { Message } from "ai/react";
 import { useState } from "react";
 
-export function IntermediateStep(props: { message: Message }) {
-  const parsedInput = JSON.parse(props.message.content);
-  const action = parsedInput.action;
-  const observation = parsedInput.observation;
+import {
+  type IntermediateStepContent,
+  type ToolDecision,
+  parseIntermediateStep,
+} from "@/lib/agents/steps";
+
+const APPROVAL_LABELS: Record<
+  NonNullable<IntermediateStepContent["approval"]>,
+  string
+> = {
+  pending: " ⏸️",
+  approve: " ✅",
+  edit: " ✏️",
+  reject: " 🚫",
+};
+
+/**
+ * Approve/Edit/Reject buttons for a call awaiting approval. Editing lets the
+ * user change the call's arguments as JSON before approving it.
+ */
+function ApprovalButtons(props: {
+  id: string;
+  args: Record<string, any>;
+  onDecision: (decision: ToolDecision) => void;
+}) {
+  const [editedArgs, setEditedArgs] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  function saveEdit() {
+    try {
+      const args = JSON.parse(editedArgs ?? "");
+      if (typeof args !== "object" || args === null || Array.isArray(args)) {
+        throw new Error("Arguments must be a JSON object");
+      }
+      props.onDecision({ id: props.id, decision: "edit", args });
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }
+
+  return (
+    <div className="flex flex-col mt-2 text-sm">
+      <span className="text-right">
+        This call is waiting for your approval.
+      </span>
+      {editedArgs !== undefined ? (
+        <>
+          <textarea
+            className="mt-2 p-2 rounded text-black font-mono"
+            rows={4}
+            value={editedArgs}
+            onChange={(e) => setEditedArgs(e.target.value)}
+          />
+          {error ? <span className="mt-1">{error}</span> : ""}
+        </>
+      ) : (
+        ""
+      )}
+      <div className="flex justify-end gap-2 mt-2">
+        {editedArgs !== undefined ? (
+          <>
+            <button
+              type="button"
+              className="px-4 py-1 bg-sky-600 rounded"
+              onClick={saveEdit}
+            >
+              Run with edits
+            </button>
+            <button
+              type="button"
+              className="px-4 py-1 bg-slate-600 rounded"
+              onClick={() => {
+                setEditedArgs(undefined);
+                setError(undefined);
+              }}
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              className="px-4 py-1 bg-sky-600 rounded"
+              onClick={() =>
+                props.onDecision({ id: props.id, decision: "approve" })
+              }
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              className="px-4 py-1 bg-slate-600 rounded"
+              onClick={() => setEditedArgs(JSON.stringify(props.args, null, 2))}
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              className="px-4 py-1 bg-red-600 rounded"
+              onClick={() =>
+                props.onDecision({ id: props.id, decision: "reject" })
+              }
+            >
+              Reject
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function IntermediateStep(props: {
+  message: Message;
+  /** Set when shown inside an `IntermediateStepGroup`. */
+  grouped?: boolean;
+  /** Set while the call waits for the user's approval. */
+  onDecision?: (decision: ToolDecision) => void;
+}) {
+  const { action, observation, approval } = parseIntermediateStep(
+    props.message,
+  );
   const [expanded, setExpanded] = useState(false);
   return (
     <div
-      className={
-        "ml-auto bg-green-600 rounded px-4 py-2 max-w-[80%] mb-8 whitespace-pre-wrap flex flex-col cursor-pointer"
-      }
+      className={`${props.grouped ? "w-full mt-2" : "ml-auto max-w-[80%] mb-8"} bg-green-600 rounded px-4 py-2 whitespace-pre-wrap flex flex-col cursor-pointer`}
     >
       <div
         className={`text-right ${expanded ? "w-full" : ""}`}
@@ -18,6 +135,8 @@ export function IntermediateStep(props: { message: Message }) {
       >
         <code className="mr-2 bg-slate-600 px-2 py-1 rounded hover:text-blue-600">
           🛠️ <b>{action.name}</b>
+          {approval ? APPROVAL_LABELS[approval] : ""}
+          {observation === undefined && approval !== "pending" ? " ⏳" : ""}
         </code>
         <span className={expanded ? "hidden" : ""}>🔽</span>
         <span className={expanded ? "" : "hidden"}>🔼</span>
@@ -43,10 +162,46 @@ export function IntermediateStep(props: { message: Message }) {
           <code
             className={`opacity-0 max-h-[260px] overflow-auto transition ease-in-out delay-150 ${expanded ? "opacity-100" : ""}`}
           >
-            {observation}
+            {observation ??
+              (approval === "pending"
+                ? "Waiting for approval..."
+                : "Running...")}
           </code>
         </div>
       </div>
+      {approval === "pending" && props.onDecision ? (
+        <ApprovalButtons
+          id={action.id ?? props.message.id}
+          args={action.args}
+          onDecision={props.onDecision}
+        />
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
+
+/**
+ * The tool calls an agent made in one turn, which ran in parallel.
+ */
+export function IntermediateStepGroup(props: {
+  messages: Message[];
+  onDecision?: (decision: ToolDecision) => void;
+}) {
+  return (
+    <div className="ml-auto max-w-[80%] mb-8 flex flex-col items-end border border-green-600 rounded px-2 pb-2">
+      <span className="mt-2 text-xs">
+        ⚡ {props.messages.length} tool calls in parallel
+      </span>
+      {props.messages.map((message) => (
+        <IntermediateStep
+          key={message.id}
+          message={message}
+          grouped
+          onDecision={props.onDecision}
+        />
+      ))}
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { type FormEvent, useState } from "react";
+import { toast } from "react-toastify";
+
+import type {
+  MessageFeedback as Feedback,
+  FeedbackRating,
+} from "@/lib/feedback";
+import { trpc } from "@/trpc/client";
+
+/**
+ * Thumbs up/down under an answer. A rating is saved as soon as it is
+ * clicked, after which the user can add a comment explaining it.
+ */
+export function MessageFeedback(props: {
+  messageId: string;
+  value?: Pick<Feedback, "rating" | "comment">;
+}) {
+  const utils = trpc.useUtils();
+  const [rating, setRating] = useState<FeedbackRating | undefined>(
+    props.value?.rating,
+  );
+  const [comment, setComment] = useState(props.value?.comment ?? "");
+  const [showComment, setShowComment] = useState(false);
+
+  const submit = trpc.feedback.submit.useMutation({
+    onSuccess: (feedback) => {
+      utils.feedback.forConversation.invalidate({
+        conversationId: feedback.conversation_id,
+      });
+    },
+    onError: (e) => {
+      toast(`Couldn't save your feedback: ${e.message}`, { theme: "dark" });
+    },
+  });
+
+  function rate(value: FeedbackRating) {
+    setRating(value);
+    setShowComment(true);
+    submit.mutate({ messageId: props.messageId, rating: value, comment });
+  }
+
+  function saveComment(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!rating) {
+      return;
+    }
+    submit.mutate({ messageId: props.messageId, rating, comment });
+    setShowComment(false);
+  }
+
+  const buttonClassName = (value: FeedbackRating) =>
+    `px-1 rounded ${rating === value ? "bg-slate-600" : "opacity-50 hover:opacity-100"}`;
+
+  return (
+    <div className="mt-2 flex flex-col gap-1 text-xs">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          title="Good answer"
+          className={buttonClassName("up")}
+          disabled={submit.isPending}
+          onClick={() => rate("up")}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          title="Bad answer"
+          className={buttonClassName("down")}
+          disabled={submit.isPending}
+          onClick={() => rate("down")}
+        >
+          👎
+        </button>
+        {rating && !showComment ? (
+          <button
+            type="button"
+            className="underline"
+            onClick={() => setShowComment(true)}
+          >
+            {comment ? "Edit comment" : "Add a comment"}
+          </button>
+        ) : (
+          ""
+        )}
+      </div>
+      {showComment ? (
+        <form onSubmit={saveComment} className="flex gap-1">
+          <input
+            className="grow p-1 rounded border"
+            placeholder={
+              rating === "down"
+                ? "What was wrong with this answer? (optional)"
+                : "What was good about this answer? (optional)"
+            }
+            maxLength={2000}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={submit.isPending}
+            className="px-2 py-1 bg-sky-600 rounded text-white"
+          >
+            Save
+          </button>
+        </form>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
@@ -36,6 +36,42 @@ export function Navbar() {
       >
         🤖 Retrieval Agents
       </a>
+      <a
+        className={`mr-4 ${pathname === "/writer" ? "text-white border-b" : ""}`}
+        href="/writer"
+      >
+        ✍️ Writer
+      </a>
+      <a
+        className={`mr-4 ${pathname === "/library" ? "text-white border-b" : ""}`}
+        href="/library"
+      >
+        📚 Library
+      </a>
+      <a
+        className={`mr-4 ${pathname === "/personas" ? "text-white border-b" : ""}`}
+        href="/personas"
+      >
+        🎭 Personas
+      </a>
+      <a
+        className={`mr-4 ${pathname === "/prompts" ? "text-white border-b" : ""}`}
+        href="/prompts"
+      >
+        🧪 Prompts
+      </a>
+      <a
+        className={`mr-4 ${pathname === "/feedback" ? "text-white border-b" : ""}`}
+        href="/feedback"
+      >
+        💬 Feedback
+      </a>
+      <a
+        className={`mr-4 ${pathname === "/usage" ? "text-white border-b" : ""}`}
+        href="/usage"
+      >
+        📈 Usage
+      </a>
       <a
         className={`mr-4 ${pathname === "/ai_sdk" ? "text-white border-b" : ""}`}
         href="/ai_sdk"
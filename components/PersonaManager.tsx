@@ -0,0 +1,260 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+
+import {
+  PERSONA_TOOLS,
+  type Persona,
+  type PersonaSettings,
+  type PersonaTool,
+} from "@/lib/personas/defaults";
+import { trpc } from "@/trpc/client";
+
+const NEW_PERSONA: PersonaSettings = {
+  name: "",
+  emoji: "💬",
+  system_prompt: "",
+  temperature: null,
+  allowed_tools: null,
+};
+
+const describeTools = (persona: PersonaSettings) =>
+  persona.allowed_tools === null
+    ? "all tools"
+    : persona.allowed_tools.length
+      ? persona.allowed_tools.map((tool) => PERSONA_TOOLS[tool]).join(", ")
+      : "no tools";
+
+function PersonaForm(props: {
+  initialValue: PersonaSettings;
+  submitLabel: string;
+  isLoading: boolean;
+  onSubmit: (settings: PersonaSettings) => void;
+  onCancel: () => void;
+}) {
+  const [settings, setSettings] = useState(props.initialValue);
+  // Kept as typed so the field can be cleared to use the model's default
+  const [temperature, setTemperature] = useState(
+    props.initialValue.temperature?.toString() ?? "",
+  );
+
+  function toggleTool(tool: PersonaTool) {
+    const allowed = settings.allowed_tools ?? [];
+    setSettings({
+      ...settings,
+      allowed_tools: allowed.includes(tool)
+        ? allowed.filter((allowedTool) => allowedTool !== tool)
+        : [...allowed, tool],
+    });
+  }
+
+  function submit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    props.onSubmit({
+      ...settings,
+      temperature: temperature.trim() === "" ? null : Number(temperature),
+    });
+  }
+
+  return (
+    <form onSubmit={submit} className="flex flex-col gap-2 p-4 text-sm">
+      <div className="flex flex-wrap gap-2">
+        <input
+          className="w-16 p-1 rounded text-black"
+          aria-label="Emoji"
+          value={settings.emoji}
+          onChange={(e) => setSettings({ ...settings, emoji: e.target.value })}
+        />
+        <input
+          className="grow p-1 rounded text-black"
+          placeholder="Name, e.g. Acme brand voice"
+          value={settings.name}
+          onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+        />
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          className="w-40 p-1 rounded text-black"
+          placeholder="Default temperature"
+          value={temperature}
+          onChange={(e) => setTemperature(e.target.value)}
+        />
+      </div>
+      <textarea
+        className="p-2 rounded text-black"
+        rows={6}
+        placeholder="System prompt, e.g. You write for Acme. Be concise and friendly..."
+        value={settings.system_prompt}
+        onChange={(e) =>
+          setSettings({ ...settings, system_prompt: e.target.value })
+        }
+      />
+      <div className="flex flex-wrap items-center gap-4">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.allowed_tools === null}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                allowed_tools: e.target.checked ? null : [],
+              })
+            }
+          />{" "}
+          Allow every tool
+        </label>
+        {settings.allowed_tools !== null
+          ? Object.entries(PERSONA_TOOLS).map(([tool, label]) => (
+              <label key={tool}>
+                <input
+                  type="checkbox"
+                  checked={settings.allowed_tools?.includes(
+                    tool as PersonaTool,
+                  )}
+                  onChange={() => toggleTool(tool as PersonaTool)}
+                />{" "}
+                {label}
+              </label>
+            ))
+          : ""}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={props.isLoading}
+          className="px-2 py-1 bg-sky-600 rounded"
+        >
+          {props.isLoading ? "Saving..." : props.submitLabel}
+        </button>
+        <button
+          type="button"
+          className="px-2 py-1 rounded bg-slate-600"
+          onClick={props.onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Lists, creates and edits the personas of the caller's workspace, which can
+ * then be picked for each conversation.
+ */
+export function PersonaManager() {
+  const utils = trpc.useUtils();
+  const { data: personas, isLoading } = trpc.personas.list.useQuery();
+  // The persona being edited, or `new` while creating one
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const onError = (e: { message: string }) => {
+    toast(e.message, { theme: "dark" });
+  };
+  const onSuccess = () => {
+    utils.personas.list.invalidate();
+    setEditingId(null);
+  };
+  const create = trpc.personas.create.useMutation({ onSuccess, onError });
+  const update = trpc.personas.update.useMutation({ onSuccess, onError });
+  const remove = trpc.personas.delete.useMutation({
+    onSuccess: () => utils.personas.list.invalidate(),
+    onError,
+  });
+
+  function deletePersona(persona: Persona) {
+    if (
+      window.confirm(
+        `Delete ${persona.name}? Conversations using it go back to their built-in persona.`,
+      )
+    ) {
+      remove.mutate({ id: persona.id });
+    }
+  }
+
+  return (
+    <div className="flex flex-col p-4 md:p-8 rounded grow overflow-auto border">
+      <div className="flex items-center mb-4">
+        <h2 className="grow text-2xl">🎭 Personas</h2>
+        <button
+          type="button"
+          className="px-4 py-2 bg-sky-600 rounded"
+          onClick={() => setEditingId("new")}
+        >
+          ➕ New persona
+        </button>
+      </div>
+      {editingId === "new" ? (
+        <div className="mb-4 rounded bg-[#25252d]">
+          <PersonaForm
+            initialValue={NEW_PERSONA}
+            submitLabel="Create"
+            isLoading={create.isPending}
+            onSubmit={(settings) => create.mutate(settings)}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      ) : (
+        ""
+      )}
+      {isLoading ? <span>Loading...</span> : ""}
+      {personas?.length === 0 && editingId !== "new" ? (
+        <span>
+          No personas yet. Each chat uses its built-in persona until you create
+          one for your workspace.
+        </span>
+      ) : (
+        ""
+      )}
+      {personas?.map((persona) => (
+        <div key={persona.id} className="mb-4 rounded bg-[#25252d]">
+          {editingId === persona.id ? (
+            <PersonaForm
+              initialValue={persona}
+              submitLabel="Save"
+              isLoading={update.isPending}
+              onSubmit={(settings) =>
+                update.mutate({ id: persona.id, ...settings })
+              }
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <div className="flex flex-wrap items-start gap-4 p-4">
+              <div className="grow basis-0">
+                <div className="font-bold">
+                  {persona.emoji} {persona.name}
+                </div>
+                <div className="text-sm">
+                  temperature {persona.temperature ?? "from the model config"} ·{" "}
+                  {describeTools(persona)}
+                </div>
+                <div className="mt-2 text-sm whitespace-pre-wrap line-clamp-3">
+                  {persona.system_prompt}
+                </div>
+              </div>
+              <button
+                type="button"
+                className="px-2 py-1 rounded bg-slate-600 text-sm"
+                onClick={() => setEditingId(persona.id)}
+              >
+                ✏️ Edit
+              </button>
+              <button
+                type="button"
+                className="px-2 py-1 rounded bg-red-700 text-sm"
+                onClick={() => deletePersona(persona)}
+              >
+                🗑️ Delete
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      <ToastContainer />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import {
+  DEFAULT_PERSONAS,
+  type PersonaEndpoint,
+} from "@/lib/personas/defaults";
+import { trpc } from "@/trpc/client";
+
+/**
+ * Picks one of the workspace's personas, or the endpoint's built-in one
+ * (`undefined`).
+ */
+export function PersonaSelect(props: {
+  endpoint: PersonaEndpoint;
+  value?: string;
+  onChange: (personaId: string | undefined) => void;
+}) {
+  const { endpoint, value, onChange } = props;
+  const { data: personas } = trpc.personas.list.useQuery();
+  const builtIn = DEFAULT_PERSONAS[endpoint];
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <select
+        className="p-1 rounded text-black max-w-64"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+      >
+        <option value="">
+          {builtIn.emoji} {builtIn.name} (built-in)
+        </option>
+        {personas?.map((persona) => (
+          <option key={persona.id} value={persona.id}>
+            {persona.emoji} {persona.name}
+          </option>
+        ))}
+      </select>
+      <a href="/personas" title="Manage personas">
+        ✏️
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+
+import type {
+  PromptDefinition,
+  PromptDeployment,
+  PromptKey,
+  PromptVersion,
+} from "@/lib/prompts/defaults";
+import { trpc } from "@/trpc/client";
+import type { PromptVersionStats } from "@/trpc/routers/prompts";
+
+type PromptWithVersions = PromptDefinition & {
+  key: PromptKey;
+  versions: PromptVersion[];
+  deployment: PromptDeployment | null;
+};
+
+const formatLatency = (ms: number | null | undefined) =>
+  ms === null || ms === undefined ? "–" : `${(ms / 1000).toFixed(1)}s`;
+
+function DeploymentForm(props: {
+  prompt: PromptWithVersions;
+  isLoading: boolean;
+  onSubmit: (deployment: {
+    versionId: string | null;
+    candidateVersionId: string | null;
+    candidateTraffic: number;
+  }) => void;
+}) {
+  const { prompt } = props;
+  const [versionId, setVersionId] = useState(
+    prompt.deployment?.version_id ?? "",
+  );
+  const [candidateVersionId, setCandidateVersionId] = useState(
+    prompt.deployment?.candidate_version_id ?? "",
+  );
+  const [candidateTraffic, setCandidateTraffic] = useState(
+    prompt.deployment?.candidate_traffic ?? 50,
+  );
+
+  function submit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    props.onSubmit({
+      versionId: versionId || null,
+      candidateVersionId: candidateVersionId || null,
+      candidateTraffic,
+    });
+  }
+
+  const versionOptions = prompt.versions.map((version) => (
+    <option key={version.id} value={version.id}>
+      v{version.version}
+      {version.note ? ` · ${version.note}` : ""}
+    </option>
+  ));
+
+  return (
+    <form
+      onSubmit={submit}
+      className="flex flex-wrap items-center gap-2 px-4 text-sm"
+    >
+      <label>
+        Serve{" "}
+        <select
+          className="p-1 rounded text-black"
+          value={versionId}
+          onChange={(e) => setVersionId(e.target.value)}
+        >
+          <option value="">v0 · built-in</option>
+          {versionOptions}
+        </select>
+      </label>
+      <label>
+        A/B test against{" "}
+        <select
+          className="p-1 rounded text-black"
+          value={candidateVersionId}
+          onChange={(e) => setCandidateVersionId(e.target.value)}
+        >
+          <option value="">nothing</option>
+          {versionOptions}
+        </select>
+      </label>
+      {candidateVersionId ? (
+        <label>
+          with{" "}
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className="w-16 p-1 rounded text-black"
+            value={candidateTraffic}
+            onChange={(e) => setCandidateTraffic(Number(e.target.value))}
+          />
+          % of conversations
+        </label>
+      ) : (
+        ""
+      )}
+      <button
+        type="submit"
+        disabled={props.isLoading}
+        className="px-2 py-1 bg-sky-600 rounded"
+      >
+        {props.isLoading ? "Deploying..." : "Deploy"}
+      </button>
+    </form>
+  );
+}
+
+function NewVersionForm(props: {
+  initialTemplate: string;
+  isLoading: boolean;
+  onSubmit: (version: { template: string; note: string }) => void;
+}) {
+  const [template, setTemplate] = useState(props.initialTemplate);
+  const [note, setNote] = useState("");
+
+  function submit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    props.onSubmit({ template, note });
+  }
+
+  return (
+    <form onSubmit={submit} className="flex flex-col gap-2 p-4 text-sm">
+      <textarea
+        className="p-2 rounded text-black font-mono"
+        rows={10}
+        value={template}
+        onChange={(e) => setTemplate(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <input
+          className="grow p-1 rounded text-black"
+          placeholder="What changed? (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={props.isLoading}
+          className="px-2 py-1 bg-sky-600 rounded"
+        >
+          {props.isLoading ? "Saving..." : "Save version"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function PromptCard(props: {
+  prompt: PromptWithVersions;
+  stats: PromptVersionStats[];
+}) {
+  const { prompt, stats } = props;
+  const utils = trpc.useUtils();
+  const [showNewVersion, setShowNewVersion] = useState(false);
+  const [shownVersion, setShownVersion] = useState<number | null>(null);
+
+  const onError = (e: { message: string }) => {
+    toast(e.message, { theme: "dark" });
+  };
+  const createVersion = trpc.prompts.createVersion.useMutation({
+    onSuccess: (version) => {
+      utils.prompts.list.invalidate();
+      setShowNewVersion(false);
+      toast(`Saved v${version.version}. Deploy it to start serving it.`, {
+        theme: "dark",
+      });
+    },
+    onError,
+  });
+  const deploy = trpc.prompts.deploy.useMutation({
+    onSuccess: () => utils.prompts.list.invalidate(),
+    onError,
+  });
+
+  const { deployment } = prompt;
+  const versions = [
+    ...prompt.versions,
+    {
+      id: null,
+      version: 0,
+      template: prompt.template,
+      note: "built-in",
+      created_at: null,
+    },
+  ];
+  const servedTemplate =
+    prompt.versions.find((version) => version.id === deployment?.version_id)
+      ?.template ?? prompt.template;
+
+  return (
+    <div className="mb-4 rounded bg-[#25252d]">
+      <div className="flex flex-wrap items-center gap-4 p-4">
+        <div className="grow">
+          <div className="font-bold">{prompt.label}</div>
+          <div className="text-sm">
+            <code>{prompt.key}</code> · variables:{" "}
+            {prompt.variables.length
+              ? prompt.variables
+                  .map(
+                    (variable) =>
+                      `{${variable}}${prompt.required.includes(variable) ? "*" : ""}`,
+                  )
+                  .join(" ")
+              : "none"}
+          </div>
+        </div>
+        <button
+          type="button"
+          className="px-2 py-1 rounded bg-slate-600 text-sm"
+          onClick={() => setShowNewVersion(!showNewVersion)}
+        >
+          {showNewVersion ? "Cancel" : "➕ New version"}
+        </button>
+      </div>
+      {showNewVersion ? (
+        <NewVersionForm
+          initialTemplate={servedTemplate}
+          isLoading={createVersion.isPending}
+          onSubmit={(version) =>
+            createVersion.mutate({ key: prompt.key, ...version })
+          }
+        />
+      ) : (
+        ""
+      )}
+      <DeploymentForm
+        key={deployment?.updated_at}
+        prompt={prompt}
+        isLoading={deploy.isPending}
+        onSubmit={(changes) => deploy.mutate({ key: prompt.key, ...changes })}
+      />
+      <table className="m-4 text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="pr-4">Version</th>
+            <th className="pr-4">Status</th>
+            <th className="pr-4">Answers</th>
+            <th className="pr-4">p50 latency</th>
+            <th className="pr-4">p95 latency</th>
+            <th className="pr-4">👍</th>
+            <th className="pr-4">👎</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {versions.map((version) => {
+            const versionStats = stats.find(
+              (stat) => stat.version === version.version,
+            );
+            const status =
+              version.id === (deployment?.version_id ?? null)
+                ? "serving"
+                : version.id && version.id === deployment?.candidate_version_id
+                  ? `candidate · ${deployment.candidate_traffic}%`
+                  : "";
+            return (
+              <tr key={version.version} className="align-top">
+                <td className="pr-4">
+                  v{version.version}
+                  {version.note ? ` · ${version.note}` : ""}
+                  {version.created_at ? (
+                    <div className="text-xs">
+                      {new Date(version.created_at).toLocaleString()}
+                    </div>
+                  ) : (
+                    ""
+                  )}
+                  {shownVersion === version.version ? (
+                    <pre className="mt-2 p-2 rounded bg-slate-600 text-xs whitespace-pre-wrap">
+                      {version.template}
+                    </pre>
+                  ) : (
+                    ""
+                  )}
+                </td>
+                <td className="pr-4">{status}</td>
+                <td className="pr-4">{versionStats?.runs ?? 0}</td>
+                <td className="pr-4">
+                  {formatLatency(versionStats?.p50LatencyMs)}
+                </td>
+                <td className="pr-4">
+                  {formatLatency(versionStats?.p95LatencyMs)}
+                </td>
+                <td className="pr-4">{versionStats?.up ?? 0}</td>
+                <td className="pr-4">{versionStats?.down ?? 0}</td>
+                <td>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setShownVersion(
+                        shownVersion === version.version
+                          ? null
+                          : version.version,
+                      )
+                    }
+                  >
+                    {shownVersion === version.version ? "🔼" : "🔽"}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Lists the versioned prompts of the caller's workspace, with the answers
+ * and latency of each version so A/B tests can be compared.
+ */
+export function PromptManager() {
+  const { data: prompts, isLoading } = trpc.prompts.list.useQuery();
+  const { data: stats } = trpc.prompts.stats.useQuery();
+
+  return (
+    <div className="flex flex-col p-4 md:p-8 rounded grow overflow-auto border">
+      <h2 className="text-2xl mb-4">🧪 Prompts</h2>
+      {isLoading ? <span>Loading...</span> : ""}
+      {prompts?.map((prompt) => (
+        <PromptCard
+          key={prompt.key}
+          prompt={prompt}
+          stats={(stats ?? []).filter((stat) => stat.key === prompt.key)}
+        />
+      ))}
+      <ToastContainer />
+    </div>
+  );
+}
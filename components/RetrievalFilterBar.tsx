@@ -0,0 +1,115 @@
+"use client";
+
+import {
+  type RetrievalFilters,
+  SOURCE_STATUSES,
+  type SourceStatus,
+} from "@/lib/retrieval/options";
+import { trpc } from "@/trpc/client";
+
+const chipClassName = (selected: boolean) =>
+  `px-2 py-1 rounded-full text-xs ${selected ? "bg-sky-600" : "bg-slate-600"}`;
+
+/**
+ * Chips and inputs for narrowing retrieval down to tagged, published or
+ * specific documents, or to documents uploaded in a date range. Tags and
+ * documents are listed from the caller's workspace.
+ */
+export function RetrievalFilterBar(props: {
+  value: RetrievalFilters;
+  onChange: (value: RetrievalFilters) => void;
+}) {
+  const { value, onChange } = props;
+  const { data: tags } = trpc.documents.tags.useQuery();
+  const { data: sources } = trpc.documents.list.useQuery();
+
+  function toggleTag(tag: string) {
+    const selected = value.tags ?? [];
+    const next = selected.includes(tag)
+      ? selected.filter((selectedTag) => selectedTag !== tag)
+      : [...selected, tag];
+    onChange({ ...value, tags: next.length ? next : undefined });
+  }
+
+  const hasFilters = Object.values(value).some((filter) => filter?.length);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 w-full text-sm">
+      <span>Filters:</span>
+      {tags?.map((tag) => (
+        <button
+          key={tag}
+          type="button"
+          className={chipClassName(!!value.tags?.includes(tag))}
+          onClick={() => toggleTag(tag)}
+        >
+          #{tag}
+        </button>
+      ))}
+      <select
+        className="p-1 rounded text-black"
+        value={value.status ?? ""}
+        onChange={(e) =>
+          onChange({
+            ...value,
+            status: (e.target.value || undefined) as SourceStatus | undefined,
+          })
+        }
+      >
+        <option value="">Any status</option>
+        {SOURCE_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {status}
+          </option>
+        ))}
+      </select>
+      <select
+        className="p-1 rounded text-black max-w-48"
+        value={value.sourceId ?? ""}
+        onChange={(e) =>
+          onChange({ ...value, sourceId: e.target.value || undefined })
+        }
+      >
+        <option value="">All documents</option>
+        {sources?.map((source) => (
+          <option key={source.id} value={source.id}>
+            {source.name}
+          </option>
+        ))}
+      </select>
+      <label>
+        From{" "}
+        <input
+          type="date"
+          className="p-1 rounded text-black"
+          value={value.from ?? ""}
+          onChange={(e) =>
+            onChange({ ...value, from: e.target.value || undefined })
+          }
+        />
+      </label>
+      <label>
+        to{" "}
+        <input
+          type="date"
+          className="p-1 rounded text-black"
+          value={value.to ?? ""}
+          onChange={(e) =>
+            onChange({ ...value, to: e.target.value || undefined })
+          }
+        />
+      </label>
+      {hasFilters ? (
+        <button
+          type="button"
+          className={chipClassName(false)}
+          onClick={() => onChange({})}
+        >
+          ✕ Clear
+        </button>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
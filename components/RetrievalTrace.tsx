@@ -0,0 +1,130 @@
+import type { Message } from "ai/react";
+import { useState } from "react";
+
+import { getAnnotation } from "@/lib/retrieval/annotations";
+
+const STEP_LABELS = {
+  condense: "Rewrite question",
+  retrieve: "Retrieve chunks",
+  rerank: "Rerank",
+  generate: "Generate answer",
+};
+
+/**
+ * A collapsible panel under a retrieval answer showing what was actually
+ * searched for, which chunks came back and how long each step took. It is
+ * built from the annotations the retrieval route streams, and renders
+ * nothing for messages without them.
+ */
+export function RetrievalTrace(props: { message: Message }) {
+  const [expanded, setExpanded] = useState(false);
+  const question = getAnnotation(props.message, "standalone_question");
+  const sources = getAnnotation(props.message, "sources")?.sources ?? [];
+  const prompt = getAnnotation(props.message, "prompt")?.prompt;
+  const timings = getAnnotation(props.message, "timings")?.timings ?? [];
+  const usage = getAnnotation(props.message, "usage")?.usage;
+
+  if (!question && !timings.length) {
+    return null;
+  }
+  const totalMs = Math.max(
+    1,
+    ...timings.map((timing) => timing.startedAt + timing.durationMs),
+  );
+
+  return (
+    <div className="mt-4 flex flex-col text-xs">
+      <button
+        type="button"
+        className="mr-auto bg-slate-600 px-2 py-1 rounded text-white hover:text-blue-300"
+        onClick={() => setExpanded(!expanded)}
+      >
+        🧭 <b>Retrieval trace</b> {expanded ? "🔼" : "🔽"}
+      </button>
+      {expanded ? (
+        <div className="mt-1 flex flex-col gap-3 bg-slate-600 text-white rounded p-4">
+          <div>
+            <b>Searched for:</b>
+            <br />
+            {question ? (
+              <code>&quot;{question.question}&quot;</code>
+            ) : (
+              "Rewriting question..."
+            )}
+          </div>
+          <div>
+            <b>Retrieved {sources.length} chunks:</b>
+            <table className="mt-1 w-full text-left">
+              <tbody>
+                {sources.map((source, i) => (
+                  <tr key={`trace:source:${i}`} className="align-top">
+                    <td className="pr-2">[{i + 1}]</td>
+                    <td className="pr-2">{source.pageContent}</td>
+                    <td className="pr-2 whitespace-nowrap">
+                      {source.score !== undefined
+                        ? source.score.toFixed(4)
+                        : "–"}
+                    </td>
+                    <td className="pr-2 whitespace-nowrap">
+                      {source.rankers?.join(" + ")}
+                    </td>
+                    <td className="whitespace-nowrap">
+                      {source.rerankScore !== undefined
+                        ? `rerank ${source.rerankScore}/10`
+                        : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {prompt ? (
+            <div>
+              <b>Final prompt:</b> {prompt.characters.toLocaleString()}{" "}
+              characters
+              {prompt.tokens !== undefined
+                ? ` · ${prompt.tokens.toLocaleString()} tokens`
+                : ""}
+              {usage
+                ? ` (${usage.totalTokens.toLocaleString()} tokens used in total)`
+                : ""}
+            </div>
+          ) : (
+            ""
+          )}
+          {timings.length ? (
+            <div>
+              <b>Latency:</b>
+              {timings.map((timing, i) => (
+                <div
+                  key={`trace:timing:${i}`}
+                  className="mt-1 flex items-center gap-2"
+                >
+                  <span className="w-28 shrink-0">
+                    {STEP_LABELS[timing.step]}
+                  </span>
+                  <span className="relative h-2 grow">
+                    <span
+                      className="absolute h-2 rounded bg-sky-400"
+                      style={{
+                        left: `${(timing.startedAt / totalMs) * 100}%`,
+                        width: `${Math.max(1, (timing.durationMs / totalMs) * 100)}%`,
+                      }}
+                    />
+                  </span>
+                  <span className="w-16 shrink-0 text-right">
+                    {timing.durationMs} ms
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            ""
+          )}
+        </div>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  SPLITTER_LANGUAGES,
+  SPLITTER_STRATEGIES,
+  type SplitterConfig,
+  type SplitterStrategy,
+} from "@/lib/ingest/splitterConfig";
+
+/**
+ * Inputs for choosing a splitter strategy and its chunk size and overlap.
+ * Used by the upload form and when re-ingesting from the library.
+ */
+export function SplitterConfigFields(props: {
+  value: SplitterConfig;
+  onChange: (value: SplitterConfig) => void;
+}) {
+  const { value, onChange } = props;
+  const unit = value.strategy === "token" ? "tokens" : "chars";
+
+  function changeStrategy(strategy: SplitterStrategy) {
+    const { chunkSize, chunkOverlap } = value;
+    onChange(
+      strategy === "recursive"
+        ? { strategy, language: "markdown", chunkSize, chunkOverlap }
+        : { strategy, chunkSize, chunkOverlap },
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        className="p-1 rounded text-black"
+        value={value.strategy}
+        onChange={(e) => changeStrategy(e.target.value as SplitterStrategy)}
+      >
+        {Object.entries(SPLITTER_STRATEGIES).map(([strategy, label]) => (
+          <option key={strategy} value={strategy}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {value.strategy === "recursive" ? (
+        <select
+          className="p-1 rounded text-black"
+          value={value.language ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              language: (e.target.value ||
+                undefined) as (typeof SPLITTER_LANGUAGES)[number],
+            })
+          }
+        >
+          <option value="">plain text</option>
+          {SPLITTER_LANGUAGES.map((language) => (
+            <option key={language} value={language}>
+              {language}
+            </option>
+          ))}
+        </select>
+      ) : (
+        ""
+      )}
+      <label>
+        Chunk size{" "}
+        <input
+          type="number"
+          className="w-20 p-1 rounded text-black"
+          value={value.chunkSize}
+          onChange={(e) =>
+            onChange({ ...value, chunkSize: Number(e.target.value) })
+          }
+        />{" "}
+        {unit}
+      </label>
+      <label>
+        Overlap{" "}
+        <input
+          type="number"
+          className="w-16 p-1 rounded text-black"
+          value={value.chunkOverlap}
+          onChange={(e) =>
+            onChange({ ...value, chunkOverlap: Number(e.target.value) })
+          }
+        />
+      </label>
+    </div>
+  );
+}
@@ -1,37 +1,102 @@
 "use client";
 
+import {
+  IngestionProgress,
+  waitForIngestionJob,
+} from "@/components/IngestionProgress";
+import { SplitterConfigFields } from "@/components/SplitterConfigFields";
 import DEFAULT_RETRIEVAL_TEXT from "@/data/DefaultRetrievalText";
-import { type FormEvent, useState } from "react";
+import { ACCEPTED_FILE_EXTENSIONS } from "@/lib/ingest/fileTypes";
+import type { IngestionJob } from "@/lib/ingest/jobs";
+import { DEFAULT_SPLITTER_CONFIG } from "@/lib/ingest/splitterConfig";
+import { type FormEvent, useRef, useState } from "react";
 
 export function UploadDocumentsForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [document, setDocument] = useState(DEFAULT_RETRIEVAL_TEXT);
+  const [name, setName] = useState("");
+  const [splitterConfig, setSplitterConfig] = useState(DEFAULT_SPLITTER_CONFIG);
+  const [files, setFiles] = useState<File[]>([]);
+  const [job, setJob] = useState<IngestionJob | null>(null);
+  const [outcome, setOutcome] = useState("");
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
   const ingest = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
-    const response = await fetch("/api/retrieval/ingest", {
-      method: "POST",
-      body: JSON.stringify({
-        text: document,
-      }),
-    });
-    if (response.status === 200) {
-      setDocument("Uploaded!");
-    } else {
+    setOutcome("");
+    const formData = new FormData();
+    formData.append("splitterConfig", JSON.stringify(splitterConfig));
+    // Selected files take the place of the pasted text
+    for (const file of files) {
+      formData.append("files", file);
+    }
+    if (!files.length) {
+      formData.append("text", document);
+      formData.append("name", name);
+    }
+    try {
+      const response = await fetch("/api/retrieval/ingest", {
+        method: "POST",
+        body: formData,
+      });
       const json = await response.json();
-      if (json.error) {
-        setDocument(json.error);
+      if (response.status !== 202) {
+        throw new Error(json.error);
       }
+      setJob(json.job);
+      const { status, error, result } = await waitForIngestionJob(
+        json.job.id,
+        setJob,
+      );
+      if (status === "failed" || !result) {
+        throw new Error(error ?? "Ingestion failed.");
+      }
+      setOutcome(
+        `Uploaded! ${result.added} chunks added, ${result.unchanged} unchanged, ${result.removed} removed. Manage them from the library page.`,
+      );
+      setFiles([]);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    } catch (e: any) {
+      // The pasted text is kept so it can be uploaded again
+      setOutcome(`Upload failed: ${e.message}`);
     }
+    setJob(null);
     setIsLoading(false);
   };
   return (
     <form onSubmit={ingest} className="flex w-full mb-4">
-      <textarea
-        className="grow mr-8 p-4 rounded"
-        value={document}
-        onChange={(e) => setDocument(e.target.value)}
-      />
+      <div className="grow mr-8 flex flex-col">
+        <input
+          className="mb-2 p-2 rounded"
+          placeholder="Source name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <textarea
+          className="grow p-4 rounded"
+          value={document}
+          onChange={(e) => setDocument(e.target.value)}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILE_EXTENSIONS}
+          className="mt-2 text-sm"
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+        />
+        <div className="mt-2">
+          <SplitterConfigFields
+            value={splitterConfig}
+            onChange={setSplitterConfig}
+          />
+        </div>
+        {job ? <IngestionProgress job={job} /> : ""}
+        {outcome ? <p className="mt-2 text-sm">{outcome}</p> : ""}
+      </div>
       <button
         type="submit"
         className="shrink-0 px-8 py-4 bg-sky-600 rounded w-28"
@@ -0,0 +1,199 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useState } from "react";
+
+import { USAGE_FEATURES, type UsageFeature } from "@/lib/usage/defaults";
+import { trpc } from "@/trpc/client";
+import type { UsageStats } from "@/trpc/routers/usage";
+
+type UsageFilters = {
+  feature?: UsageFeature;
+  from?: string;
+  to?: string;
+};
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const formatLatency = (ms: number | null) =>
+  ms === null ? "–" : `${(ms / 1000).toFixed(1)}s`;
+
+const formatCost = (stats: UsageStats) =>
+  `$${stats.costUsd.toFixed(stats.costUsd < 1 ? 4 : 2)}${stats.unpricedCalls ? "*" : ""}`;
+
+const STATS_COLUMNS = [
+  "Calls",
+  "Prompt tokens",
+  "Completion tokens",
+  "Cost",
+  "p50 latency",
+  "p95 latency",
+];
+
+function StatsCells(props: { stats: UsageStats }) {
+  const { stats } = props;
+  return (
+    <>
+      <td className="pr-4">{stats.calls.toLocaleString()}</td>
+      <td className="pr-4">{stats.promptTokens.toLocaleString()}</td>
+      <td className="pr-4">{stats.completionTokens.toLocaleString()}</td>
+      <td className="pr-4">{formatCost(stats)}</td>
+      <td className="pr-4">{formatLatency(stats.p50LatencyMs)}</td>
+      <td className="pr-4">{formatLatency(stats.p95LatencyMs)}</td>
+    </>
+  );
+}
+
+function UsageTable<Row extends UsageStats>(props: {
+  title: string;
+  columns: string[];
+  rows: Row[];
+  rowKey: (row: Row) => string;
+  cells: (row: Row) => string[];
+}) {
+  return (
+    <div className="mb-6 overflow-x-auto">
+      <h3 className="text-lg mb-2">{props.title}</h3>
+      <table className="text-sm">
+        <thead>
+          <tr className="text-left">
+            {[...props.columns, ...STATS_COLUMNS].map((column) => (
+              <th key={column} className="pr-4">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {props.rows.map((row) => (
+            <tr key={props.rowKey(row)}>
+              {props.cells(row).map((cell, i) => (
+                <td key={props.columns[i]} className="pr-4">
+                  {cell}
+                </td>
+              ))}
+              <StatsCells stats={row} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Tokens, estimated cost and p50/p95 latency of the workspace's model calls,
+ * per feature, per model and per user and day.
+ */
+export function UsageDashboard() {
+  const { userId } = useAuth();
+  const [filters, setFilters] = useState<UsageFilters>({ from: daysAgo(7) });
+  const { data, isLoading } = trpc.usage.summary.useQuery(filters);
+
+  const featureLabel = (feature: UsageFeature) =>
+    USAGE_FEATURES[feature] ?? feature;
+
+  return (
+    <div className="flex flex-col p-4 md:p-8 rounded grow overflow-auto border">
+      <h2 className="text-2xl mb-4">📈 Usage</h2>
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        <select
+          className="p-1 rounded text-black"
+          value={filters.feature ?? ""}
+          onChange={(e) =>
+            setFilters({
+              ...filters,
+              feature: (e.target.value || undefined) as
+                | UsageFeature
+                | undefined,
+            })
+          }
+        >
+          <option value="">All features</option>
+          {Object.entries(USAGE_FEATURES).map(([feature, label]) => (
+            <option key={feature} value={feature}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label>
+          From{" "}
+          <input
+            type="date"
+            className="p-1 rounded text-black"
+            value={filters.from ?? ""}
+            onChange={(e) =>
+              setFilters({ ...filters, from: e.target.value || undefined })
+            }
+          />
+        </label>
+        <label>
+          to{" "}
+          <input
+            type="date"
+            className="p-1 rounded text-black"
+            value={filters.to ?? ""}
+            onChange={(e) =>
+              setFilters({ ...filters, to: e.target.value || undefined })
+            }
+          />
+        </label>
+      </div>
+      {isLoading ? <span>Loading...</span> : ""}
+      {data ? (
+        <>
+          <div className="flex flex-wrap gap-4 mb-6">
+            {[
+              ["Model calls", data.total.calls.toLocaleString()],
+              ["Tokens", data.total.totalTokens.toLocaleString()],
+              ["Estimated cost", formatCost(data.total)],
+              ["p50 latency", formatLatency(data.total.p50LatencyMs)],
+              ["p95 latency", formatLatency(data.total.p95LatencyMs)],
+            ].map(([label, value]) => (
+              <div key={label} className="p-4 rounded bg-[#25252d]">
+                <div className="text-sm">{label}</div>
+                <div className="text-2xl">{value}</div>
+              </div>
+            ))}
+          </div>
+          <UsageTable
+            title="By feature"
+            columns={["Feature"]}
+            rows={data.features}
+            rowKey={(row) => row.feature}
+            cells={(row) => [featureLabel(row.feature)]}
+          />
+          <UsageTable
+            title="By model"
+            columns={["Model"]}
+            rows={data.models}
+            rowKey={(row) => row.model}
+            cells={(row) => [row.model]}
+          />
+          <UsageTable
+            title="By user and day"
+            columns={["Day", "User", "Feature"]}
+            rows={data.userDays}
+            rowKey={(row) => `${row.day}:${row.userId}:${row.feature}`}
+            cells={(row) => [
+              row.day,
+              row.userId === userId ? "You" : row.userId,
+              featureLabel(row.feature),
+            ]}
+          />
+          {data.total.unpricedCalls ? (
+            <span className="text-sm">
+              * Leaves out {data.total.unpricedCalls.toLocaleString()} calls to
+              models without a known price.
+            </span>
+          ) : (
+            ""
+          )}
+        </>
+      ) : (
+        ""
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * Runs once when the Next.js server starts. Starts the ingestion worker on
+ * the Node.js runtime, where the ingest route and the local chunk stores
+ * live.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  const { isIngestionWorkerConfigured, startIngestionWorker } = await import(
+    "@/lib/ingest/worker"
+  );
+  if (isIngestionWorkerConfigured()) {
+    startIngestionWorker();
+  }
+}
@@ -0,0 +1,60 @@
+import { Calculator } from "@langchain/community/tools/calculator";
+import { SerpAPI } from "@langchain/community/tools/serpapi";
+import { SystemMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { createReactAgent } from "@langchain/langgraph/prebuilt";
+
+import type { ConversationTurn } from "@/lib/conversations";
+import { getChatModel } from "@/lib/models/registry";
+import { isToolAllowed } from "@/lib/personas/defaults";
+import { requireApproval } from "./approval";
+import { SupabaseSaver } from "./checkpointer";
+
+/**
+ * The prebuilt ReAct agent of the `agents` endpoint, checkpointed on the
+ * conversation's thread: its state carries the whole dialogue, including
+ * tool calls, so each turn only sends the new message. `config` points at
+ * the thread's latest checkpoint.
+ *
+ * Pass a `replyId` when the agent will run, so its checkpoints record the
+ * reply they lead to.
+ */
+export function createChatAgent(
+  turn: Pick<ConversationTurn, "id" | "client" | "persona"> & {
+    replyId?: string;
+  },
+) {
+  // Requires process.env.SERPAPI_API_KEY to be set: https://serpapi.com/
+  // You can remove this or use a different tool instead.
+  // Searches leave the app, so each one waits for the user's approval.
+  const { persona } = turn;
+  const tools = [new Calculator(), requireApproval(new SerpAPI())].filter(
+    (tool) => isToolAllowed(persona, tool.name),
+  );
+  const chat = getChatModel("agents", {
+    temperature: persona.temperature ?? undefined,
+  });
+
+  /**
+   * Use a prebuilt LangGraph agent.
+   */
+  const agent = createReactAgent({
+    llm: chat,
+    tools,
+    /**
+     * Modify the stock prompt in the prebuilt agent. See docs
+     * for how to customize your agent:
+     *
+     * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
+     */
+    messageModifier: new SystemMessage(persona.system_prompt),
+    checkpointSaver: new SupabaseSaver(turn.client, {
+      conversationId: turn.id,
+      replyId: turn.replyId,
+    }),
+    // Lets `streamApprovedAgentRun` check each call before it is made
+    interruptBefore: ["tools"],
+  });
+  const config: RunnableConfig = { configurable: { thread_id: turn.id } };
+  return { agent, tools, config };
+}
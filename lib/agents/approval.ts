@@ -0,0 +1,157 @@
+import type { CallbackManagerForToolRun } from "@langchain/core/callbacks/manager";
+import {
+  AIMessage,
+  type BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  DynamicStructuredTool,
+  type StructuredTool,
+} from "@langchain/core/tools";
+import type { StateSnapshot } from "@langchain/langgraph";
+
+import { HttpError } from "@/lib/errors";
+import type { ToolDecision } from "./steps";
+import type { ReactAgent } from "./stream";
+
+/** Passed to a rejected call in place of its result. */
+const REJECTED_TOOL_OUTPUT = "The user rejected this tool call.";
+
+/** The result of a call the user left without a decision. */
+const SKIPPED_TOOL_OUTPUT =
+  "This tool call was skipped: the user moved on without running it.";
+
+/**
+ * Flags a tool as needing a human sign-off: agent runs pause before calling
+ * it until the user approves, edits or rejects the call. See
+ * `streamApprovedAgentRun`.
+ *
+ * The returned tool runs `tool` unless the call was rejected, in which case
+ * it tells the model so instead. Decisions are read from the
+ * `tool_decisions` passed in the `configurable` of the resumed run.
+ */
+export function requireApproval(tool: StructuredTool) {
+  return new DynamicStructuredTool({
+    name: tool.name,
+    description: tool.description,
+    schema: tool.schema as DynamicStructuredTool["schema"],
+    metadata: { ...tool.metadata, requiresApproval: true },
+    func: async (
+      input,
+      runManager?: CallbackManagerForToolRun,
+      config?: RunnableConfig,
+    ) => {
+      const decisions: ToolDecision[] =
+        config?.configurable?.tool_decisions ?? [];
+      const decision = decisions.find(
+        ({ id }) => id === config?.configurable?.tool_call_id,
+      );
+      if (decision?.decision === "reject") {
+        return REJECTED_TOOL_OUTPUT;
+      }
+      return tool.invoke(input, { callbacks: runManager?.getChild() });
+    },
+  });
+}
+
+export const requiresApproval = (tools: StructuredTool[], toolCall: ToolCall) =>
+  !!tools.find((tool) => tool.name === toolCall.name)?.metadata
+    ?.requiresApproval;
+
+/**
+ * The tool calls a run paused before the prebuilt agent's `tools` node is
+ * about to make, or none if the run is not paused there.
+ */
+export const pendingToolCalls = (state: StateSnapshot): ToolCall[] => {
+  if (!state.next.includes("tools")) {
+    return [];
+  }
+  const messages: BaseMessage[] = state.values.messages ?? [];
+  return (messages[messages.length - 1] as AIMessage).tool_calls ?? [];
+};
+
+/**
+ * Checks the user decided on every call the run on `config`'s thread is
+ * waiting for, and writes edited arguments back into the model's message so
+ * the calls run (and are stored) with them. Returns the `configurable` to
+ * resume the run with.
+ */
+export async function applyToolDecisions(
+  agent: ReactAgent,
+  config: RunnableConfig,
+  tools: StructuredTool[],
+  decisions: ToolDecision[],
+) {
+  const state = await agent.getState(config);
+  const pending = pendingToolCalls(state).filter((toolCall) =>
+    requiresApproval(tools, toolCall),
+  );
+  if (!pending.length && decisions.length) {
+    throw new HttpError("This run is not waiting for approval", 409);
+  }
+  const decisionFor = (toolCall: ToolCall) =>
+    decisions.find(({ id }) => id === toolCall.id);
+  if (pending.some((toolCall) => !decisionFor(toolCall))) {
+    throw new HttpError("Every pending tool call needs a decision", 400);
+  }
+
+  const edited = pending.filter(
+    (toolCall) => decisionFor(toolCall)?.decision === "edit",
+  );
+  if (edited.length) {
+    const messages: BaseMessage[] = state.values.messages;
+    const message = messages[messages.length - 1] as AIMessage;
+    // Replaces the model's message, which is matched by id
+    await agent.updateState(config, {
+      messages: [
+        new AIMessage({
+          id: message.id,
+          content: message.content,
+          tool_calls: (message.tool_calls ?? []).map((toolCall) => {
+            const decision = decisionFor(toolCall);
+            return decision?.decision === "edit" && decision.args
+              ? { ...toolCall, args: decision.args }
+              : toolCall;
+          }),
+        }),
+      ],
+    });
+  }
+  return { ...config.configurable, tool_decisions: decisions };
+}
+
+/**
+ * Gives the calls of a run the user moved on from (by sending a new message
+ * or forking the thread) a result saying they were skipped, since the model
+ * expects every call to have one. Returns the config to add the new message
+ * with.
+ */
+export async function skipPendingToolCalls(
+  agent: ReactAgent,
+  config: RunnableConfig,
+): Promise<RunnableConfig> {
+  const toolCalls = pendingToolCalls(await agent.getState(config));
+  if (!toolCalls.length) {
+    return config;
+  }
+  const updated = await agent.updateState(
+    config,
+    {
+      messages: toolCalls.map(
+        (toolCall) =>
+          new ToolMessage({
+            tool_call_id: toolCall.id ?? "",
+            name: toolCall.name,
+            content: SKIPPED_TOOL_OUTPUT,
+          }),
+      ),
+    },
+    "tools",
+  );
+  return {
+    ...config,
+    configurable: { ...config.configurable, ...updated.configurable },
+  };
+}
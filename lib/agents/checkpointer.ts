@@ -0,0 +1,296 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  type Checkpoint,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+  copyCheckpoint,
+} from "@langchain/langgraph";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { HttpError } from "@/lib/errors";
+
+type CheckpointListOptions = Parameters<BaseCheckpointSaver["list"]>[1];
+type PendingWrite = Parameters<BaseCheckpointSaver["putWrites"]>[1][number];
+
+/** The channel LangGraph writes `Send` packets to. */
+const TASKS = "__pregel_tasks";
+
+type CheckpointRow = {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  checkpoint: unknown;
+  metadata: unknown;
+};
+
+type WriteRow = {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  task_id: string;
+  channel: string;
+  value: unknown;
+};
+
+const checkpointKey = (
+  threadId: string,
+  checkpointNs: string,
+  checkpointId: string,
+) => JSON.stringify([threadId, checkpointNs, checkpointId]);
+
+const CHECKPOINT_COLUMNS =
+  "thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, checkpoint, metadata";
+
+const threadConfig = (
+  threadId: string,
+  checkpointNs: string,
+  checkpointId: string,
+): RunnableConfig => ({
+  configurable: {
+    thread_id: threadId,
+    checkpoint_ns: checkpointNs,
+    checkpoint_id: checkpointId,
+  },
+});
+
+/**
+ * A LangGraph checkpointer that stores checkpoints in the
+ * `agent_checkpoints` and `agent_checkpoint_writes` tables, so a run can be
+ * picked up again by a later request. Rows are only visible to the user
+ * that wrote them, and are deleted with their conversation.
+ *
+ * Values go through the saver's serde (which keeps LangChain messages as
+ * messages) and are stored as JSON. A `replyId` is added to the metadata of
+ * each checkpoint as `reply_id`, so a run can be traced to the reply it was
+ * producing.
+ */
+export class SupabaseSaver extends BaseCheckpointSaver {
+  constructor(
+    private client: SupabaseClient,
+    private context: { conversationId?: string | null; replyId?: string } = {},
+  ) {
+    super();
+  }
+
+  private dump(value: unknown) {
+    const [, serialized] = this.serde.dumpsTyped(value);
+    return JSON.parse(
+      typeof serialized === "string"
+        ? serialized
+        : new TextDecoder().decode(serialized),
+    );
+  }
+
+  private load(value: unknown) {
+    return this.serde.loadsTyped("json", JSON.stringify(value));
+  }
+
+  /**
+   * The writes of the checkpoints in `rows` and of their parents, fetched in
+   * one query and grouped by `checkpointKey`.
+   */
+  private async loadWrites(rows: CheckpointRow[]) {
+    const writes = new Map<string, WriteRow[]>();
+    if (!rows.length) {
+      return writes;
+    }
+    const unique = (values: (string | null)[]) =>
+      Array.from(
+        new Set(values.filter((value): value is string => value !== null)),
+      );
+    const { data, error } = await this.client
+      .from("agent_checkpoint_writes")
+      .select(
+        "thread_id, checkpoint_ns, checkpoint_id, task_id, channel, value",
+      )
+      .in("thread_id", unique(rows.map((row) => row.thread_id)))
+      .in("checkpoint_ns", unique(rows.map((row) => row.checkpoint_ns)))
+      .in(
+        "checkpoint_id",
+        unique(
+          rows.flatMap((row) => [row.checkpoint_id, row.parent_checkpoint_id]),
+        ),
+      )
+      .order("task_id")
+      .order("idx");
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    for (const write of (data ?? []) as WriteRow[]) {
+      const key = checkpointKey(
+        write.thread_id,
+        write.checkpoint_ns,
+        write.checkpoint_id,
+      );
+      writes.set(key, [...(writes.get(key) ?? []), write]);
+    }
+    return writes;
+  }
+
+  private async toTuple(
+    row: CheckpointRow,
+    writesByCheckpoint: Map<string, WriteRow[]>,
+  ): Promise<CheckpointTuple> {
+    const writesOf = (checkpointId: string | null) =>
+      checkpointId
+        ? (writesByCheckpoint.get(
+            checkpointKey(row.thread_id, row.checkpoint_ns, checkpointId),
+          ) ?? [])
+        : [];
+    const writes = writesOf(row.checkpoint_id);
+    // `Send`s are stored as writes of the parent checkpoint's tasks
+    const parentWrites = writesOf(row.parent_checkpoint_id);
+    const pendingSends = await Promise.all(
+      parentWrites
+        .filter((write) => write.channel === TASKS)
+        .map((write) => this.load(write.value)),
+    );
+    const tuple: CheckpointTuple = {
+      config: threadConfig(row.thread_id, row.checkpoint_ns, row.checkpoint_id),
+      checkpoint: {
+        ...(await this.load(row.checkpoint)),
+        pending_sends: pendingSends,
+      },
+      metadata: await this.load(row.metadata),
+      pendingWrites: await Promise.all(
+        writes.map(
+          async (write) =>
+            [write.task_id, write.channel, await this.load(write.value)] as [
+              string,
+              string,
+              unknown,
+            ],
+        ),
+      ),
+    };
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = threadConfig(
+        row.thread_id,
+        row.checkpoint_ns,
+        row.parent_checkpoint_id,
+      );
+    }
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig) {
+    const threadId = config.configurable?.thread_id;
+    const checkpointId = config.configurable?.checkpoint_id;
+    let query = this.client
+      .from("agent_checkpoints")
+      .select(CHECKPOINT_COLUMNS)
+      .eq("thread_id", threadId)
+      .eq("checkpoint_ns", config.configurable?.checkpoint_ns ?? "");
+    if (checkpointId) {
+      query = query.eq("checkpoint_id", checkpointId);
+    }
+    // Checkpoint ids are time-ordered, so the latest sorts last
+    const { data, error } = await query
+      .order("checkpoint_id", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    if (!data) {
+      return undefined;
+    }
+    const row = data as CheckpointRow;
+    return this.toTuple(row, await this.loadWrites([row]));
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions) {
+    let query = this.client
+      .from("agent_checkpoints")
+      .select(CHECKPOINT_COLUMNS);
+    if (config.configurable?.thread_id) {
+      query = query.eq("thread_id", config.configurable.thread_id);
+    }
+    if (config.configurable?.checkpoint_ns !== undefined) {
+      query = query.eq("checkpoint_ns", config.configurable.checkpoint_ns);
+    }
+    if (options?.before?.configurable?.checkpoint_id) {
+      query = query.lt(
+        "checkpoint_id",
+        options.before.configurable.checkpoint_id,
+      );
+    }
+    if (options?.filter) {
+      query = query.contains("metadata", options.filter);
+    }
+    query = query.order("checkpoint_id", { ascending: false });
+    if (options?.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    const rows = (data ?? []) as CheckpointRow[];
+    const writes = await this.loadWrites(rows);
+    for (const row of rows) {
+      yield await this.toTuple(row, writes);
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ) {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (!threadId) {
+      throw new Error("Cannot save a checkpoint without a thread_id.");
+    }
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+    const { error } = await this.client.from("agent_checkpoints").insert({
+      thread_id: threadId,
+      checkpoint_ns: checkpointNs,
+      checkpoint_id: checkpoint.id,
+      parent_checkpoint_id: config.configurable?.checkpoint_id ?? null,
+      conversation_id: this.context.conversationId ?? null,
+      checkpoint: this.dump(prepared),
+      metadata: this.dump(
+        this.context.replyId
+          ? { ...metadata, reply_id: this.context.replyId }
+          : metadata,
+      ),
+    });
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    return threadConfig(threadId, checkpointNs, checkpoint.id);
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string,
+  ) {
+    const threadId = config.configurable?.thread_id;
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (!threadId || !checkpointId) {
+      throw new Error(
+        "Cannot save checkpoint writes without a thread_id and checkpoint_id.",
+      );
+    }
+    const { error } = await this.client.from("agent_checkpoint_writes").upsert(
+      writes.map(([channel, value], idx) => ({
+        thread_id: threadId,
+        checkpoint_ns: config.configurable?.checkpoint_ns ?? "",
+        checkpoint_id: checkpointId,
+        task_id: taskId,
+        idx,
+        channel,
+        value: this.dump(value),
+      })),
+    );
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+  }
+}
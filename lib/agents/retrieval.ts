@@ -0,0 +1,93 @@
+import { SystemMessage } from "@langchain/core/messages";
+import { PromptTemplate } from "@langchain/core/prompts";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { createReactAgent } from "@langchain/langgraph/prebuilt";
+import { createRetrieverTool } from "langchain/tools/retriever";
+
+import type { ConversationTurn } from "@/lib/conversations";
+import { getChatModel } from "@/lib/models/registry";
+import { isToolAllowed } from "@/lib/personas/defaults";
+import { getPrompt } from "@/lib/prompts/server";
+import { HybridRetriever } from "@/lib/retrieval/hybrid";
+import type { RetrievalFilters } from "@/lib/retrieval/options";
+import { getChunkStore } from "@/lib/retrieval/store";
+import { getWorkspace } from "@/lib/workspace";
+import { SupabaseSaver } from "./checkpointer";
+
+/**
+ * The prebuilt ReAct agent of the `retrieval_agents` endpoint, which
+ * searches the caller's documents. Like `createChatAgent`, it is
+ * checkpointed on the conversation's thread, so a run that was cut off can
+ * be resumed. Also returns the system prompt it was given, to attribute the
+ * reply to.
+ */
+export async function createRetrievalAgent(
+  turn: Pick<ConversationTurn, "id" | "client" | "persona"> & {
+    replyId?: string;
+    filters?: RetrievalFilters;
+  },
+) {
+  const { client, persona } = turn;
+  const chatModel = getChatModel("retrieval_agents", {
+    temperature: persona.temperature ?? undefined,
+  });
+
+  /**
+   * The system prompt is versioned per workspace, see `lib/prompts`, and
+   * wraps the persona's.
+   */
+  const systemPrompt = await getPrompt(
+    client,
+    "retrieval_agents_system",
+    turn.id,
+  );
+  const systemMessage = new SystemMessage(
+    await PromptTemplate.fromTemplate(systemPrompt.template).format({
+      persona: persona.system_prompt,
+    }),
+  );
+
+  /**
+   * Only search chunks uploaded to the caller's workspace, on top of any
+   * requested `filters`. The Clerk Supabase token also lets row level
+   * security enforce this.
+   */
+  const workspace = await getWorkspace();
+  const retriever = new HybridRetriever({
+    store: getChunkStore(client, workspace),
+    filters: turn.filters,
+    rankers: ["vector"],
+  });
+
+  /**
+   * Wrap the retriever in a tool to present it to the agent in a
+   * usable form.
+   */
+  const tools = [
+    createRetrieverTool(retriever, {
+      name: "search_latest_knowledge",
+      description: "Searches and returns up-to-date general information.",
+    }),
+  ].filter((tool) => isToolAllowed(persona, tool.name));
+
+  /**
+   * Use a prebuilt LangGraph agent.
+   */
+  const agent = createReactAgent({
+    llm: chatModel,
+    tools,
+    /**
+     * Modify the stock prompt in the prebuilt agent. See docs
+     * for how to customize your agent:
+     *
+     * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
+     */
+    messageModifier: systemMessage,
+    checkpointSaver: new SupabaseSaver(client, {
+      conversationId: turn.id,
+      replyId: turn.replyId,
+    }),
+  });
+  const config: RunnableConfig = { configurable: { thread_id: turn.id } };
+  return { agent, tools, config, systemPrompt };
+}
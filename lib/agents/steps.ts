@@ -0,0 +1,112 @@
+import type { Message } from "ai";
+
+/**
+ * The events the agent routes stream when intermediate steps are shown, one
+ * JSON object per line.
+ */
+export type AgentStepEvent =
+  /**
+   * The model decided to call a tool. `id` is the tool call's id, and `turn`
+   * counts the model's replies in the run: calls made in the same turn run
+   * in parallel.
+   */
+  | {
+      type: "tool_start";
+      id: string;
+      name: string;
+      args: Record<string, any>;
+      turn: number;
+    }
+  /** A tool call returned, or failed with `output` as the error. */
+  | { type: "tool_end"; id: string; output: string }
+  /**
+   * The run paused before this call, which needs the user's approval. The
+   * stream ends after the run pauses.
+   */
+  | { type: "approval_required"; id: string }
+  /** A token of the final answer. */
+  | { type: "token"; content: string }
+  | { type: "error"; error: string };
+
+/**
+ * What the user decided on a call awaiting approval. `args` replaces the
+ * call's arguments when it is edited.
+ */
+export type ToolDecision = {
+  id: string;
+  decision: "approve" | "edit" | "reject";
+  args?: Record<string, any>;
+};
+
+/**
+ * The JSON content of the system messages `ChatWindow` shows tool calls as.
+ * `observation` is unset while the tool runs, and `approval` is only set on
+ * calls that needed the user's approval.
+ */
+export type IntermediateStepContent = {
+  action: { id?: string; name: string; args: Record<string, any> };
+  observation?: string;
+  turn?: number;
+  approval?: "pending" | ToolDecision["decision"];
+};
+
+export const parseIntermediateStep = (message: Pick<Message, "content">) =>
+  JSON.parse(message.content) as IntermediateStepContent;
+
+/**
+ * Groups the tool call messages made in the same agent turn, which ran in
+ * parallel. Other messages, and calls without a turn, are left on their own.
+ */
+export function groupIntermediateSteps(messages: Message[]) {
+  const groups: Message[][] = [];
+  let lastTurn: number | undefined;
+  for (const message of messages) {
+    const turn =
+      message.role === "system"
+        ? parseIntermediateStep(message).turn
+        : undefined;
+    if (turn !== undefined && turn === lastTurn) {
+      groups[groups.length - 1].push(message);
+    } else {
+      groups.push([message]);
+    }
+    lastTurn = turn;
+  }
+  return groups;
+}
+
+export const encodeAgentStepEvent = (event: AgentStepEvent) =>
+  `${JSON.stringify(event)}\n`;
+
+/**
+ * Reads a stream of JSON objects, one per line, calling `onEvent` for each
+ * one as it arrives. Resolves once the stream ends.
+ */
+export async function readJsonLines<Event>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: Event) => void,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line));
+      }
+    }
+    if (done) {
+      return;
+    }
+  }
+}
+
+/** Reads a stream of agent step events, see `readJsonLines`. */
+export const readAgentStepEvents = (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AgentStepEvent) => void,
+) => readJsonLines(body, onEvent);
@@ -0,0 +1,201 @@
+import type {
+  AIMessage,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StructuredTool } from "@langchain/core/tools";
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
+import type { StateSnapshot } from "@langchain/langgraph";
+import type { createReactAgent } from "@langchain/langgraph/prebuilt";
+
+import { pendingToolCalls, requiresApproval } from "./approval";
+import { type AgentStepEvent, encodeAgentStepEvent } from "./steps";
+
+export type ReactAgent = ReturnType<typeof createReactAgent>;
+
+/** Node names of the prebuilt `createReactAgent` graph. */
+const AGENT_NODE = "agent";
+const TOOLS_NODE = "tools";
+
+const isToolMessage = (value: unknown): value is ToolMessage =>
+  (value as BaseMessage | undefined)?._getType?.() === "tool";
+
+type StepSender = (event: AgentStepEvent) => void;
+
+/**
+ * Sends the step events of one `streamEvents` (v2) run of a prebuilt ReAct
+ * agent and returns the messages it added, in order. `turn` is the number
+ * of model replies made earlier in the answer. `onStart` is called when the
+ * first node starts.
+ */
+async function sendAgentSteps(
+  events: AsyncIterable<StreamEvent>,
+  send: StepSender,
+  turn = 0,
+  onStart?: () => Promise<void>,
+) {
+  const messages: BaseMessage[] = [];
+  const finishedToolCalls = new Set<string>();
+  let started = false;
+  for await (const { event, name, data, metadata } of events) {
+    const node = metadata?.langgraph_node;
+    if (node && !started) {
+      started = true;
+      await onStart?.();
+    }
+    if (event === "on_chat_model_stream" && node === AGENT_NODE) {
+      // Turns that call tools usually stream no content
+      if (typeof data.chunk?.content === "string" && data.chunk.content) {
+        send({ type: "token", content: data.chunk.content });
+      }
+    } else if (event === "on_chat_model_end" && node === AGENT_NODE) {
+      const message = data.output as AIMessage;
+      messages.push(message);
+      for (const toolCall of message.tool_calls ?? []) {
+        send({
+          type: "tool_start",
+          id: toolCall.id ?? "",
+          name: toolCall.name,
+          args: toolCall.args,
+          turn,
+        });
+      }
+      turn += 1;
+    } else if (event === "on_tool_end" && isToolMessage(data.output)) {
+      finishedToolCalls.add(data.output.tool_call_id);
+      send({
+        type: "tool_end",
+        id: data.output.tool_call_id,
+        output: `${data.output.content}`,
+      });
+    } else if (event === "on_chain_end" && name === TOOLS_NODE) {
+      // Tool errors are only returned by the node, as error messages
+      for (const message of data.output?.messages ?? []) {
+        if (!isToolMessage(message)) {
+          continue;
+        }
+        messages.push(message);
+        if (!finishedToolCalls.has(message.tool_call_id)) {
+          finishedToolCalls.add(message.tool_call_id);
+          send({
+            type: "tool_end",
+            id: message.tool_call_id,
+            output: `${message.content}`,
+          });
+        }
+      }
+    }
+  }
+  return messages;
+}
+
+/**
+ * A stream of newline-delimited `AgentStepEvent`s sent by `run`. Errors are
+ * sent as an `error` event before the stream closes.
+ */
+function createStepStream(run: (send: StepSender) => Promise<void>) {
+  const textEncoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: StepSender = (event) =>
+        controller.enqueue(textEncoder.encode(encodeAgentStepEvent(event)));
+      try {
+        await run(send);
+      } catch (e: any) {
+        send({ type: "error", error: e.message });
+      }
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Turns the `streamEvents` (v2) of a prebuilt ReAct agent into a stream of
+ * newline-delimited `AgentStepEvent`s, sent as they happen: each tool call
+ * when the model makes it, each result as its tool returns, and the tokens
+ * of the answer. Results are matched to calls by tool call id, so parallel
+ * calls can finish in any order.
+ *
+ * `onFinish` receives the messages the run added, in order, before the
+ * stream closes, e.g. to store them.
+ */
+export function streamAgentSteps(
+  events: AsyncIterable<StreamEvent>,
+  onFinish: (messages: BaseMessage[]) => Promise<void>,
+) {
+  return createStepStream(async (send) => {
+    await onFinish(await sendAgentSteps(events, send));
+  });
+}
+
+/** The messages added since the question the agent is answering. */
+export const answerMessages = (state: StateSnapshot) => {
+  const messages: BaseMessage[] = state.values.messages ?? [];
+  const questionIndex = messages
+    .map((message) => message._getType())
+    .lastIndexOf("human");
+  return messages.slice(questionIndex + 1);
+};
+
+const modelTurns = (state: StateSnapshot) =>
+  answerMessages(state).filter((message) => message._getType() === "ai").length;
+
+/**
+ * Like `streamAgentSteps`, for an agent compiled with a checkpointer and
+ * `interruptBefore: ["tools"]`, run on the thread in `config`. Whenever the
+ * agent stops before calling tools, the calls are made straight away unless
+ * one of them uses a tool flagged with `requireApproval`: the run then stays
+ * paused at its checkpoint, and an `approval_required` event is sent for
+ * each such call before the stream closes.
+ *
+ * Pass `null` as `input` to resume a paused run. With a `checkpoint_id` in
+ * `config`, the run starts from that checkpoint instead of the latest one,
+ * which forks the thread. `onFinish` receives all the messages of the answer
+ * once the agent replies without calling tools. `onStart` is called when the
+ * first node runs: by then the thread holds the input, so a run cut off
+ * after that can be resumed.
+ */
+export function streamApprovedAgentRun(
+  agent: ReactAgent,
+  input: { messages: BaseMessage[] } | null,
+  config: RunnableConfig,
+  tools: StructuredTool[],
+  onFinish: (messages: BaseMessage[]) => Promise<void>,
+  onStart?: () => Promise<void>,
+) {
+  // Later steps carry on from the latest checkpoint the run wrote
+  const latestConfig = {
+    ...config,
+    configurable: { ...config.configurable, checkpoint_id: undefined },
+  };
+  return createStepStream(async (send) => {
+    let next = input;
+    let runConfig = config;
+    let state = input ? undefined : await agent.getState(config);
+    while (true) {
+      await sendAgentSteps(
+        agent.streamEvents(next, { ...runConfig, version: "v2" }),
+        send,
+        state ? modelTurns(state) : 0,
+        onStart,
+      );
+      runConfig = latestConfig;
+      state = await agent.getState(latestConfig);
+      if (!state.next.includes(TOOLS_NODE)) {
+        await onFinish(answerMessages(state));
+        return;
+      }
+      const pending = pendingToolCalls(state).filter((toolCall) =>
+        requiresApproval(tools, toolCall),
+      );
+      if (pending.length) {
+        for (const toolCall of pending) {
+          send({ type: "approval_required", id: toolCall.id ?? "" });
+        }
+        return;
+      }
+      next = null;
+    }
+  });
+}
@@ -0,0 +1,92 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StructuredTool } from "@langchain/core/tools";
+import type { Message as VercelChatMessage } from "ai";
+
+import type { ConversationTurn } from "@/lib/conversations";
+import { HttpError } from "@/lib/errors";
+import { applyToolDecisions, skipPendingToolCalls } from "./approval";
+import type { ToolDecision } from "./steps";
+import type { ReactAgent } from "./stream";
+
+/**
+ * What a request to a checkpointed agent route can do with the thread,
+ * besides adding `message`:
+ *
+ * - `resume: { replyId, decisions? }` continues the run that produced
+ *   `replyId`, after the user decided on the calls awaiting approval or
+ *   after the run was cut off.
+ * - `replay: { checkpointId }` runs again from an earlier checkpoint.
+ * - `fork: { checkpointId }` adds `message` at an earlier checkpoint.
+ *
+ * Replays and forks branch off the thread, and later turns continue from
+ * the branch.
+ */
+export type AgentThreadRequest = {
+  resume?: { replyId?: string; decisions?: ToolDecision[] };
+  replay?: { checkpointId: string };
+  fork?: { checkpointId: string };
+};
+
+/** Whether the request picks up a run instead of adding a message. */
+export const continuesRun = (body: AgentThreadRequest) =>
+  !!(body.resume || body.replay);
+
+/**
+ * The messages and config to run a checkpointed agent with for a request,
+ * on the thread in `config`. `messages` is `null` when a run is picked up;
+ * otherwise it holds the new message, or the whole dialogue for a thread
+ * that holds nothing yet (such as a conversation started before it was
+ * checkpointed).
+ */
+export async function prepareThreadRun(
+  agent: ReactAgent,
+  config: RunnableConfig,
+  tools: StructuredTool[],
+  turn: Pick<ConversationTurn, "history" | "message">,
+  body: AgentThreadRequest,
+): Promise<{ messages: VercelChatMessage[] | null; config: RunnableConfig }> {
+  const checkpointId = body.replay?.checkpointId ?? body.fork?.checkpointId;
+  const threadConfig: RunnableConfig = checkpointId
+    ? {
+        ...config,
+        configurable: { ...config.configurable, checkpoint_id: checkpointId },
+      }
+    : config;
+
+  const state = await agent.getState(threadConfig);
+  if (checkpointId && !state.values.messages?.length) {
+    throw new HttpError("Checkpoint not found", 404);
+  }
+  if (continuesRun(body)) {
+    if (!state.next.length) {
+      throw new HttpError("The run had already finished", 409);
+    }
+    return {
+      messages: null,
+      config: {
+        ...threadConfig,
+        configurable: await applyToolDecisions(
+          agent,
+          threadConfig,
+          tools,
+          body.resume?.decisions ?? [],
+        ),
+      },
+    };
+  }
+  if (state.values.messages?.length) {
+    // The thread already holds the dialogue
+    return {
+      messages: [turn.message],
+      config: await skipPendingToolCalls(agent, threadConfig),
+    };
+  }
+  /**
+   * The stored history only contains user and assistant turns. Intermediate
+   * steps are kept alongside it for display, but not sent to the model.
+   */
+  return {
+    messages: [...turn.history, turn.message],
+    config: threadConfig,
+  };
+}
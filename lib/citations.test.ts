@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { type AnswerSentence, checkCitations } from "./citations";
+
+/** Each sentence's text with its markers, and whether it was flagged. */
+const summarize = (sentences: AnswerSentence[]) =>
+  sentences.map(({ parts, ungrounded }) => [
+    parts
+      .map((part) => (typeof part === "string" ? part : `[${part.citation}]`))
+      .join("")
+      .trim(),
+    ungrounded,
+  ]);
+
+describe("checkCitations", () => {
+  it("flags a full sentence without a marker", () => {
+    expect(
+      summarize(
+        checkCitations(
+          "Dogs bark loudly at night [1]. Cats purr when they are happy.",
+          1,
+        ),
+      ),
+    ).toEqual([
+      ["Dogs bark loudly at night [1].", false],
+      ["Cats purr when they are happy.", true],
+    ]);
+  });
+
+  it("leaves short sentences alone", () => {
+    expect(
+      summarize(checkCitations("Woof! Dogs bark loudly at night [1].", 1)),
+    ).toEqual([
+      ["Woof!", false],
+      ["Dogs bark loudly at night [1].", false],
+    ]);
+  });
+
+  it("flags a marker for a passage that wasn't retrieved", () => {
+    const [inRange, outOfRange, zero] = checkCitations(
+      "Dogs bark loudly at night [2]. Cats purr when they are happy [3]. " +
+        "Birds sing in the early morning [0].",
+      2,
+    );
+    expect(inRange).toMatchObject({ citations: [2], ungrounded: false });
+    expect(outOfRange).toMatchObject({ citations: [3], ungrounded: true });
+    expect(zero).toMatchObject({ citations: [0], ungrounded: true });
+  });
+
+  it("reads chained markers", () => {
+    const [sentence] = checkCitations(
+      "Cats purr when they are happy [2][3].",
+      3,
+    );
+    expect(sentence.parts).toEqual([
+      "Cats purr when they are happy ",
+      { citation: 2 },
+      { citation: 3 },
+      ".",
+    ]);
+    expect(sentence).toMatchObject({ citations: [2, 3], ungrounded: false });
+    expect(
+      checkCitations("Cats purr when they are happy [2][3].", 2)[0].ungrounded,
+    ).toBe(true);
+  });
+
+  it("counts markers after the full stop towards that sentence", () => {
+    expect(
+      summarize(
+        checkCitations(
+          "Dogs bark loudly at night. [1][2] Cats purr when they are happy. [2]",
+          2,
+        ),
+      ),
+    ).toEqual([
+      ["Dogs bark loudly at night. [1][2]", false],
+      ["Cats purr when they are happy. [2]", false],
+    ]);
+  });
+
+  it("doesn't split sentences at abbreviations or decimals", () => {
+    expect(
+      summarize(
+        checkCitations(
+          "Dr. Smith said the price rose 3.5 percent, e.g. in the U.S. " +
+            "markets [1]. Mr. Jones paid $2.50 for each ticket [2].",
+          2,
+        ),
+      ),
+    ).toEqual([
+      [
+        "Dr. Smith said the price rose 3.5 percent, e.g. in the U.S. markets [1].",
+        false,
+      ],
+      ["Mr. Jones paid $2.50 for each ticket [2].", false],
+    ]);
+  });
+
+  it("waits for the last sentence to be complete", () => {
+    expect(
+      summarize(
+        checkCitations("Dogs bark loudly at night [1]. Cats purr when", 1),
+      ),
+    ).toEqual([
+      ["Dogs bark loudly at night [1].", false],
+      ["Cats purr when", false],
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Helpers for answers that cite retrieved chunks with `[n]` markers, where
+ * `n` is the 1-based position of the chunk in the message's sources. Shared
+ * by the retrieval route and `ChatMessageBubble`.
+ */
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+const LEADING_CITATIONS_PATTERN = /^\s*(?:\[\d+\]\s*)+/;
+const SENTENCE_END_PATTERN = /[.!?]["')\]]*\s*$/;
+
+/**
+ * Titles and abbreviations the sentence segmenter takes for a full stop,
+ * which rarely end a sentence.
+ */
+const ABBREVIATION_PATTERN =
+  /(?:^|[\s(])(?:Mr|Mrs|Ms|Dr|Prof|St|vs|Fig|approx)\.\s*$/;
+
+/**
+ * Sentences this short (e.g. "Woof!") aren't expected to cite anything.
+ */
+const MIN_CITED_WORDS = 4;
+
+export type AnswerPart = string | { citation: number };
+
+export type AnswerSentence = {
+  parts: AnswerPart[];
+  citations: number[];
+  /** Set when a full-length sentence cites nothing, or a missing source. */
+  ungrounded: boolean;
+};
+
+function splitCitations(text: string): AnswerPart[] {
+  const parts: AnswerPart[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    if (match.index! > lastIndex) {
+      parts.push(text.slice(lastIndex, match.index));
+    }
+    parts.push({ citation: Number(match[1]) });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex));
+  }
+  return parts;
+}
+
+/**
+ * Splits an answer into sentences with their citation markers, and flags the
+ * ones that aren't grounded in the `sourceCount` retrieved chunks. Markers
+ * placed after a sentence's full stop (e.g. "Dogs bark. [1]") count towards
+ * that sentence, and titles such as "Dr." don't end one. The last sentence
+ * is only checked once it is complete, so partially streamed answers aren't
+ * flagged early.
+ */
+export function checkCitations(
+  text: string,
+  sourceCount: number,
+): AnswerSentence[] {
+  const segments: string[] = [];
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+  for (const { segment } of Array.from(segmenter.segment(text))) {
+    if (
+      segments.length &&
+      ABBREVIATION_PATTERN.test(segments[segments.length - 1])
+    ) {
+      segments[segments.length - 1] += segment;
+      continue;
+    }
+    const leading = LEADING_CITATIONS_PATTERN.exec(segment)?.[0];
+    if (leading && segments.length) {
+      segments[segments.length - 1] += leading;
+      segments.push(segment.slice(leading.length));
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments
+    .filter((segment) => segment.length)
+    .map((segment, i) => {
+      const parts = splitCitations(segment);
+      const citations = parts.flatMap((part) =>
+        typeof part === "string" ? [] : [part.citation],
+      );
+      const words = segment.replace(CITATION_PATTERN, "").trim().split(/\s+/);
+      const isComplete =
+        i < segments.length - 1 || SENTENCE_END_PATTERN.test(segment);
+      const cites = citations.length
+        ? citations.every((n) => n >= 1 && n <= sourceCount)
+        : words.length < MIN_CITED_WORDS;
+      return { parts, citations, ungrounded: isComplete && !cites };
+    });
+}
@@ -0,0 +1,430 @@
+import { auth } from "@clerk/nextjs/server";
+import type {
+  AIMessage,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Message as VercelChatMessage } from "ai";
+
+import { HttpError } from "@/lib/errors";
+import { getModelConfig } from "@/lib/models/registry";
+import type { PersonaSettings } from "@/lib/personas/defaults";
+import { getPersona } from "@/lib/personas/server";
+import type { ResolvedPrompt } from "@/lib/prompts/defaults";
+import { recordPromptRuns } from "@/lib/prompts/server";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { UsageHandler } from "@/lib/usage/server";
+
+export const CONVERSATION_ENDPOINTS = [
+  "chat",
+  "agents",
+  "retrieval",
+  "retrieval_agents",
+] as const;
+
+export type ConversationEndpoint = (typeof CONVERSATION_ENDPOINTS)[number];
+
+export type StoredMessage = {
+  id: string;
+  conversation_id: string;
+  role: "user" | "assistant" | "tool";
+  content: string;
+  tool_calls: Record<string, any>[] | null;
+  sources: Record<string, any>[] | null;
+  /** The persona that wrote an assistant message, `null` for built-in. */
+  persona_id: string | null;
+  /** `provider:model` that wrote an assistant message. */
+  model: string | null;
+  /**
+   * For `tool` messages, the agent turn the call was made in. Calls with the
+   * same turn ran in parallel.
+   */
+  agent_turn: number | null;
+  created_at: string;
+};
+
+export type NewMessage = Pick<StoredMessage, "role" | "content"> &
+  Partial<
+    Pick<
+      StoredMessage,
+      | "id"
+      | "tool_calls"
+      | "sources"
+      | "persona_id"
+      | "model"
+      | "agent_turn"
+      | "created_at"
+    >
+  >;
+
+export type ConversationTurn = {
+  id: string;
+  endpoint: ConversationEndpoint;
+  client: SupabaseClient;
+  /**
+   * Previous user and assistant turns, oldest first. Tool steps are left out
+   * since the routes only feed the visible dialogue back to the model.
+   */
+  history: VercelChatMessage[];
+  message: VercelChatMessage;
+  /**
+   * The incoming user message until it is saved along with the reply, so a
+   * turn that fails leaves nothing behind for a retry to duplicate.
+   */
+  pendingMessages: NewMessage[];
+  /** The conversation's persona, or the endpoint's built-in one. */
+  persona: PersonaSettings;
+  personaId: string | null;
+  /**
+   * Id the reply is stored under, sent back in the `x-message-id` header so
+   * the client can give feedback on it.
+   */
+  replyId: string;
+  /** When the request started, for measuring how long the reply took. */
+  startedAt: number;
+  /**
+   * Records the usage of the turn's model calls. Pass it in the `callbacks`
+   * of the chain or agent that answers.
+   */
+  usage: UsageHandler;
+};
+
+const TITLE_LENGTH = 60;
+
+/** The user and assistant messages of a conversation, oldest first. */
+async function loadDialogue(
+  client: SupabaseClient,
+  conversationId: string,
+): Promise<VercelChatMessage[]> {
+  const { data, error } = await client
+    .from("messages")
+    .select("id, role, content")
+    .eq("conversation_id", conversationId)
+    .in("role", ["user", "assistant"])
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    role: row.role,
+    content: row.content,
+  }));
+}
+
+const titleFromMessage = (content: string) => {
+  const title = content.trim().replace(/\s+/g, " ");
+  return title.length > TITLE_LENGTH
+    ? `${title.slice(0, TITLE_LENGTH - 1)}…`
+    : title;
+};
+
+/**
+ * Loads (or creates) the conversation referenced by a chat request. The
+ * incoming user message is stored with the reply (see `saveReply`).
+ *
+ * Clients send `{ conversationId, message }`. The legacy `{ messages }` body
+ * is still accepted, in which case only its last entry is used and the rest of
+ * the history comes from the database.
+ *
+ * A `personaId` (or `null` for the built-in persona) is stored on the
+ * conversation. Requests without one keep the conversation's current persona.
+ */
+export async function startConversationTurn(
+  endpoint: ConversationEndpoint,
+  body: {
+    conversationId?: string | null;
+    message?: VercelChatMessage;
+    messages?: VercelChatMessage[];
+    personaId?: string | null;
+  },
+): Promise<ConversationTurn> {
+  const startedAt = Date.now();
+  const { userId } = await auth();
+  if (!userId) {
+    throw new HttpError("Unauthorized", 401);
+  }
+
+  const message = body.message ?? body.messages?.[body.messages.length - 1];
+  if (!message?.content) {
+    throw new HttpError("A message is required", 400);
+  }
+
+  const client = await createClerkSupabaseClientSsr();
+  let conversationId = body.conversationId;
+  let history: VercelChatMessage[] = [];
+  let persona: PersonaSettings;
+  let personaId: string | null;
+
+  if (conversationId) {
+    const { data: conversation } = await client
+      .from("conversations")
+      .select("id, persona_id")
+      .eq("id", conversationId)
+      .eq("endpoint", endpoint)
+      .maybeSingle();
+    if (!conversation) {
+      throw new HttpError("Conversation not found", 404);
+    }
+
+    personaId =
+      body.personaId === undefined ? conversation.persona_id : body.personaId;
+    persona = await getPersona(client, endpoint, personaId);
+    if (personaId !== conversation.persona_id) {
+      const { error } = await client
+        .from("conversations")
+        .update({ persona_id: personaId })
+        .eq("id", conversationId);
+      if (error) {
+        throw new HttpError(error.message, 500);
+      }
+    }
+
+    history = await loadDialogue(client, conversationId);
+  } else {
+    personaId = body.personaId ?? null;
+    persona = await getPersona(client, endpoint, personaId);
+    const { data, error } = await client
+      .from("conversations")
+      .insert({
+        user_id: userId,
+        endpoint,
+        title: titleFromMessage(message.content),
+        persona_id: personaId,
+      })
+      .select("id")
+      .single();
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    conversationId = data.id as string;
+  }
+
+  return {
+    id: conversationId,
+    endpoint,
+    client,
+    history,
+    message,
+    pendingMessages: [
+      {
+        role: "user",
+        content: message.content,
+        created_at: new Date(startedAt).toISOString(),
+      },
+    ],
+    persona,
+    personaId,
+    replyId: crypto.randomUUID(),
+    startedAt,
+    usage: new UsageHandler(client, {
+      feature: endpoint,
+      conversationId,
+    }),
+  };
+}
+
+/**
+ * Picks up a conversation without a new message: to finish a reply that was
+ * not stored yet, such as an agent run that paused for the user's approval
+ * (pass the `replyId` it was streamed under), or to answer again from an
+ * earlier agent checkpoint. The turn's message is the conversation's last
+ * user message.
+ */
+export async function resumeConversationTurn(
+  endpoint: ConversationEndpoint,
+  body: { conversationId?: string | null; replyId?: string },
+): Promise<ConversationTurn> {
+  const startedAt = Date.now();
+  const { userId } = await auth();
+  if (!userId) {
+    throw new HttpError("Unauthorized", 401);
+  }
+  if (!body.conversationId) {
+    throw new HttpError("A conversationId is required", 400);
+  }
+
+  const client = await createClerkSupabaseClientSsr();
+  const { data: conversation } = await client
+    .from("conversations")
+    .select("id, persona_id")
+    .eq("id", body.conversationId)
+    .eq("endpoint", endpoint)
+    .maybeSingle();
+  if (!conversation) {
+    throw new HttpError("Conversation not found", 404);
+  }
+
+  const dialogue = await loadDialogue(client, conversation.id);
+  const messageIndex = dialogue.map(({ role }) => role).lastIndexOf("user");
+  if (messageIndex === -1) {
+    throw new HttpError("The conversation has no message to answer", 409);
+  }
+  return {
+    id: conversation.id,
+    endpoint,
+    client,
+    history: dialogue.slice(0, messageIndex),
+    message: dialogue[messageIndex],
+    pendingMessages: [],
+    persona: await getPersona(client, endpoint, conversation.persona_id),
+    personaId: conversation.persona_id,
+    replyId: body.replyId ?? crypto.randomUUID(),
+    startedAt,
+    usage: new UsageHandler(client, {
+      feature: endpoint,
+      conversationId: conversation.id,
+    }),
+  };
+}
+
+/**
+ * Appends messages to a conversation and bumps its `updated_at` so it sorts
+ * first in the sidebar. Messages without a `created_at` are stamped a
+ * millisecond apart, so rows saved together keep their order. Returns the
+ * ids of the new messages, in order.
+ */
+export async function saveMessages(
+  turn: Pick<ConversationTurn, "id" | "client">,
+  messages: NewMessage[],
+): Promise<string[]> {
+  if (!messages.length) {
+    return [];
+  }
+  const now = Date.now();
+  const { data, error } = await turn.client
+    .from("messages")
+    .insert(
+      messages.map((message, i) => ({
+        created_at: new Date(now + i).toISOString(),
+        ...message,
+        conversation_id: turn.id,
+      })),
+    )
+    .select("id");
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  const { error: updateError } = await turn.client
+    .from("conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", turn.id);
+  if (updateError) {
+    throw new HttpError(updateError.message, 500);
+  }
+  return (data ?? []).map((row) => row.id as string);
+}
+
+/**
+ * Saves the turn's user message, if it is still pending, so a run that
+ * paused without a reply can be resumed.
+ */
+export async function savePendingMessages(turn: ConversationTurn) {
+  await saveMessages(turn, turn.pendingMessages);
+  turn.pendingMessages = [];
+}
+
+/**
+ * Saves the messages that make up a reply, after the turn's pending user
+ * message. The last one is the answer: it is stored under the turn's
+ * `replyId` with the persona and model that wrote it, and attributed to the
+ * prompt versions used along with the time since the request started.
+ */
+export async function saveReply(
+  turn: ConversationTurn,
+  messages: NewMessage[],
+  prompts: ResolvedPrompt[] = [],
+) {
+  if (!messages.length) {
+    return;
+  }
+  const { provider, model } = getModelConfig(turn.endpoint);
+  await saveMessages(turn, [
+    ...turn.pendingMessages,
+    ...messages.slice(0, -1),
+    {
+      ...messages[messages.length - 1],
+      id: turn.replyId,
+      persona_id: turn.personaId,
+      model: `${provider}:${model}`,
+    },
+  ]);
+  turn.pendingMessages = [];
+  await recordPromptRuns(turn.client, prompts, {
+    messageId: turn.replyId,
+    latencyMs: Date.now() - turn.startedAt,
+  });
+}
+
+/**
+ * Response headers identifying the conversation and the reply being
+ * streamed.
+ */
+export const conversationHeaders = (turn: ConversationTurn) => ({
+  "x-conversation-id": turn.id,
+  "x-message-id": turn.replyId,
+});
+
+/**
+ * Passes a byte stream through unchanged while collecting its text, then
+ * stores the full reply as an assistant message once the stream finishes.
+ */
+export function persistStreamedReply(
+  stream: ReadableStream<Uint8Array>,
+  turn: ConversationTurn,
+  prompts: ResolvedPrompt[] = [],
+) {
+  const decoder = new TextDecoder();
+  let content = "";
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        content += decoder.decode(chunk, { stream: true });
+        controller.enqueue(chunk);
+      },
+      async flush() {
+        content += decoder.decode();
+        await saveReply(turn, [{ role: "assistant", content }], prompts);
+      },
+    }),
+  );
+}
+
+/**
+ * Flattens the messages produced by one agent run into rows to store: one
+ * `tool` row per tool call (paired with its result by `tool_call_id`, and
+ * numbered by the agent turn that made it) and the final answer as an
+ * `assistant` row.
+ */
+export function agentRunToMessages(messages: BaseMessage[]): NewMessage[] {
+  const observations = new Map<string, string>();
+  for (const message of messages) {
+    if (message._getType() === "tool") {
+      const toolMessage = message as ToolMessage;
+      observations.set(toolMessage.tool_call_id, `${toolMessage.content}`);
+    }
+  }
+
+  const rows: NewMessage[] = [];
+  let turn = 0;
+  for (const message of messages) {
+    if (message._getType() !== "ai") {
+      continue;
+    }
+    const toolCalls = (message as AIMessage).tool_calls ?? [];
+    for (const toolCall of toolCalls) {
+      rows.push({
+        role: "tool",
+        content: observations.get(toolCall.id ?? "") ?? "",
+        tool_calls: [toolCall],
+        agent_turn: turn,
+      });
+    }
+    turn += 1;
+    if (!toolCalls.length) {
+      rows.push({ role: "assistant", content: `${message.content}` });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/** A calendar day, as the date range filters take it. */
+export const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+/**
+ * The day after `date`, both `YYYY-MM-DD` in UTC, to turn an inclusive end
+ * day into an exclusive bound.
+ */
+export const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
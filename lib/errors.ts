@@ -0,0 +1,12 @@
+/**
+ * An error that carries the HTTP status the route handlers should respond
+ * with. The handlers already reply with `e.status ?? 500`.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
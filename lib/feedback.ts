@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+import type { ConversationEndpoint } from "@/lib/conversations";
+
+/**
+ * Feedback on assistant messages.
+ */
+
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+export const FEEDBACK_ENDPOINTS: Record<ConversationEndpoint, string> = {
+  chat: "Chat",
+  agents: "Agents",
+  retrieval: "Retrieval",
+  retrieval_agents: "Retrieval agents",
+};
+
+export const feedbackInputSchema = z.object({
+  messageId: z.string().uuid(),
+  rating: z.enum(FEEDBACK_RATINGS),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export type MessageFeedback = {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  message_id: string;
+  conversation_id: string;
+  endpoint: ConversationEndpoint;
+  rating: FeedbackRating;
+  comment: string | null;
+  /** The user message the rated answer replied to. */
+  question: string | null;
+  answer: string;
+  persona_id: string | null;
+  persona_name: string;
+  model: string | null;
+  source_ids: number[];
+  prompt_versions: { key: string; version: number }[];
+  created_at: string;
+  updated_at: string;
+};
@@ -0,0 +1,46 @@
+/**
+ * File formats accepted by the ingest endpoint, keyed by MIME type.
+ */
+export const SUPPORTED_FILE_TYPES = {
+  "application/pdf": [".pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    ".docx",
+  ],
+  "text/html": [".html", ".htm"],
+  "text/markdown": [".md", ".markdown"],
+  "text/csv": [".csv"],
+  "text/plain": [".txt"],
+} as const;
+
+export type SupportedMimeType = keyof typeof SUPPORTED_FILE_TYPES;
+
+/**
+ * Value for the `accept` attribute of a file input.
+ */
+export const ACCEPTED_FILE_EXTENSIONS = Object.values(SUPPORTED_FILE_TYPES)
+  .flat()
+  .join(",");
+
+/**
+ * Browsers often report an empty or generic type (e.g. for `.md` files), so
+ * the file extension wins over the reported MIME type.
+ */
+export function resolveMimeType(file: {
+  name: string;
+  type: string;
+}): SupportedMimeType | undefined {
+  const name = file.name.toLowerCase();
+  const byExtension = (
+    Object.keys(SUPPORTED_FILE_TYPES) as SupportedMimeType[]
+  ).find((mimeType) =>
+    SUPPORTED_FILE_TYPES[mimeType].some((extension) =>
+      name.endsWith(extension),
+    ),
+  );
+  if (byExtension) {
+    return byExtension;
+  }
+  return file.type in SUPPORTED_FILE_TYPES
+    ? (file.type as SupportedMimeType)
+    : undefined;
+}
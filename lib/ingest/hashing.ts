@@ -0,0 +1,37 @@
+import type { Document } from "@langchain/core/documents";
+
+/**
+ * Hex encoded SHA-256 digest, using Web Crypto so it works in both the
+ * Node.js and edge runtimes.
+ */
+export async function sha256(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Fingerprints everything loaded for a source. Two uploads with the same
+ * fingerprint produce exactly the same chunks for a given splitter config.
+ */
+export function hashSource(documents: Document[]) {
+  return sha256(
+    JSON.stringify(
+      documents.map(({ pageContent, metadata }) => [pageContent, metadata]),
+    ),
+  );
+}
+
+/**
+ * Fingerprints a chunk by its text and where it sits in the source. Line
+ * numbers are left out so that editing one section doesn't change the hash
+ * of every chunk after it.
+ */
+export function hashChunk(chunk: Document) {
+  const { page, row, headingPath } = chunk.metadata;
+  return sha256(JSON.stringify([chunk.pageContent, page, row, headingPath]));
+}
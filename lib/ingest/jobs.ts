@@ -0,0 +1,324 @@
+import { Document } from "@langchain/core/documents";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { HttpError } from "@/lib/errors";
+import { type Workspace, workspaceMetadata } from "@/lib/workspace";
+import {
+  type IngestResult,
+  type LoadedSource,
+  type PreparedSource,
+  commitSource,
+  prepareSource,
+} from "./pipeline";
+import type { SplitterConfig } from "./splitterConfig";
+
+export const INGESTION_JOB_STATUSES = [
+  "queued",
+  "splitting",
+  "embedding",
+  "done",
+  "failed",
+] as const;
+
+export type IngestionJobStatus = (typeof INGESTION_JOB_STATUSES)[number];
+
+/**
+ * Counts reported once a job is done, per source and in total.
+ */
+export type IngestionJobResult = {
+  sources: {
+    id: string;
+    name: string;
+    added: number;
+    unchanged: number;
+    removed: number;
+  }[];
+  added: number;
+  unchanged: number;
+  removed: number;
+};
+
+export type IngestionJob = {
+  id: string;
+  status: IngestionJobStatus;
+  source_names: string[];
+  processed_chunks: number;
+  total_chunks: number;
+  error: string | null;
+  result: IngestionJobResult | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const INGESTION_JOB_COLUMNS =
+  "id, status, source_names, processed_chunks, total_chunks, error, result, created_at, updated_at";
+
+/** A job as the worker claims it, with what it ingests. */
+export type ClaimedIngestionJob = IngestionJob & {
+  user_id: string;
+  workspace_id: string;
+  sources: { name: string; mimeType: string; documents: Document[] }[];
+  splitter_config: SplitterConfig;
+};
+
+const UNFINISHED_STATUSES = ["queued", "splitting", "embedding"];
+
+/**
+ * Queues a job for the loaded sources, which the worker picks up from
+ * `ingestion_jobs`.
+ */
+export async function createIngestionJob(
+  client: SupabaseClient,
+  workspace: Workspace,
+  sources: LoadedSource[],
+  splitterConfig: SplitterConfig,
+) {
+  const { data, error } = await client
+    .from("ingestion_jobs")
+    .insert({
+      ...workspaceMetadata(workspace),
+      source_names: sources.map((source) => source.name),
+      sources: sources.map(({ name, mimeType, documents }) => ({
+        name,
+        mimeType,
+        documents: documents.map(({ pageContent, metadata }) => ({
+          pageContent,
+          metadata,
+        })),
+      })),
+      splitter_config: splitterConfig,
+    })
+    .select(INGESTION_JOB_COLUMNS)
+    .single();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  return data as IngestionJob;
+}
+
+/**
+ * Queues a job that splits a source's stored documents again, e.g. with a
+ * different chunk size. The source is matched by name, so chunks that come
+ * out the same are kept.
+ */
+export async function queueReingestion(
+  client: SupabaseClient,
+  workspace: Workspace,
+  sourceId: string,
+  splitterConfig: SplitterConfig,
+) {
+  const { data, error } = await client
+    .from("document_sources")
+    .select("name, mime_type, documents")
+    .eq("id", sourceId)
+    .maybeSingle();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  if (!data) {
+    throw new HttpError("Document not found", 404);
+  }
+  return createIngestionJob(
+    client,
+    workspace,
+    [
+      {
+        name: data.name,
+        mimeType: data.mime_type,
+        documents: data.documents as Document[],
+      },
+    ],
+    splitterConfig,
+  );
+}
+
+export async function getIngestionJob(client: SupabaseClient, jobId: string) {
+  const { data, error } = await client
+    .from("ingestion_jobs")
+    .select(INGESTION_JOB_COLUMNS)
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  if (!data) {
+    throw new HttpError("Ingestion job not found", 404);
+  }
+  return data as IngestionJob;
+}
+
+/**
+ * Records a job's progress. Only unfinished jobs are updated, so a job that
+ * was cancelled in the meantime stops with a 409.
+ */
+async function updateIngestionJob(
+  client: SupabaseClient,
+  jobId: string,
+  changes: Partial<
+    Pick<
+      IngestionJob,
+      "status" | "processed_chunks" | "total_chunks" | "error" | "result"
+    > & { sources: null }
+  >,
+) {
+  const { data, error } = await client
+    .from("ingestion_jobs")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .in("status", UNFINISHED_STATUSES)
+    .select("id");
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  if (!data?.length) {
+    throw new HttpError("The ingestion job was cancelled", 409);
+  }
+}
+
+/**
+ * Gives up on a job that hasn't finished, marking it failed with `message`.
+ * Its worker stops at the next progress update. Finished jobs are returned
+ * as they are.
+ */
+export async function cancelIngestionJob(
+  client: SupabaseClient,
+  jobId: string,
+  message: string,
+) {
+  const { error } = await client
+    .from("ingestion_jobs")
+    .update({
+      status: "failed",
+      error: message,
+      sources: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", UNFINISHED_STATUSES);
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  return getIngestionJob(client, jobId);
+}
+
+/**
+ * Claims the oldest queued job, if any, for the calling worker.
+ */
+export async function claimIngestionJob(client: SupabaseClient) {
+  const { data, error } = await client.rpc("claim_ingestion_job");
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  return ((data ?? []) as ClaimedIngestionJob[])[0] ?? null;
+}
+
+/**
+ * Fails the jobs that stopped reporting progress for `stalledAfterMs`, e.g.
+ * because the worker running them was stopped.
+ */
+export async function failStalledIngestionJobs(
+  client: SupabaseClient,
+  stalledAfterMs: number,
+) {
+  const { error } = await client
+    .from("ingestion_jobs")
+    .update({
+      status: "failed",
+      error:
+        "The ingestion job stopped making progress. Upload the same files again to pick up where it stopped.",
+      sources: null,
+      updated_at: new Date().toISOString(),
+    })
+    .in("status", ["splitting", "embedding"])
+    .lt("updated_at", new Date(Date.now() - stalledAfterMs).toISOString());
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+}
+
+const summarize = (results: IngestResult[]): IngestionJobResult => {
+  const sum = (key: "added" | "unchanged" | "removed") =>
+    results.reduce((total, result) => total + result[key], 0);
+  return {
+    sources: results.map(({ source, added, unchanged, removed }) => ({
+      id: source.id,
+      name: source.name,
+      added,
+      unchanged,
+      removed,
+    })),
+    added: sum("added"),
+    unchanged: sum("unchanged"),
+    removed: sum("removed"),
+  };
+};
+
+/**
+ * Runs a claimed job: splits every source (`splitting`), then embeds the
+ * chunks that changed (`embedding`), recording progress after each source
+ * and batch. Never throws; failures are stored on the job instead.
+ */
+export async function runIngestionJob(
+  client: SupabaseClient,
+  job: ClaimedIngestionJob,
+) {
+  const workspace: Workspace = {
+    userId: job.user_id,
+    workspaceId: job.workspace_id,
+  };
+  try {
+    const prepared: PreparedSource[] = [];
+    for (const { documents, ...source } of job.sources) {
+      prepared.push(
+        await prepareSource(
+          client,
+          workspace,
+          {
+            ...source,
+            documents: documents.map((document) => new Document(document)),
+          },
+          job.splitter_config,
+        ),
+      );
+      // Keeps the job from looking stalled while large sources are split
+      await updateIngestionJob(client, job.id, {});
+    }
+
+    let processed = 0;
+    await updateIngestionJob(client, job.id, {
+      status: "embedding",
+      total_chunks: prepared.reduce(
+        (total, source) => total + source.added.length,
+        0,
+      ),
+    });
+    const results: IngestResult[] = [];
+    for (const source of prepared) {
+      results.push(
+        await commitSource(client, workspace, source, async (embedded) => {
+          processed += embedded;
+          await updateIngestionJob(client, job.id, {
+            processed_chunks: processed,
+          });
+        }),
+      );
+    }
+
+    await updateIngestionJob(client, job.id, {
+      status: "done",
+      result: summarize(results),
+      sources: null,
+    });
+  } catch (e: any) {
+    const message =
+      e.status === 502
+        ? `${e.message}. Chunks embedded so far were kept, so uploading the same files again picks up where this job stopped.`
+        : e.message;
+    // If this fails too, the job is failed once it counts as stalled
+    await updateIngestionJob(client, job.id, {
+      status: "failed",
+      error: message,
+      sources: null,
+    }).catch(() => undefined);
+  }
+}
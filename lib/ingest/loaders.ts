@@ -0,0 +1,208 @@
+import { CSVLoader } from "@langchain/community/document_loaders/fs/csv";
+import { WebPDFLoader } from "@langchain/community/document_loaders/web/pdf";
+import { Document } from "@langchain/core/documents";
+import { load as loadHtml } from "cheerio";
+import mammoth from "mammoth";
+
+import { HttpError } from "@/lib/errors";
+import { type SupportedMimeType, resolveMimeType } from "./fileTypes";
+import { sha256 } from "./hashing";
+
+/**
+ * Metadata every loader attaches to the documents it returns. The text
+ * splitter copies it onto each chunk, where `ChatMessageBubble` uses it to
+ * say where a source came from.
+ */
+export type SourceMetadata = {
+  source: string;
+  mimeType: SupportedMimeType;
+  page?: number;
+  totalPages?: number;
+  headingPath?: string[];
+  row?: number;
+};
+
+type Loader = (blob: Blob, metadata: SourceMetadata) => Promise<Document[]>;
+
+export class UnsupportedFileTypeError extends HttpError {
+  constructor(fileName: string) {
+    super(`Unsupported file type: ${fileName}`, 415);
+  }
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Tracks the current heading hierarchy while walking a document, and turns
+ * the text collected under each heading into a separate document.
+ */
+class SectionBuilder {
+  private headings: { level: number; title: string }[] = [];
+
+  private lines: string[] = [];
+
+  readonly documents: Document[] = [];
+
+  constructor(private metadata: SourceMetadata) {}
+
+  heading(level: number, title: string) {
+    this.flush();
+    while (
+      this.headings.length &&
+      this.headings[this.headings.length - 1].level >= level
+    ) {
+      this.headings.pop();
+    }
+    this.headings.push({ level, title });
+    this.lines.push(`${"#".repeat(level)} ${title}`);
+  }
+
+  text(line: string) {
+    this.lines.push(line);
+  }
+
+  flush() {
+    const pageContent = this.lines.join("\n").trim();
+    this.lines = [];
+    if (!pageContent) {
+      return;
+    }
+    this.documents.push(
+      new Document({
+        pageContent,
+        metadata: {
+          ...this.metadata,
+          headingPath: this.headings.map((heading) => heading.title),
+        },
+      }),
+    );
+  }
+}
+
+/**
+ * The source name of pasted text. Without a `name`, it is named after its
+ * content hash, so unrelated pastes don't replace each other while pasting
+ * the same text again is still recognised as the same source.
+ */
+export async function pastedSourceName(text: string, name?: string) {
+  return name?.trim() || `Pasted text ${(await sha256(text)).slice(0, 8)}`;
+}
+
+export function loadMarkdown(text: string, metadata: SourceMetadata) {
+  const sections = new SectionBuilder(metadata);
+  let inCodeFence = false;
+  for (const line of text.split("\n")) {
+    if (FENCE_PATTERN.test(line)) {
+      inCodeFence = !inCodeFence;
+    }
+    const heading = inCodeFence ? null : HEADING_PATTERN.exec(line);
+    if (heading) {
+      sections.heading(heading[1].length, heading[2]);
+    } else {
+      sections.text(line);
+    }
+  }
+  sections.flush();
+  return sections.documents;
+}
+
+const HTML_BLOCK_SELECTOR = "p, li, pre, blockquote, td, th, dt, dd";
+
+export function loadHtmlString(html: string, metadata: SourceMetadata) {
+  const $ = loadHtml(html);
+  $("script, style, noscript, nav, footer, svg").remove();
+
+  const sections = new SectionBuilder(metadata);
+  $("body")
+    .find(`h1, h2, h3, h4, h5, h6, ${HTML_BLOCK_SELECTOR}`)
+    .each((_, element) => {
+      const node = $(element);
+      const tagName = element.tagName.toLowerCase();
+      if (/^h[1-6]$/.test(tagName)) {
+        sections.heading(Number(tagName[1]), node.text().trim());
+        return;
+      }
+      // Nested blocks (e.g. a <p> inside an <li>) are read with their parent
+      if (node.parents(HTML_BLOCK_SELECTOR).length) {
+        return;
+      }
+      const text =
+        tagName === "pre"
+          ? node.text()
+          : node.text().replace(/\s+/g, " ").trim();
+      if (text) {
+        sections.text(tagName === "li" ? `- ${text}` : text);
+      }
+    });
+  sections.flush();
+
+  if (!sections.documents.length) {
+    const text = $("body").text().replace(/\s+/g, " ").trim();
+    return text ? [new Document({ pageContent: text, metadata })] : [];
+  }
+  return sections.documents;
+}
+
+const loadPdf: Loader = async (blob, metadata) => {
+  const pages = await new WebPDFLoader(blob, { splitPages: true }).load();
+  return pages.map(
+    (page) =>
+      new Document({
+        pageContent: page.pageContent,
+        metadata: {
+          ...metadata,
+          page: page.metadata.loc?.pageNumber,
+          totalPages: page.metadata.pdf?.totalPages,
+        },
+      }),
+  );
+};
+
+/**
+ * DOCX files are converted to HTML first so headings survive and can be
+ * tracked the same way as for web pages.
+ */
+const loadDocx: Loader = async (blob, metadata) => {
+  const { value: html } = await mammoth.convertToHtml({
+    buffer: Buffer.from(await blob.arrayBuffer()),
+  });
+  return loadHtmlString(html, metadata);
+};
+
+const loadCsv: Loader = async (blob, metadata) => {
+  const rows = await new CSVLoader(blob).load();
+  return rows.map(
+    (row) =>
+      new Document({
+        pageContent: row.pageContent,
+        metadata: { ...metadata, row: row.metadata.line },
+      }),
+  );
+};
+
+const LOADERS: Record<SupportedMimeType, Loader> = {
+  "application/pdf": loadPdf,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    loadDocx,
+  "text/html": async (blob, metadata) =>
+    loadHtmlString(await blob.text(), metadata),
+  "text/markdown": async (blob, metadata) =>
+    loadMarkdown(await blob.text(), metadata),
+  "text/csv": loadCsv,
+  "text/plain": async (blob, metadata) => [
+    new Document({ pageContent: await blob.text(), metadata }),
+  ],
+};
+
+/**
+ * Picks a loader based on the file's extension or MIME type and returns one
+ * document per page, section or row, depending on the format.
+ */
+export async function loadFile(file: File): Promise<Document[]> {
+  const mimeType = resolveMimeType(file);
+  if (!mimeType) {
+    throw new UnsupportedFileTypeError(file.name);
+  }
+  return LOADERS[mimeType](file, { source: file.name, mimeType });
+}
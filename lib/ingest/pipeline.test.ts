@@ -0,0 +1,145 @@
+import { Document } from "@langchain/core/documents";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { FakeEmbeddings } from "@/lib/models/fake";
+import { LocalChunkStore } from "@/lib/retrieval/localStore";
+import type { Workspace } from "@/lib/workspace";
+import { hashChunk } from "./hashing";
+import { loadMarkdown, pastedSourceName } from "./loaders";
+import { planChunks } from "./pipeline";
+import { DEFAULT_SPLITTER_CONFIG } from "./splitterConfig";
+
+const source = {
+  id: "source",
+  tags: ["faq"],
+  status: "published" as const,
+  created_at: "2024-11-20T10:00:00.000Z",
+};
+
+/** Markdown with one short section per entry, so one chunk per section. */
+const markdown = (sections: string[]) =>
+  sections
+    .map((section, i) => `# Section ${i}\n\n${section} is described here.`)
+    .join("\n\n");
+
+let workspace: Workspace;
+let store: LocalChunkStore;
+
+/** Plans an upload of `sections`, then applies the plan to the store. */
+const upload = async (sections: string[]) => {
+  const plan = await planChunks(
+    store,
+    workspace,
+    source,
+    loadMarkdown(markdown(sections), {
+      source: "notes.md",
+      mimeType: "text/markdown",
+    }),
+    DEFAULT_SPLITTER_CONFIG,
+  );
+  await store.deleteChunks(source.id, plan.removed);
+  await store.addDocuments(plan.added);
+  return plan;
+};
+
+const storedContents = async () =>
+  (await store.getSourceChunks(source.id, 0, 100)).items
+    .map((chunk) => chunk.content)
+    .sort();
+
+beforeEach(() => {
+  const id = crypto.randomUUID();
+  workspace = { userId: `user-${id}`, workspaceId: `ws-${id}` };
+  store = new LocalChunkStore(workspace, new FakeEmbeddings());
+});
+
+describe("planChunks", () => {
+  it("adds every chunk of a new source with its metadata", async () => {
+    const plan = await upload(["Apples", "Pears"]);
+
+    expect(plan).toMatchObject({ unchanged: 0, removed: [] });
+    expect(plan.added).toHaveLength(2);
+    expect(plan.added[0].metadata).toMatchObject({
+      user_id: workspace.userId,
+      workspace_id: workspace.workspaceId,
+      source_id: source.id,
+      content_hash: await hashChunk(plan.added[0]),
+      tags: ["faq"],
+      status: "published",
+      created_at: source.created_at,
+    });
+  });
+
+  it("changes nothing when the same source is uploaded again", async () => {
+    await upload(["Apples", "Pears"]);
+    const plan = await upload(["Apples", "Pears"]);
+
+    expect(plan).toEqual({ added: [], removed: [], unchanged: 2 });
+  });
+
+  it("only replaces the chunks that changed", async () => {
+    await upload(["Apples", "Pears", "Plums"]);
+    const [, pears] = await store.listChunkHashes(source.id);
+    const plan = await upload(["Apples", "Quinces", "Plums"]);
+
+    expect(plan.added.map((chunk) => chunk.pageContent)).toEqual([
+      "# Section 1\n\nQuinces is described here.",
+    ]);
+    expect(plan.removed).toEqual([pears.id]);
+    expect(plan.unchanged).toBe(2);
+    expect(await storedContents()).toEqual([
+      "# Section 0\n\nApples is described here.",
+      "# Section 1\n\nQuinces is described here.",
+      "# Section 2\n\nPlums is described here.",
+    ]);
+  });
+
+  it("removes the chunks that no longer exist", async () => {
+    await upload(["Apples", "Pears"]);
+    const [, pears] = await store.listChunkHashes(source.id);
+    const plan = await upload(["Apples"]);
+
+    expect(plan).toEqual({ added: [], removed: [pears.id], unchanged: 1 });
+    expect(await storedContents()).toEqual([
+      "# Section 0\n\nApples is described here.",
+    ]);
+  });
+});
+
+describe("hashChunk", () => {
+  const chunk = (metadata: Record<string, any>) =>
+    new Document({ pageContent: "Apples are red.", metadata });
+
+  it("ignores line numbers, but not where the chunk sits", async () => {
+    const hash = await hashChunk(
+      chunk({ headingPath: ["Fruit"], loc: { lines: { from: 1, to: 1 } } }),
+    );
+    expect(
+      await hashChunk(
+        chunk({ headingPath: ["Fruit"], loc: { lines: { from: 9, to: 9 } } }),
+      ),
+    ).toBe(hash);
+    expect(await hashChunk(chunk({ headingPath: ["Vegetables"] }))).not.toBe(
+      hash,
+    );
+    expect(
+      await hashChunk(chunk({ headingPath: ["Fruit"], page: 2 })),
+    ).not.toBe(hash);
+  });
+});
+
+describe("pastedSourceName", () => {
+  it("gives unnamed pastes distinct names that are stable", async () => {
+    const first = await pastedSourceName("Apples are red.");
+    const second = await pastedSourceName("Pears are green.", "  ");
+
+    expect(first).toMatch(/^Pasted text [0-9a-f]{8}$/);
+    expect(second).toMatch(/^Pasted text [0-9a-f]{8}$/);
+    expect(second).not.toBe(first);
+    expect(await pastedSourceName("Apples are red.")).toBe(first);
+  });
+
+  it("keeps the name it was given", async () => {
+    expect(await pastedSourceName("Apples are red.", " Fruit ")).toBe("Fruit");
+  });
+});
@@ -0,0 +1,329 @@
+import type { Document } from "@langchain/core/documents";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { HttpError } from "@/lib/errors";
+import type { SourceStatus } from "@/lib/retrieval/options";
+import { type ChunkStore, getChunkStore } from "@/lib/retrieval/store";
+import { type Workspace, workspaceMetadata } from "@/lib/workspace";
+import { hashChunk, hashSource } from "./hashing";
+import {
+  DEFAULT_SPLITTER_CONFIG,
+  type SplitterConfig,
+  isSameSplitterConfig,
+  readSplitterConfig,
+} from "./splitterConfig";
+import { splitDocuments } from "./splitters";
+
+/**
+ * A file or pasted text after loading, before it is split into chunks.
+ */
+export type LoadedSource = {
+  name: string;
+  mimeType: string;
+  documents: Document[];
+};
+
+export type DocumentSource = {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  name: string;
+  mime_type: string;
+  splitter_config: SplitterConfig;
+  chunk_count: number;
+  tags: string[];
+  status: SourceStatus;
+  created_at: string;
+  updated_at: string;
+};
+
+export const DOCUMENT_SOURCE_COLUMNS =
+  "id, user_id, workspace_id, name, mime_type, splitter_config, chunk_count, tags, status, created_at, updated_at";
+
+/**
+ * Reads a `document_sources` row, upgrading splitter configs stored before
+ * strategies existed.
+ */
+export const toDocumentSource = ({
+  content_hash,
+  ...row
+}: Record<string, any>): DocumentSource => ({
+  ...(row as DocumentSource),
+  splitter_config: readSplitterConfig(row.splitter_config),
+});
+
+/**
+ * The fields of a source that are copied onto each of its chunks, so the
+ * retrieval filters can use them.
+ */
+type SourceMetadata = Pick<
+  DocumentSource,
+  "id" | "tags" | "status" | "created_at"
+>;
+
+const SOURCE_METADATA_COLUMNS = "id, tags, status, created_at";
+
+/**
+ * What an ingest changed: chunks that were embedded, chunks that were kept
+ * because an identical one already existed, and stale chunks that were
+ * deleted.
+ */
+export type IngestResult = {
+  source: DocumentSource;
+  added: number;
+  unchanged: number;
+  removed: number;
+};
+
+type SourceChanges = Partial<
+  Pick<DocumentSource, "chunk_count" | "mime_type" | "splitter_config">
+> & { documents?: unknown; content_hash?: string };
+
+/**
+ * A source whose documents have been split and compared with the chunks
+ * already stored for it, but not yet embedded.
+ */
+export type PreparedSource = {
+  sourceId: string;
+  added: Document[];
+  removed: number[];
+  unchanged: number;
+  /** Written to the source once all of its chunks are committed. */
+  changes: SourceChanges;
+  /** Set when nothing changed, in which case committing is a no-op. */
+  current?: DocumentSource;
+};
+
+/**
+ * Called after each embedding batch with the number of chunks it stored.
+ */
+export type EmbedProgressHandler = (embedded: number) => void | Promise<void>;
+
+const EMBEDDING_BATCH_SIZE = 64;
+const EMBEDDING_ATTEMPTS = 3;
+
+/**
+ * Retries a failing call with exponential backoff (1s, 2s, 4s, ...).
+ */
+async function withRetry<T>(fn: () => Promise<T>, attempts: number) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= attempts) {
+        throw e;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, 1000 * 2 ** (attempt - 1)),
+      );
+    }
+  }
+}
+
+/**
+ * Splits a source's documents and compares the result with the chunks
+ * already stored for it. Chunks are matched by content hash, so only new
+ * chunks need embedding and only chunks that no longer exist are removed.
+ */
+export async function planChunks(
+  store: ChunkStore,
+  workspace: Workspace,
+  source: SourceMetadata,
+  documents: Document[],
+  splitterConfig: SplitterConfig,
+) {
+  const chunks = await splitDocuments(documents, splitterConfig);
+
+  // Identical chunks can appear more than once in a source, so keep every id
+  const existing = new Map<string | null, number[]>();
+  for (const row of await store.listChunkHashes(source.id)) {
+    existing.set(row.content_hash, [
+      ...(existing.get(row.content_hash) ?? []),
+      row.id,
+    ]);
+  }
+
+  const added: Document[] = [];
+  for (const chunk of chunks) {
+    const contentHash = await hashChunk(chunk);
+    const ids = existing.get(contentHash);
+    if (ids?.length) {
+      ids.pop();
+      continue;
+    }
+    Object.assign(chunk.metadata, workspaceMetadata(workspace), {
+      source_id: source.id,
+      content_hash: contentHash,
+      tags: source.tags,
+      status: source.status,
+      created_at: source.created_at,
+    });
+    added.push(chunk);
+  }
+  return {
+    added,
+    removed: Array.from(existing.values()).flat(),
+    unchanged: chunks.length - added.length,
+  };
+}
+
+/**
+ * Resolves a loaded source to its row in `document_sources`, identified by
+ * name within the workspace, and works out which chunks have to change. A
+ * new name creates the row with its documents, so it can be re-split from
+ * the library; its fingerprint is only stored on commit, so a failed ingest
+ * is picked up again by the next upload.
+ */
+export async function prepareSource(
+  client: SupabaseClient,
+  workspace: Workspace,
+  source: LoadedSource,
+  splitterConfig: SplitterConfig = DEFAULT_SPLITTER_CONFIG,
+): Promise<PreparedSource> {
+  const contentHash = await hashSource(source.documents);
+  const { data: existing, error } = await client
+    .from("document_sources")
+    .select(`${DOCUMENT_SOURCE_COLUMNS}, content_hash`)
+    .eq("workspace_id", workspace.workspaceId)
+    .eq("name", source.name)
+    .maybeSingle();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  if (
+    existing?.content_hash === contentHash &&
+    isSameSplitterConfig(
+      readSplitterConfig(existing.splitter_config),
+      splitterConfig,
+    )
+  ) {
+    return {
+      sourceId: existing.id,
+      added: [],
+      removed: [],
+      unchanged: existing.chunk_count,
+      changes: {},
+      current: toDocumentSource(existing),
+    };
+  }
+
+  const documents = source.documents.map(({ pageContent, metadata }) => ({
+    pageContent,
+    metadata,
+  }));
+  let row = existing as SourceMetadata | null;
+  if (!row) {
+    const { data, error } = await client
+      .from("document_sources")
+      .insert({
+        ...workspaceMetadata(workspace),
+        name: source.name,
+        mime_type: source.mimeType,
+        documents,
+        splitter_config: splitterConfig,
+      })
+      .select(SOURCE_METADATA_COLUMNS)
+      .single();
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    row = data as SourceMetadata;
+  }
+
+  const plan = await planChunks(
+    getChunkStore(client, workspace),
+    workspace,
+    row,
+    source.documents,
+    splitterConfig,
+  );
+  return {
+    ...plan,
+    sourceId: row.id,
+    changes: {
+      mime_type: source.mimeType,
+      documents,
+      content_hash: contentHash,
+      splitter_config: splitterConfig,
+    },
+  };
+}
+
+/**
+ * Deletes a prepared source's stale chunks and embeds its new ones in
+ * batches, retrying each batch with backoff before giving up. Chunks that
+ * were stored before a failure are kept and recognised as unchanged next
+ * time.
+ */
+export async function commitSource(
+  client: SupabaseClient,
+  workspace: Workspace,
+  prepared: PreparedSource,
+  onProgress?: EmbedProgressHandler,
+): Promise<IngestResult> {
+  const { sourceId, added, removed, unchanged } = prepared;
+  const counts = { added: added.length, unchanged, removed: removed.length };
+  if (prepared.current) {
+    return { ...counts, source: prepared.current };
+  }
+
+  const store = getChunkStore(client, workspace);
+  if (removed.length) {
+    await store.deleteChunks(sourceId, removed);
+  }
+  for (let i = 0; i < added.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = added.slice(i, i + EMBEDDING_BATCH_SIZE);
+    try {
+      await withRetry(() => store.addDocuments(batch), EMBEDDING_ATTEMPTS);
+    } catch (e: any) {
+      throw new HttpError(
+        `Embedding failed after ${EMBEDDING_ATTEMPTS} attempts: ${e.message}`,
+        502,
+      );
+    }
+    await onProgress?.(batch.length);
+  }
+
+  return {
+    ...counts,
+    source: await updateSource(client, sourceId, {
+      ...prepared.changes,
+      chunk_count: added.length + unchanged,
+    }),
+  };
+}
+
+/**
+ * Deletes a source together with all of its embedded chunks.
+ */
+export async function deleteSource(
+  client: SupabaseClient,
+  workspace: Workspace,
+  sourceId: string,
+) {
+  await getChunkStore(client, workspace).deleteChunks(sourceId);
+  const { error } = await client
+    .from("document_sources")
+    .delete()
+    .eq("id", sourceId);
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+}
+
+async function updateSource(
+  client: SupabaseClient,
+  sourceId: string,
+  changes: SourceChanges,
+) {
+  const { data, error } = await client
+    .from("document_sources")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", sourceId)
+    .select(DOCUMENT_SOURCE_COLUMNS)
+    .single();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  return toDocumentSource(data);
+}
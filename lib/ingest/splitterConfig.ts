@@ -0,0 +1,108 @@
+import type { SupportedTextSplitterLanguage } from "langchain/text_splitter";
+import { z } from "zod";
+
+/**
+ * Splitter settings shared by the ingest API, the upload form and the
+ * library.
+ */
+
+export const SPLITTER_STRATEGIES = {
+  recursive: "Recursive (language-aware)",
+  token: "Token-based",
+  markdown_headings: "Markdown headings",
+  sentence: "Sentences",
+} as const;
+
+export type SplitterStrategy = keyof typeof SPLITTER_STRATEGIES;
+
+export const SPLITTER_LANGUAGES = [
+  "markdown",
+  "html",
+  "latex",
+  "rst",
+  "js",
+  "python",
+  "go",
+  "java",
+  "cpp",
+  "rust",
+  "ruby",
+  "php",
+  "scala",
+  "swift",
+  "proto",
+  "sol",
+] as const satisfies readonly SupportedTextSplitterLanguage[];
+
+const chunkSettings = {
+  chunkSize: z.number().int().min(64).max(8000),
+  chunkOverlap: z.number().int().min(0).max(2000),
+};
+
+/**
+ * Sizes are measured in tokens for the `token` strategy and in characters
+ * for the others. Configs stored before strategies existed have no
+ * `strategy` and are read as recursive Markdown, which is what they used.
+ */
+export const splitterConfigSchema = z.preprocess(
+  (value) =>
+    value && typeof value === "object" && !("strategy" in value)
+      ? { strategy: "recursive", language: "markdown", ...value }
+      : value,
+  z
+    .discriminatedUnion("strategy", [
+      z.object({
+        strategy: z.literal("recursive"),
+        // Plain prose is split on paragraphs, lines and words
+        language: z.enum(SPLITTER_LANGUAGES).optional(),
+        ...chunkSettings,
+      }),
+      z.object({ strategy: z.literal("token"), ...chunkSettings }),
+      z.object({ strategy: z.literal("markdown_headings"), ...chunkSettings }),
+      z.object({ strategy: z.literal("sentence"), ...chunkSettings }),
+    ])
+    .refine((config) => config.chunkOverlap < config.chunkSize, {
+      message: "Chunk overlap must be smaller than the chunk size",
+      path: ["chunkOverlap"],
+    }),
+);
+
+export type SplitterConfig = z.infer<typeof splitterConfigSchema>;
+
+export const DEFAULT_SPLITTER_CONFIG: SplitterConfig = {
+  strategy: "recursive",
+  language: "markdown",
+  chunkSize: 1000,
+  chunkOverlap: 150,
+};
+
+/**
+ * Short description of a config for the library and upload form, e.g.
+ * "Recursive (language-aware), markdown · size 1000, overlap 150".
+ */
+export function describeSplitterConfig(config: SplitterConfig) {
+  const language =
+    config.strategy === "recursive" && config.language
+      ? `, ${config.language}`
+      : "";
+  const unit = config.strategy === "token" ? " tokens" : "";
+  return `${SPLITTER_STRATEGIES[config.strategy]}${language} · size ${config.chunkSize}${unit}, overlap ${config.chunkOverlap}`;
+}
+
+/**
+ * Reads a config stored in `document_sources`, falling back to the default
+ * for anything that no longer validates.
+ */
+export function readSplitterConfig(value: unknown): SplitterConfig {
+  const parsed = splitterConfigSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_SPLITTER_CONFIG;
+}
+
+export function isSameSplitterConfig(a: SplitterConfig, b: SplitterConfig) {
+  const keys = ["strategy", "language", "chunkSize", "chunkOverlap"];
+  return keys.every(
+    (key) =>
+      (a as Record<string, unknown>)[key] ===
+      (b as Record<string, unknown>)[key],
+  );
+}
@@ -0,0 +1,97 @@
+import type { Document } from "@langchain/core/documents";
+import {
+  RecursiveCharacterTextSplitter,
+  TextSplitter,
+  TokenTextSplitter,
+} from "langchain/text_splitter";
+
+import { type SourceMetadata, loadMarkdown } from "./loaders";
+import type { SplitterConfig } from "./splitterConfig";
+
+/**
+ * Packs whole sentences into chunks, so no chunk starts or ends mid
+ * sentence. Sentences longer than a chunk are split on words instead.
+ */
+class SentenceTextSplitter extends TextSplitter {
+  static lc_name() {
+    return "SentenceTextSplitter";
+  }
+
+  private segmenter = new Intl.Segmenter(undefined, {
+    granularity: "sentence",
+  });
+
+  async splitText(text: string) {
+    const fallback = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: 0,
+    });
+    const sentences: string[] = [];
+    for (const { segment } of Array.from(this.segmenter.segment(text))) {
+      if (segment.length > this.chunkSize) {
+        sentences.push(...(await fallback.splitText(segment)));
+      } else {
+        sentences.push(segment);
+      }
+    }
+    return this.mergeSplits(sentences, "");
+  }
+}
+
+/**
+ * Splits every document into its Markdown sections first, then splits
+ * sections that are still too long. Documents that a loader already split
+ * by heading (Markdown, HTML and DOCX files) are kept as they are.
+ */
+async function splitByHeadings(
+  documents: Document[],
+  splitter: RecursiveCharacterTextSplitter,
+) {
+  const sections = documents.flatMap((document) =>
+    document.metadata.headingPath
+      ? [document]
+      : loadMarkdown(document.pageContent, document.metadata as SourceMetadata),
+  );
+  return splitter.splitDocuments(sections);
+}
+
+/**
+ * Splits loaded documents into chunks with the configured strategy. Every
+ * chunk keeps the metadata of the document it came from.
+ */
+export async function splitDocuments(
+  documents: Document[],
+  config: SplitterConfig,
+): Promise<Document[]> {
+  const { chunkSize, chunkOverlap } = config;
+  switch (config.strategy) {
+    case "recursive":
+      return (
+        config.language
+          ? RecursiveCharacterTextSplitter.fromLanguage(config.language, {
+              chunkSize,
+              chunkOverlap,
+            })
+          : new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap })
+      ).splitDocuments(documents);
+    case "token":
+      return new TokenTextSplitter({
+        encodingName: "cl100k_base",
+        chunkSize,
+        chunkOverlap,
+      }).splitDocuments(documents);
+    case "markdown_headings":
+      return splitByHeadings(
+        documents,
+        RecursiveCharacterTextSplitter.fromLanguage("markdown", {
+          chunkSize,
+          chunkOverlap,
+        }),
+      );
+    case "sentence":
+      return new SentenceTextSplitter({
+        chunkSize,
+        chunkOverlap,
+      }).splitDocuments(documents);
+  }
+}
@@ -0,0 +1,57 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  claimIngestionJob,
+  failStalledIngestionJobs,
+  runIngestionJob,
+} from "./jobs";
+
+const POLL_INTERVAL_MS = 2000;
+
+/** How long a running job can go without reporting progress. */
+const STALLED_JOB_MS = 10 * 60 * 1000;
+
+/** Whether the worker has what it needs to run, i.e. the service role key. */
+export const isIngestionWorkerConfigured = () =>
+  Boolean(
+    process.env.NEXT_PUBLIC_SUPABASE_URL &&
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+  );
+
+/**
+ * Claims and runs queued jobs one at a time until none are left. Returns how
+ * many it ran.
+ */
+export async function drainIngestionJobs(client: SupabaseClient) {
+  let ran = 0;
+  for (
+    let job = await claimIngestionJob(client);
+    job;
+    job = await claimIngestionJob(client)
+  ) {
+    await runIngestionJob(client, job);
+    ran += 1;
+  }
+  return ran;
+}
+
+/**
+ * Runs queued ingestion jobs in the background of the Node.js server,
+ * started from `instrumentation.ts`. Polls `ingestion_jobs` for jobs to
+ * claim, and fails jobs whose worker stopped. Any number of servers can run
+ * one, as each job is only claimed once.
+ */
+export function startIngestionWorker() {
+  const client = createSupabaseServiceClient();
+  const poll = async () => {
+    try {
+      await failStalledIngestionJobs(client, STALLED_JOB_MS);
+      await drainIngestionJobs(client);
+    } catch {
+      // Supabase couldn't be reached; try again at the next poll
+    }
+    setTimeout(poll, POLL_INTERVAL_MS);
+  };
+  void poll();
+}
@@ -0,0 +1,276 @@
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { Embeddings, type EmbeddingsParams } from "@langchain/core/embeddings";
+import type {
+  BaseLanguageModelInput,
+  StructuredOutputMethodOptions,
+  ToolDefinition,
+} from "@langchain/core/language_models/base";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessageChunk,
+  type BaseMessage,
+  type MessageContent,
+} from "@langchain/core/messages";
+import {
+  type ChatGeneration,
+  ChatGenerationChunk,
+  type ChatResult,
+} from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import type { z } from "zod";
+
+export interface FakeChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: ToolDefinition[];
+}
+
+export interface FakeChatModelInput extends BaseChatModelParams {
+  /**
+   * Calls the first bound tool instead of replying with text. Set for
+   * structured output, which is read from a tool call.
+   */
+  callTools?: boolean;
+}
+
+const textOf = (content: MessageContent) =>
+  typeof content === "string"
+    ? content
+    : content.map((part) => (part.type === "text" ? part.text : "")).join("");
+
+const countTokens = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * The simplest value that matches a JSON schema: the first enum value or
+ * union member, the minimum number, and so on.
+ */
+const fakeValue = (schema: Record<string, any>): unknown => {
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union?.length) {
+    return fakeValue(union[0]);
+  }
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "string":
+      return "fake";
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "array":
+      return [];
+    case "null":
+      return null;
+    default:
+      return Object.fromEntries(
+        Object.entries<Record<string, any>>(schema.properties ?? {}).map(
+          ([key, property]) => [key, fakeValue(property)],
+        ),
+      );
+  }
+};
+
+/**
+ * A chat model that answers without any network access, so the app runs and
+ * can be tested offline. It replies by quoting the last human message, word
+ * by word when streamed, and reports one token per word. Bound tools are
+ * only called for structured output, with the simplest arguments that match
+ * their schema, so agents answer straight away.
+ */
+export class FakeChatModel extends BaseChatModel<
+  FakeChatModelCallOptions,
+  AIMessageChunk
+> {
+  static lc_name() {
+    return "FakeChatModel";
+  }
+
+  callTools: boolean;
+
+  constructor(fields: FakeChatModelInput = {}) {
+    super(fields);
+    this.callTools = fields.callTools ?? false;
+  }
+
+  _llmType() {
+    return "fake";
+  }
+
+  getLsParams(options: this["ParsedCallOptions"]) {
+    return {
+      ...super.getLsParams(options),
+      ls_provider: "fake",
+      ls_model_name: "fake",
+    };
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<FakeChatModelCallOptions>,
+  ): Runnable<
+    BaseLanguageModelInput,
+    AIMessageChunk,
+    FakeChatModelCallOptions
+  > {
+    return this.bind({
+      tools: tools.map((tool) => convertToOpenAITool(tool)),
+      ...kwargs,
+    });
+  }
+
+  withStructuredOutput<
+    RunOutput extends Record<string, any> = Record<string, any>,
+  >(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<false>,
+  ): Runnable<BaseLanguageModelInput, RunOutput>;
+
+  withStructuredOutput<
+    RunOutput extends Record<string, any> = Record<string, any>,
+  >(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<true>,
+  ): Runnable<BaseLanguageModelInput, { raw: BaseMessage; parsed: RunOutput }>;
+
+  withStructuredOutput<
+    RunOutput extends Record<string, any> = Record<string, any>,
+  >(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<boolean>,
+  ) {
+    const model = new FakeChatModel({ callTools: true });
+    return super.withStructuredOutput.call(
+      model,
+      outputSchema,
+      config as StructuredOutputMethodOptions<true>,
+    );
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const inputTokens = countTokens(
+      messages.map((message) => textOf(message.content)).join(" "),
+    );
+    const tool = this.callTools ? options.tools?.[0] : undefined;
+    if (tool) {
+      yield new ChatGenerationChunk({
+        text: "",
+        message: new AIMessageChunk({
+          content: "",
+          tool_call_chunks: [
+            {
+              name: tool.function.name,
+              args: JSON.stringify(fakeValue(tool.function.parameters)),
+              id: "fake_tool_call_0",
+              index: 0,
+              type: "tool_call_chunk",
+            },
+          ],
+          usage_metadata: {
+            input_tokens: inputTokens,
+            output_tokens: 0,
+            total_tokens: inputTokens,
+          },
+        }),
+      });
+      return;
+    }
+
+    const question = messages.findLast(
+      (message) => message._getType() === "human",
+    );
+    const reply = `This is a fake reply to "${
+      question ? textOf(question.content).trim() : ""
+    }".`;
+    const words = reply.split(/(?<= )/);
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      const last = i === words.length - 1;
+      yield new ChatGenerationChunk({
+        text: word,
+        message: new AIMessageChunk({
+          content: word,
+          usage_metadata: last
+            ? {
+                input_tokens: inputTokens,
+                output_tokens: words.length,
+                total_tokens: inputTokens + words.length,
+              }
+            : undefined,
+        }),
+      });
+      await runManager?.handleLLMNewToken(word);
+    }
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    let generation: ChatGenerationChunk | undefined;
+    for await (const chunk of this._streamResponseChunks(
+      messages,
+      options,
+      runManager,
+    )) {
+      generation = generation ? generation.concat(chunk) : chunk;
+    }
+    return { generations: generation ? [generation as ChatGeneration] : [] };
+  }
+}
+
+export interface FakeEmbeddingsInput extends EmbeddingsParams {
+  /** Defaults to 1536, the size of the `documents.embedding` column. */
+  dimensions?: number;
+}
+
+/**
+ * Embeddings computed locally by hashing each word of a text into one of
+ * `dimensions` buckets. Texts that share words end up close together, which
+ * is enough for retrieval to behave sensibly offline.
+ */
+export class FakeEmbeddings extends Embeddings {
+  dimensions: number;
+
+  constructor(fields: FakeEmbeddingsInput = {}) {
+    super(fields);
+    this.dimensions = fields.dimensions ?? 1536;
+  }
+
+  private embed(text: string) {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      // FNV-1a
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+      }
+      vector[(hash >>> 0) % this.dimensions] += 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((value) => value / norm);
+  }
+
+  async embedDocuments(documents: string[]) {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string) {
+    return this.embed(document);
+  }
+}
@@ -0,0 +1,109 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOllama } from "@langchain/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { FakeChatModel, FakeEmbeddings } from "./fake";
+import {
+  getChatModel,
+  getEmbeddings,
+  getEmbeddingsConfig,
+  getModelConfig,
+} from "./registry";
+
+const setModelConfig = (config: unknown) =>
+  vi.stubEnv(
+    "MODEL_CONFIG",
+    typeof config === "string" ? config : JSON.stringify(config),
+  );
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getModelConfig", () => {
+  it("uses the built-in defaults without MODEL_CONFIG", () => {
+    vi.stubEnv("MODEL_CONFIG", "");
+    expect(getModelConfig("chat")).toEqual({
+      provider: "openai",
+      model: "gpt-4o-mini",
+      temperature: 0.8,
+    });
+    expect(getModelConfig("agents").temperature).toBe(0);
+  });
+
+  it("applies the default settings, then the feature's", () => {
+    setModelConfig({
+      default: { provider: "anthropic", model: "claude-3-5-haiku-latest" },
+      features: { retrieval_rerank: { provider: "ollama", model: "llama3.2" } },
+    });
+    expect(getModelConfig("chat")).toEqual({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-latest",
+      temperature: 0.8,
+    });
+    expect(getModelConfig("retrieval_rerank")).toEqual({
+      provider: "ollama",
+      model: "llama3.2",
+      temperature: 0,
+    });
+  });
+
+  it("names MODEL_CONFIG when it isn't JSON", () => {
+    setModelConfig("{provider: openai}");
+    expect(() => getModelConfig("chat")).toThrow(
+      /^Invalid MODEL_CONFIG: not valid JSON/,
+    );
+  });
+
+  it("names MODEL_CONFIG when it doesn't match the schema", () => {
+    setModelConfig({ default: { provider: "cohere" } });
+    expect(() => getModelConfig("chat")).toThrow(/^Invalid MODEL_CONFIG:/);
+  });
+});
+
+describe("getChatModel", () => {
+  it("creates the configured provider's model", () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    vi.stubEnv("ANTHROPIC_API_KEY", "test");
+    setModelConfig({
+      features: {
+        chat: { provider: "anthropic", model: "claude-3-5-haiku-latest" },
+        agents: { provider: "ollama", model: "llama3.2" },
+        retrieval: { provider: "fake" },
+      },
+    });
+    expect(getChatModel("chat")).toBeInstanceOf(ChatAnthropic);
+    expect(getChatModel("agents")).toBeInstanceOf(ChatOllama);
+    expect(getChatModel("retrieval")).toBeInstanceOf(FakeChatModel);
+    expect(getChatModel("generative_ui")).toBeInstanceOf(ChatOpenAI);
+  });
+
+  it("lets the caller override the temperature", () => {
+    vi.stubEnv("OPENAI_API_KEY", "test");
+    vi.stubEnv("MODEL_CONFIG", "");
+    const model = getChatModel("chat", { temperature: 0.1 }) as ChatOpenAI;
+    expect(model.temperature).toBe(0.1);
+  });
+
+  it("requires a baseUrl for OpenAI-compatible providers", () => {
+    setModelConfig({
+      default: { provider: "openai_compatible", model: "local" },
+    });
+    expect(() => getChatModel("chat")).toThrow(/has no baseUrl/);
+  });
+});
+
+describe("getEmbeddings", () => {
+  it("creates the configured embeddings", async () => {
+    setModelConfig({ embeddings: { provider: "fake", dimensions: 8 } });
+    expect(getEmbeddingsConfig()).toEqual({
+      provider: "fake",
+      model: "text-embedding-ada-002",
+      dimensions: 8,
+    });
+    const embeddings = getEmbeddings();
+    expect(embeddings).toBeInstanceOf(FakeEmbeddings);
+    expect(await embeddings.embedQuery("hello")).toHaveLength(8);
+  });
+});
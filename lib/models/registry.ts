@@ -0,0 +1,220 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatOllama, OllamaEmbeddings } from "@langchain/ollama";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { z } from "zod";
+
+import { FakeChatModel, FakeEmbeddings } from "./fake";
+
+export const MODEL_PROVIDERS = [
+  "openai",
+  "anthropic",
+  "ollama",
+  "openai_compatible",
+  "fake",
+] as const;
+
+/**
+ * Every part of the app that calls a chat model. Each one can be given its
+ * own provider, model and settings.
+ */
+export const MODEL_FEATURES = [
+  "chat",
+  "structured_output",
+  "agents",
+  "retrieval",
+  "retrieval_rerank",
+  "retrieval_agents",
+  "generative_ui",
+  "ai_sdk_agent",
+  "ai_sdk_tools",
+  "content_writer",
+] as const;
+export type ModelFeature = (typeof MODEL_FEATURES)[number];
+
+export const modelConfigSchema = z.object({
+  provider: z.enum(MODEL_PROVIDERS),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  /** Required for `openai_compatible`, optional for `ollama`. */
+  baseUrl: z.string().url().optional(),
+});
+export type ModelConfig = z.infer<typeof modelConfigSchema>;
+
+/**
+ * Every provider in the registry supports tool calling.
+ */
+export type ToolCallingChatModel = BaseChatModel &
+  Required<Pick<BaseChatModel, "bindTools">>;
+
+export const EMBEDDING_PROVIDERS = [
+  "openai",
+  "ollama",
+  "openai_compatible",
+  "fake",
+] as const;
+
+/**
+ * Chunks are embedded and queried with the same model, so changing it means
+ * re-ingesting every source. The Supabase `documents` table stores vectors
+ * with 1536 dimensions.
+ */
+export const embeddingsConfigSchema = z.object({
+  provider: z.enum(EMBEDDING_PROVIDERS),
+  model: z.string().min(1),
+  dimensions: z.number().int().positive().optional(),
+  baseUrl: z.string().url().optional(),
+});
+export type EmbeddingsConfig = z.infer<typeof embeddingsConfigSchema>;
+
+const DEFAULT_MODEL: ModelConfig = {
+  provider: "openai",
+  model: "gpt-4o-mini",
+};
+
+const DEFAULT_EMBEDDINGS: EmbeddingsConfig = {
+  provider: "openai",
+  model: "text-embedding-ada-002",
+};
+
+const DEFAULT_TEMPERATURES: Record<ModelFeature, number> = {
+  chat: 0.8,
+  structured_output: 0.8,
+  agents: 0,
+  retrieval: 0.2,
+  retrieval_rerank: 0,
+  retrieval_agents: 0.2,
+  generative_ui: 0,
+  ai_sdk_agent: 0,
+  ai_sdk_tools: 0,
+  content_writer: 0.7,
+};
+
+/**
+ * The shape of the `MODEL_CONFIG` environment variable: settings for every
+ * feature under `default`, overridden per feature under `features`, and the
+ * embedding model under `embeddings`.
+ */
+const modelConfigFileSchema = z.object({
+  default: modelConfigSchema.partial().default({}),
+  features: z
+    .record(z.enum(MODEL_FEATURES), modelConfigSchema.partial())
+    .default({}),
+  embeddings: embeddingsConfigSchema.partial().default({}),
+});
+
+const readModelConfigFile = () => {
+  if (!process.env.MODEL_CONFIG) {
+    return modelConfigFileSchema.parse({});
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(process.env.MODEL_CONFIG);
+  } catch (e: any) {
+    throw new Error(`Invalid MODEL_CONFIG: not valid JSON (${e.message})`);
+  }
+  const parsed = modelConfigFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid MODEL_CONFIG: ${parsed.error.message}`);
+  }
+  return parsed.data;
+};
+
+/**
+ * Resolves the model settings for a feature: the built-in defaults, then
+ * `MODEL_CONFIG.default`, then `MODEL_CONFIG.features[feature]`.
+ */
+export function getModelConfig(feature: ModelFeature): ModelConfig {
+  const file = readModelConfigFile();
+  return modelConfigSchema.parse({
+    ...DEFAULT_MODEL,
+    temperature: DEFAULT_TEMPERATURES[feature],
+    ...file.default,
+    ...file.features[feature],
+  });
+}
+
+/**
+ * Creates the chat model configured for a feature. Pass `streaming` for
+ * callers that read tokens from callbacks rather than `.stream()`, and
+ * `temperature` to override the configured one, e.g. with a persona's.
+ */
+export function getChatModel(
+  feature: ModelFeature,
+  options: { streaming?: boolean; temperature?: number } = {},
+): ToolCallingChatModel {
+  const config = getModelConfig(feature);
+  const { provider, model, maxTokens, baseUrl } = config;
+  const { streaming, temperature = config.temperature } = options;
+  switch (provider) {
+    case "openai":
+      return new ChatOpenAI({ model, temperature, maxTokens, streaming });
+    case "openai_compatible":
+      if (!baseUrl) {
+        throw new Error(
+          `The ${feature} model uses an OpenAI-compatible provider but has no baseUrl`,
+        );
+      }
+      return new ChatOpenAI({
+        model,
+        temperature,
+        maxTokens,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+        configuration: { baseURL: baseUrl },
+        streaming,
+      });
+    case "anthropic":
+      return new ChatAnthropic({ model, temperature, maxTokens, streaming });
+    case "ollama":
+      return new ChatOllama({
+        model,
+        temperature,
+        numPredict: maxTokens,
+        baseUrl,
+        streaming,
+      });
+    case "fake":
+      return new FakeChatModel();
+  }
+}
+
+/**
+ * Resolves the embedding model settings: the built-in defaults, then
+ * `MODEL_CONFIG.embeddings`.
+ */
+export function getEmbeddingsConfig(): EmbeddingsConfig {
+  return embeddingsConfigSchema.parse({
+    ...DEFAULT_EMBEDDINGS,
+    ...readModelConfigFile().embeddings,
+  });
+}
+
+/**
+ * Creates the configured embedding model, used both to embed ingested chunks
+ * and to embed queries.
+ */
+export function getEmbeddings(): EmbeddingsInterface {
+  const { provider, model, dimensions, baseUrl } = getEmbeddingsConfig();
+  switch (provider) {
+    case "openai":
+      return new OpenAIEmbeddings({ model, dimensions });
+    case "openai_compatible":
+      if (!baseUrl) {
+        throw new Error(
+          "The embeddings use an OpenAI-compatible provider but have no baseUrl",
+        );
+      }
+      return new OpenAIEmbeddings({
+        model,
+        dimensions,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+        configuration: { baseURL: baseUrl },
+      });
+    case "ollama":
+      return new OllamaEmbeddings({ model, baseUrl });
+    case "fake":
+      return new FakeEmbeddings({ dimensions });
+  }
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+import type { ConversationEndpoint } from "@/lib/conversations";
+
+/**
+ * Persona settings and the built-in personas.
+ */
+
+export type PersonaEndpoint = ConversationEndpoint | "generative_ui";
+
+/**
+ * Every tool a persona can be allowed to use, by tool name. Each endpoint only
+ * offers its own tools, so the agents never see e.g. the image search.
+ */
+export const PERSONA_TOOLS = {
+  calculator: "Calculator (agents)",
+  search: "Web search (agents)",
+  search_latest_knowledge: "Knowledge base search (retrieval agents)",
+  SerpAPI: "Place search (generative UI)",
+  Images: "Image search (generative UI)",
+} as const;
+
+export type PersonaTool = keyof typeof PERSONA_TOOLS;
+
+export const personaSettingsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  emoji: z.string().trim().min(1).max(16),
+  system_prompt: z.string().trim().min(1).max(8000),
+  /** `null` keeps the temperature from the model registry. */
+  temperature: z.number().min(0).max(2).nullable(),
+  /** `null` allows every tool of the endpoint. */
+  allowed_tools: z
+    .array(
+      z.enum(Object.keys(PERSONA_TOOLS) as [PersonaTool, ...PersonaTool[]]),
+    )
+    .nullable(),
+});
+
+export type PersonaSettings = z.infer<typeof personaSettingsSchema>;
+
+export type Persona = PersonaSettings & {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Used by conversations that have no persona selected.
+ */
+export const DEFAULT_PERSONAS: Record<PersonaEndpoint, PersonaSettings> = {
+  chat: {
+    name: "Patchy the Chatty Pirate",
+    emoji: "🏴‍☠️",
+    system_prompt:
+      "You are a pirate named Patchy. All responses must be extremely verbose and in pirate dialect.",
+    temperature: null,
+    allowed_tools: null,
+  },
+  agents: {
+    name: "Polly the Agentic Parrot",
+    emoji: "🦜",
+    system_prompt:
+      "You are a talking parrot named Polly. All final responses must be how a talking parrot would respond. Squawk often!",
+    temperature: null,
+    allowed_tools: null,
+  },
+  retrieval: {
+    name: "Dana the Document-Retrieving Dog",
+    emoji: "🐶",
+    system_prompt:
+      "You are an energetic talking puppy named Dana, and must answer all questions like a happy, talking dog would.\nUse lots of puns!",
+    temperature: null,
+    allowed_tools: null,
+  },
+  retrieval_agents: {
+    name: "Robbie the Retrieval Robot",
+    emoji: "🤖",
+    system_prompt:
+      'You are a stereotypical robot named Robbie and must answer all questions like a stereotypical robot. Use lots of interjections like "BEEP" and "BOOP".',
+    temperature: null,
+    allowed_tools: null,
+  },
+  generative_ui: {
+    name: "Polly the Generative Parrot",
+    emoji: "🦜",
+    system_prompt:
+      "You are a talking parrot named Polly. All final responses must be how a talking parrot would respond. Squawk often!",
+    temperature: null,
+    allowed_tools: null,
+  },
+};
+
+export const isToolAllowed = (persona: PersonaSettings, toolName: string) =>
+  persona.allowed_tools === null ||
+  persona.allowed_tools.includes(toolName as PersonaTool);
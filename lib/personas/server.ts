@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+import { HttpError } from "@/lib/errors";
+import {
+  DEFAULT_PERSONAS,
+  type PersonaEndpoint,
+  type PersonaSettings,
+} from "./defaults";
+
+export const PERSONA_COLUMNS =
+  "id, user_id, workspace_id, name, emoji, system_prompt, temperature, allowed_tools, created_at, updated_at";
+
+/**
+ * Loads a persona of the caller's workspace, or the endpoint's built-in
+ * persona when no id is given. Row level security hides personas of other
+ * workspaces, so those are reported as not found.
+ */
+export async function getPersona(
+  client: SupabaseClient,
+  endpoint: PersonaEndpoint,
+  personaId?: string | null,
+): Promise<PersonaSettings> {
+  if (!personaId) {
+    return DEFAULT_PERSONAS[endpoint];
+  }
+  if (!z.string().uuid().safeParse(personaId).success) {
+    throw new HttpError("Invalid persona id", 400);
+  }
+  const { data, error } = await client
+    .from("personas")
+    .select("name, emoji, system_prompt, temperature, allowed_tools")
+    .eq("id", personaId)
+    .maybeSingle();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  if (!data) {
+    throw new HttpError("Persona not found", 404);
+  }
+  return data as PersonaSettings;
+}
@@ -0,0 +1,122 @@
+/**
+ * The prompts that can be versioned, with the variables each chain supplies
+ * and their built-in templates.
+ */
+
+export const PROMPT_KEYS = [
+  "chat",
+  "retrieval_condense_question",
+  "retrieval_answer",
+  "retrieval_agents_system",
+  "ai_sdk_agent_system",
+] as const;
+
+export type PromptKey = (typeof PROMPT_KEYS)[number];
+
+export type PromptDefinition = {
+  label: string;
+  /** Every variable the chain passes to the template. */
+  variables: string[];
+  /** Variables a template has to use for the chain to make sense. */
+  required: string[];
+  /** Served as version 0 until a stored version is deployed. */
+  template: string;
+};
+
+export const PROMPT_DEFINITIONS: Record<PromptKey, PromptDefinition> = {
+  chat: {
+    label: "Chat",
+    variables: ["persona", "chat_history", "input"],
+    required: ["input"],
+    template: `{persona}
+
+Current conversation:
+{chat_history}
+
+User: {input}
+AI:`,
+  },
+  retrieval_condense_question: {
+    label: "Retrieval: condense question",
+    variables: ["chat_history", "question"],
+    required: ["question"],
+    template: `Given the following conversation and a follow up question, rephrase the follow up question to be a standalone question, in its original language.
+
+<chat_history>
+  {chat_history}
+</chat_history>
+
+Follow Up Input: {question}
+Standalone question:`,
+  },
+  retrieval_answer: {
+    label: "Retrieval: answer",
+    variables: ["persona", "context", "chat_history", "question"],
+    required: ["context", "question"],
+    template: `{persona}
+
+Answer the question based only on the following context and chat history.
+After every sentence that uses the context, cite the passages it came from by their id in square brackets, like [1] or [2][3].
+Only cite passage ids listed below. If the context doesn't answer the question, say so instead of guessing.
+<context>
+  {context}
+</context>
+
+<chat_history>
+  {chat_history}
+</chat_history>
+
+Question: {question}
+`,
+  },
+  retrieval_agents_system: {
+    label: "Retrieval agents: system",
+    variables: ["persona"],
+    required: [],
+    template: `{persona}
+
+If you don't know how to answer a question, use the available tools to look up relevant information. You should particularly do this for questions about LangChain.`,
+  },
+  ai_sdk_agent_system: {
+    label: "AI SDK agent: system",
+    variables: [],
+    required: [],
+    template: "You are a helpful assistant",
+  },
+};
+
+/**
+ * Which version of a prompt produced an answer. Version 0, with no id, is the
+ * built-in template.
+ */
+export type PromptVersionRef = {
+  key: PromptKey;
+  versionId: string | null;
+  version: number;
+  /** `candidate` when the answer came from the traffic split. */
+  variant: "control" | "candidate";
+};
+
+export type ResolvedPrompt = PromptVersionRef & { template: string };
+
+export type PromptVersion = {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  prompt_key: PromptKey;
+  version: number;
+  template: string;
+  note: string | null;
+  created_at: string;
+};
+
+export type PromptDeployment = {
+  workspace_id: string;
+  prompt_key: PromptKey;
+  /** `null` serves the built-in template. */
+  version_id: string | null;
+  candidate_version_id: string | null;
+  /** Percentage of conversations, from 0 to 100, given the candidate. */
+  candidate_traffic: number;
+  updated_at: string;
+};
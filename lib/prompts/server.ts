@@ -0,0 +1,151 @@
+import { parseFString } from "@langchain/core/prompts";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { HttpError } from "@/lib/errors";
+import { sha256 } from "@/lib/ingest/hashing";
+import {
+  PROMPT_DEFINITIONS,
+  type PromptDeployment,
+  type PromptKey,
+  type ResolvedPrompt,
+} from "./defaults";
+
+export const PROMPT_VERSION_COLUMNS =
+  "id, user_id, workspace_id, prompt_key, version, template, note, created_at";
+
+/**
+ * Checks a template against the variables its chain supplies. Returns a
+ * message for each problem, or none when the template can be used.
+ */
+export function checkPromptVariables(key: PromptKey, template: string) {
+  const { variables, required } = PROMPT_DEFINITIONS[key];
+  let used: string[];
+  try {
+    used = parseFString(template)
+      .filter((node) => node.type === "variable")
+      .map((node) => (node as { name: string }).name);
+  } catch (e: any) {
+    return [
+      `${e.message.replace(/\.$/, "")}. Write literal braces as {{ and }}.`,
+    ];
+  }
+  const errors = used
+    .filter((name) => !variables.includes(name))
+    .map(
+      (name) =>
+        `Unknown variable {${name}}, expected ${variables.length ? variables.map((variable) => `{${variable}}`).join(", ") : "none"}`,
+    );
+  for (const name of required) {
+    if (!used.includes(name)) {
+      errors.push(`Missing required variable {${name}}`);
+    }
+  }
+  return Array.from(new Set(errors));
+}
+
+/**
+ * Buckets a conversation into 0-99 for a prompt, so it keeps getting the same
+ * version for as long as the split is unchanged.
+ */
+const trafficBucket = async (key: PromptKey, assignmentKey?: string) => {
+  if (!assignmentKey) {
+    return Math.floor(Math.random() * 100);
+  }
+  const hash = await sha256(`${key}:${assignmentKey}`);
+  return Number.parseInt(hash.slice(0, 8), 16) % 100;
+};
+
+/** The built-in template of a prompt, served as version 0. */
+export const builtInPrompt = (key: PromptKey): ResolvedPrompt => ({
+  key,
+  versionId: null,
+  version: 0,
+  variant: "control",
+  template: PROMPT_DEFINITIONS[key].template,
+});
+
+/**
+ * Picks the version of a prompt to serve in the caller's workspace: the
+ * deployed version, or the candidate for the share of traffic it was given.
+ * Without a deployment the built-in template is served as version 0.
+ *
+ * Pass the conversation id as `assignmentKey` to keep every turn of a
+ * conversation on the same version.
+ */
+export async function getPrompt(
+  client: SupabaseClient,
+  key: PromptKey,
+  assignmentKey?: string,
+): Promise<ResolvedPrompt> {
+  const builtIn = builtInPrompt(key);
+
+  const { data, error } = await client
+    .from("prompt_deployments")
+    .select("version_id, candidate_version_id, candidate_traffic")
+    .eq("prompt_key", key)
+    .maybeSingle();
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+  const deployment = data as Pick<
+    PromptDeployment,
+    "version_id" | "candidate_version_id" | "candidate_traffic"
+  > | null;
+  if (!deployment) {
+    return builtIn;
+  }
+
+  const isCandidate =
+    !!deployment.candidate_version_id &&
+    (await trafficBucket(key, assignmentKey)) < deployment.candidate_traffic;
+  const versionId = isCandidate
+    ? deployment.candidate_version_id
+    : deployment.version_id;
+  const variant = isCandidate ? "candidate" : "control";
+  if (!versionId) {
+    return { ...builtIn, variant };
+  }
+
+  const { data: version, error: versionError } = await client
+    .from("prompt_versions")
+    .select("id, version, template")
+    .eq("id", versionId)
+    .single();
+  if (versionError) {
+    throw new HttpError(versionError.message, 500);
+  }
+  return {
+    key,
+    versionId: version.id,
+    version: version.version,
+    variant,
+    template: version.template,
+  };
+}
+
+/**
+ * Records which prompt versions produced an answer and how long it took,
+ * for comparing versions on the prompts page.
+ */
+export async function recordPromptRuns(
+  client: SupabaseClient,
+  prompts: ResolvedPrompt[],
+  run: { messageId: string | null; latencyMs: number },
+) {
+  if (!prompts.length) {
+    return;
+  }
+  const { error } = await client.from("prompt_runs").insert(
+    prompts.map((prompt) => ({
+      prompt_key: prompt.key,
+      version_id: prompt.versionId,
+      version: prompt.version,
+      variant: prompt.variant,
+      message_id: run.messageId,
+      latency_ms: Math.round(run.latencyMs),
+    })),
+  );
+  if (error) {
+    throw new HttpError(error.message, 500);
+  }
+}
@@ -0,0 +1,77 @@
+import type { JSONValue, Message, StreamData } from "ai";
+
+import type { RetrievalScore } from "./options";
+
+/**
+ * Typed data parts the retrieval route attaches to its answer as message
+ * annotations, in the AI SDK's data stream protocol. `ChatWindow` reads
+ * them from the message instead of from response headers.
+ */
+
+/**
+ * A retrieved chunk as sent to the client. Only an excerpt of the content
+ * is included; the full chunk can be loaded by `id`.
+ */
+export type RetrievalSource = {
+  id?: number;
+  pageContent: string;
+  metadata: Record<string, any>;
+} & Partial<RetrievalScore>;
+
+export type RetrievalStep = "condense" | "retrieve" | "rerank" | "generate";
+
+export type StepTiming = {
+  step: RetrievalStep;
+  /** Milliseconds since the request started. */
+  startedAt: number;
+  durationMs: number;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+/**
+ * The size of the final answer prompt, after the retrieved chunks and chat
+ * history have been filled in. `tokens` is reported by the model, when it
+ * returns usage.
+ */
+export type PromptSize = {
+  characters: number;
+  tokens?: number;
+};
+
+export type RetrievalAnnotation =
+  | { type: "sources"; sources: RetrievalSource[] }
+  | { type: "standalone_question"; question: string }
+  | { type: "prompt"; prompt: PromptSize }
+  | { type: "timings"; timings: StepTiming[] }
+  | { type: "usage"; usage: TokenUsage };
+
+type AnnotationOfType<T extends RetrievalAnnotation["type"]> = Extract<
+  RetrievalAnnotation,
+  { type: T }
+>;
+
+export function appendAnnotation(
+  data: StreamData,
+  annotation: RetrievalAnnotation,
+) {
+  data.appendMessageAnnotation(annotation as JSONValue);
+}
+
+/**
+ * Returns the last annotation of a type on a message, if any.
+ */
+export function getAnnotation<T extends RetrievalAnnotation["type"]>(
+  message: Pick<Message, "annotations">,
+  type: T,
+): AnnotationOfType<T> | undefined {
+  const annotations = (message.annotations ?? []) as RetrievalAnnotation[];
+  return annotations.findLast(
+    (annotation): annotation is AnnotationOfType<T> =>
+      annotation?.type === type,
+  );
+}
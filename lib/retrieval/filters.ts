@@ -0,0 +1,81 @@
+import type {
+  SupabaseFilterRPCCall,
+  SupabaseMetadata,
+} from "@langchain/community/vectorstores/supabase";
+
+import { nextDay } from "@/lib/dates";
+import { HttpError } from "@/lib/errors";
+import { type Workspace, workspaceFilter } from "@/lib/workspace";
+import { type RetrievalFilters, retrievalFiltersSchema } from "./options";
+
+/**
+ * Validates the `filters` of a request body, rejecting invalid ones with a
+ * 400.
+ */
+export function parseRetrievalFilters(value: unknown) {
+  const parsed = retrievalFiltersSchema.safeParse(value ?? {});
+  if (!parsed.success) {
+    throw new HttpError(
+      `Invalid filters: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ")}`,
+      400,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Translates request filters into a `SupabaseVectorStore` filter, always
+ * scoped to the caller's workspace. Tags, status and document become a
+ * `metadata @> ...` object; a date range needs comparisons, so it turns the
+ * filter into a function that refines the RPC call instead.
+ */
+export function toSupabaseFilter(
+  workspace: Workspace,
+  filters: RetrievalFilters = {},
+): SupabaseMetadata | SupabaseFilterRPCCall {
+  const metadata: SupabaseMetadata = {
+    ...workspaceFilter(workspace),
+    ...(filters.tags?.length ? { tags: filters.tags } : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.sourceId ? { source_id: filters.sourceId } : {}),
+  };
+  const { from, to } = filters;
+  if (!from && !to) {
+    return metadata;
+  }
+  return (rpc) => {
+    let query = rpc.contains("metadata", metadata);
+    if (from) {
+      // Timestamps are stored as ISO strings, so dates compare as prefixes
+      query = query.gte("metadata->>created_at", from);
+    }
+    if (to) {
+      query = query.lt("metadata->>created_at", nextDay(to));
+    }
+    return query;
+  };
+}
+
+/**
+ * The same filter as `toSupabaseFilter`, checked against a chunk's metadata
+ * by the local chunk stores.
+ */
+export function matchesFilters(
+  metadata: Record<string, any>,
+  workspace: Workspace,
+  filters: RetrievalFilters = {},
+) {
+  const { tags, status, sourceId, from, to } = filters;
+  const createdAt: string | undefined = metadata.created_at;
+  return (
+    metadata.workspace_id === workspace.workspaceId &&
+    (!tags?.length ||
+      tags.every((tag) => (metadata.tags ?? []).includes(tag))) &&
+    (!status || metadata.status === status) &&
+    (!sourceId || metadata.source_id === sourceId) &&
+    (!from || (createdAt !== undefined && createdAt >= from)) &&
+    (!to || (createdAt !== undefined && createdAt < nextDay(to)))
+  );
+}
@@ -0,0 +1,133 @@
+import { Document } from "@langchain/core/documents";
+import { describe, expect, it } from "vitest";
+
+import { FakeEmbeddings } from "@/lib/models/fake";
+import { HybridRetriever } from "./hybrid";
+import { LocalChunkStore } from "./localStore";
+import type { RetrievalScore } from "./options";
+import type { Reranker } from "./rerank";
+import type { ChunkStore, MatchedChunk, Ranker } from "./store";
+
+const matched = (id: number): MatchedChunk => ({
+  id,
+  content: `chunk ${id}`,
+  metadata: { source_id: "a" },
+  similarity: 0,
+});
+
+/** A store whose rankers return the given chunk ids, best first. */
+const stubStore = (rankings: Partial<Record<Ranker, number[]>>) => {
+  const searches: Ranker[] = [];
+  const store = {
+    search: async (ranker: Ranker) => {
+      searches.push(ranker);
+      return (rankings[ranker] ?? []).map(matched);
+    },
+  } as unknown as ChunkStore;
+  return { store, searches };
+};
+
+const rrf = (...ranks: number[]) =>
+  ranks.reduce((score, rank) => score + 1 / (60 + rank), 0);
+
+const scoreOf = (document: Document) =>
+  document.metadata.retrieval as RetrievalScore;
+
+describe("HybridRetriever", () => {
+  it("fuses the rankings by reciprocal rank", async () => {
+    const { store, searches } = stubStore({
+      vector: [1, 2, 3],
+      keyword: [3, 1, 4],
+    });
+    const retriever = new HybridRetriever({ store, k: 10 });
+
+    const documents = await retriever.invoke("query");
+    expect(searches.sort()).toEqual(["keyword", "vector"]);
+    expect(documents.map((document) => document.id)).toEqual([
+      "1",
+      "3",
+      "2",
+      "4",
+    ]);
+    expect(documents.map(scoreOf)).toEqual([
+      { score: rrf(1, 2), rankers: ["vector", "keyword"] },
+      { score: rrf(3, 1), rankers: ["vector", "keyword"] },
+      { score: rrf(2), rankers: ["vector"] },
+      { score: rrf(3), rankers: ["keyword"] },
+    ]);
+  });
+
+  it("returns each chunk once, with its metadata", async () => {
+    const { store } = stubStore({ vector: [1, 2], keyword: [2, 1] });
+    const documents = await new HybridRetriever({ store }).invoke("query");
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0].pageContent).toBe("chunk 1");
+    expect(documents[0].metadata).toMatchObject({ source_id: "a" });
+  });
+
+  it("only asks the chosen rankers and keeps the top k", async () => {
+    const { store, searches } = stubStore({
+      vector: [1, 2, 3],
+      keyword: [4],
+    });
+    const documents = await new HybridRetriever({
+      store,
+      rankers: ["vector"],
+      k: 2,
+    }).invoke("query");
+
+    expect(searches).toEqual(["vector"]);
+    expect(documents.map((document) => document.id)).toEqual(["1", "2"]);
+  });
+
+  it("reorders the fused candidates with a reranker", async () => {
+    const { store } = stubStore({ vector: [1, 2, 3], keyword: [1] });
+    const reranker: Reranker = {
+      // Scores `chunk 3` highest and ties the other two
+      rerank: async (_query, passages) =>
+        passages.map((passage) => (passage === "chunk 3" ? 9 : 5)),
+    };
+    const documents = await new HybridRetriever({ store, reranker }).invoke(
+      "query",
+    );
+
+    expect(documents.map((document) => document.id)).toEqual(["3", "1", "2"]);
+    expect(scoreOf(documents[0])).toEqual({
+      score: rrf(3),
+      rankers: ["vector"],
+      rerankScore: 9,
+    });
+  });
+
+  it("ranks first what both searches of a local store find", async () => {
+    const id = crypto.randomUUID();
+    const workspace = { userId: `user-${id}`, workspaceId: `ws-${id}` };
+    const store = new LocalChunkStore(
+      workspace,
+      new FakeEmbeddings({ dimensions: 64 }),
+    );
+    await store.addDocuments(
+      [
+        "the cat sat on the mat",
+        "stock prices fell sharply",
+        "cats chase mice",
+      ].map(
+        (content) =>
+          new Document({
+            pageContent: content,
+            metadata: {
+              user_id: workspace.userId,
+              workspace_id: workspace.workspaceId,
+              source_id: "a",
+              content_hash: content,
+            },
+          }),
+      ),
+    );
+
+    const [best] = await new HybridRetriever({ store }).invoke("cat mat");
+    expect(best.pageContent).toBe("the cat sat on the mat");
+    expect(scoreOf(best).rankers).toEqual(["vector", "keyword"]);
+  });
+});
@@ -0,0 +1,122 @@
+import type { CallbackManagerForRetrieverRun } from "@langchain/core/callbacks/manager";
+import { Document } from "@langchain/core/documents";
+import {
+  BaseRetriever,
+  type BaseRetrieverInput,
+} from "@langchain/core/retrievers";
+
+import type { RetrievalFilters, RetrievalScore } from "./options";
+import type { Reranker } from "./rerank";
+import type { ChunkStore, MatchedChunk, Ranker } from "./store";
+
+type FusedHit = {
+  chunk: MatchedChunk;
+  score: number;
+  rankers: Ranker[];
+  rerankScore?: number;
+};
+
+export interface HybridRetrieverInput extends BaseRetrieverInput {
+  /** The workspace's chunk store, from `getChunkStore`. */
+  store: ChunkStore;
+  /** Filters applied by both rankers. */
+  filters?: RetrievalFilters;
+  /** Defaults to both keyword and vector search. */
+  rankers?: Ranker[];
+  /** Number of documents returned. */
+  k?: number;
+  /** Candidates fetched from each ranker, and passed to the reranker. */
+  fetchK?: number;
+  reranker?: Reranker;
+}
+
+/**
+ * Constant from the reciprocal rank fusion paper. Larger values flatten the
+ * difference between the top ranks.
+ */
+const RRF_K = 60;
+
+/**
+ * Combines keyword search (Postgres full-text search with the Supabase
+ * store) with vector similarity using reciprocal rank fusion: a chunk
+ * scores `1 / (60 + rank)` for each ranker that found it. An optional
+ * reranker then reorders the fused candidates.
+ *
+ * Each returned document carries a `RetrievalScore` in
+ * `metadata.retrieval`.
+ */
+export class HybridRetriever extends BaseRetriever {
+  static lc_name() {
+    return "HybridRetriever";
+  }
+
+  lc_namespace = ["langchain_nextjs_template", "retrievers", "hybrid"];
+
+  private store: ChunkStore;
+
+  private filters: RetrievalFilters;
+
+  private rankers: Ranker[];
+
+  private k: number;
+
+  private fetchK: number;
+
+  private reranker?: Reranker;
+
+  constructor(fields: HybridRetrieverInput) {
+    super(fields);
+    this.store = fields.store;
+    this.filters = fields.filters ?? {};
+    this.rankers = fields.rankers ?? ["vector", "keyword"];
+    this.k = fields.k ?? 4;
+    this.fetchK = fields.fetchK ?? 20;
+    this.reranker = fields.reranker;
+  }
+
+  async _getRelevantDocuments(
+    query: string,
+    runManager?: CallbackManagerForRetrieverRun,
+  ) {
+    const results = await Promise.all(
+      this.rankers.map((ranker) =>
+        this.store.search(ranker, query, this.filters, this.fetchK),
+      ),
+    );
+
+    const fused = new Map<number, FusedHit>();
+    results.forEach((chunks, i) => {
+      chunks.forEach((chunk, rank) => {
+        const hit = fused.get(chunk.id) ?? { chunk, score: 0, rankers: [] };
+        hit.score += 1 / (RRF_K + rank + 1);
+        hit.rankers.push(this.rankers[i]);
+        fused.set(chunk.id, hit);
+      });
+    });
+    let hits = Array.from(fused.values()).sort((a, b) => b.score - a.score);
+
+    if (this.reranker && hits.length) {
+      const scores = await this.reranker.rerank(
+        query,
+        hits.map((hit) => hit.chunk.content),
+        runManager?.getChild("rerank"),
+      );
+      hits.forEach((hit, i) => {
+        hit.rerankScore = scores[i];
+      });
+      // Stable sort, so ties keep their fused order
+      hits = hits.sort((a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0));
+    }
+
+    return hits
+      .slice(0, this.k)
+      .map(({ chunk, score, rankers, rerankScore }) => {
+        const retrieval: RetrievalScore = { score, rankers, rerankScore };
+        return new Document({
+          id: chunk.id.toString(),
+          pageContent: chunk.content,
+          metadata: { ...chunk.metadata, retrieval },
+        });
+      });
+  }
+}
@@ -0,0 +1,173 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { Document } from "@langchain/core/documents";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { FakeEmbeddings } from "@/lib/models/fake";
+import type { Workspace } from "@/lib/workspace";
+import { LocalChunkStore } from "./localStore";
+
+const embeddings = new FakeEmbeddings({ dimensions: 64 });
+
+const chunk = (
+  workspace: Workspace,
+  sourceId: string,
+  content: string,
+  metadata: Record<string, any> = {},
+) =>
+  new Document({
+    pageContent: content,
+    metadata: {
+      user_id: workspace.userId,
+      workspace_id: workspace.workspaceId,
+      source_id: sourceId,
+      content_hash: `hash:${content}`,
+      tags: [],
+      status: "published",
+      created_at: "2024-11-20T10:00:00.000Z",
+      ...metadata,
+    },
+  });
+
+let dir: string;
+let path: string;
+let workspace: Workspace;
+let otherWorkspace: Workspace;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "local-store-"));
+  path = join(dir, "chunks.json");
+  const id = crypto.randomUUID();
+  workspace = { userId: `user-${id}`, workspaceId: `ws-${id}` };
+  otherWorkspace = { userId: `other-${id}`, workspaceId: `other-ws-${id}` };
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("LocalChunkStore", () => {
+  it("stores chunks with increasing ids and lists them by source", async () => {
+    const store = new LocalChunkStore(workspace, embeddings, path);
+    await store.addDocuments([
+      chunk(workspace, "a", "first"),
+      chunk(workspace, "a", "second"),
+    ]);
+    await store.addDocuments([chunk(workspace, "b", "third")]);
+
+    const hashes = await store.listChunkHashes("a");
+    expect(hashes.map((row) => row.content_hash)).toEqual([
+      "hash:first",
+      "hash:second",
+    ]);
+    const [third] = await store.listChunkHashes("b");
+    expect(third.id).toBeGreaterThan(Math.max(...hashes.map((row) => row.id)));
+    expect(await store.getChunk(third.id)).toMatchObject({
+      id: third.id,
+      content: "third",
+    });
+    expect(await store.getSourceChunks("a", 1, 10)).toMatchObject({
+      items: [{ content: "second" }],
+      total: 2,
+    });
+  });
+
+  it("only shows a workspace its own chunks", async () => {
+    const store = new LocalChunkStore(workspace, embeddings, path);
+    const other = new LocalChunkStore(otherWorkspace, embeddings, path);
+    await store.addDocuments([chunk(workspace, "a", "mine")]);
+    await other.addDocuments([chunk(otherWorkspace, "a", "theirs")]);
+
+    const [mine] = await store.listChunkHashes("a");
+    expect(mine.content_hash).toBe("hash:mine");
+    expect(await other.getChunk(mine.id)).toBeNull();
+    expect(
+      (await store.search("vector", "theirs", {}, 10)).map((m) => m.content),
+    ).toEqual(["mine"]);
+  });
+
+  it("ranks chunks by vector similarity or keywords", async () => {
+    const store = new LocalChunkStore(workspace, embeddings, path);
+    await store.addDocuments([
+      chunk(workspace, "a", "the cat sat on the mat"),
+      chunk(workspace, "a", "dogs chase cats and cars"),
+      chunk(workspace, "a", "stock prices fell"),
+    ]);
+
+    const vector = await store.search("vector", "cat mat", {}, 2);
+    expect(vector[0].content).toBe("the cat sat on the mat");
+    expect(vector).toHaveLength(2);
+
+    const keyword = await store.search("keyword", "prices", {}, 10);
+    expect(keyword.map((match) => match.content)).toEqual([
+      "stock prices fell",
+    ]);
+  });
+
+  it("applies the retrieval filters", async () => {
+    const store = new LocalChunkStore(workspace, embeddings, path);
+    await store.addDocuments([
+      chunk(workspace, "a", "tagged draft", {
+        tags: ["faq"],
+        status: "draft",
+      }),
+      chunk(workspace, "b", "untagged", {
+        created_at: "2024-11-25T10:00:00.000Z",
+      }),
+    ]);
+
+    const search = async (filters: Record<string, any>) =>
+      (await store.search("keyword", "tagged draft untagged", filters, 10))
+        .map((match) => match.content)
+        .sort();
+    expect(await search({ tags: ["faq"] })).toEqual(["tagged draft"]);
+    expect(await search({ status: "published" })).toEqual(["untagged"]);
+    expect(await search({ from: "2024-11-21", to: "2024-11-25" })).toEqual([
+      "untagged",
+    ]);
+    expect(await search({ to: "2024-11-24" })).toEqual(["tagged draft"]);
+  });
+
+  it("deletes chunks and updates source metadata", async () => {
+    const store = new LocalChunkStore(workspace, embeddings, path);
+    await store.addDocuments([
+      chunk(workspace, "a", "keep"),
+      chunk(workspace, "a", "drop"),
+      chunk(workspace, "b", "other source"),
+    ]);
+    const [keep, drop] = await store.listChunkHashes("a");
+
+    await store.deleteChunks("a", [drop.id]);
+    expect(await store.listChunkHashes("a")).toEqual([keep]);
+
+    await store.updateSourceMetadata("a", { tags: ["new"] });
+    expect((await store.getChunk(keep.id))?.metadata.tags).toEqual(["new"]);
+
+    await store.deleteChunks("a");
+    expect(await store.listChunkHashes("a")).toEqual([]);
+    expect(await store.listChunkHashes("b")).toHaveLength(1);
+  });
+
+  it("saves to the file and keeps counting ids after it is reloaded", async () => {
+    const store = new LocalChunkStore(workspace, embeddings, path);
+    await store.addDocuments([
+      chunk(workspace, "a", "one"),
+      chunk(workspace, "a", "two"),
+    ]);
+    const saved = JSON.parse(await readFile(path, "utf8"));
+    expect(saved.chunks.map((saved: any) => saved.content)).toEqual([
+      "one",
+      "two",
+    ]);
+
+    // As after a restart, the next store loads the file again
+    globalThis.__localChunkCollections?.delete(path);
+    const reloaded = new LocalChunkStore(workspace, embeddings, path);
+    await reloaded.addDocuments([chunk(workspace, "a", "three")]);
+    const ids = (await reloaded.listChunkHashes("a")).map((row) => row.id);
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+  });
+});
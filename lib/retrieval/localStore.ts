@@ -0,0 +1,235 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+
+import type { Workspace } from "@/lib/workspace";
+import { matchesFilters } from "./filters";
+import type { RetrievalFilters } from "./options";
+import type { ChunkStore, MatchedChunk, Ranker, StoredChunk } from "./store";
+
+type LocalChunk = StoredChunk & { embedding: number[] };
+
+/**
+ * Every chunk kept by a local store, across workspaces. With a path, the
+ * chunks are read from a JSON file on first use and written back after
+ * every change.
+ */
+class LocalChunkCollection {
+  chunks: LocalChunk[] = [];
+
+  /** The highest id handed out so far. */
+  private lastId = 0;
+
+  private loading?: Promise<void>;
+
+  constructor(private path?: string) {}
+
+  load() {
+    this.loading ??= (async () => {
+      if (!this.path) {
+        return;
+      }
+      try {
+        this.chunks = JSON.parse(await readFile(this.path, "utf8")).chunks;
+      } catch (e: any) {
+        if (e.code !== "ENOENT") {
+          throw e;
+        }
+      }
+      this.lastId = this.chunks.reduce(
+        (max, chunk) => Math.max(max, chunk.id),
+        0,
+      );
+    })();
+    return this.loading;
+  }
+
+  async save() {
+    if (!this.path) {
+      return;
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify({ chunks: this.chunks }));
+  }
+
+  /** Counts up from the highest id stored when the collection was loaded. */
+  nextId() {
+    this.lastId += 1;
+    return this.lastId;
+  }
+}
+
+declare global {
+  /**
+   * Route handlers are bundled separately, so collections are kept on
+   * `globalThis` for ingestion and retrieval to share them.
+   */
+  var __localChunkCollections: Map<string, LocalChunkCollection> | undefined;
+}
+
+const collections = (globalThis.__localChunkCollections ??= new Map());
+
+const collectionFor = (path?: string) => {
+  const key = path ?? "";
+  let collection = collections.get(key);
+  if (!collection) {
+    collection = new LocalChunkCollection(path);
+    collections.set(key, collection);
+  }
+  return collection;
+};
+
+const toStoredChunk = ({ embedding, ...chunk }: LocalChunk): StoredChunk =>
+  chunk;
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const words = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Scores a text by how often it contains each word of the query, counting
+ * repeats of a word less than new words.
+ */
+const keywordScore = (queryWords: Set<string>, text: string) => {
+  const counts = new Map<string, number>();
+  for (const word of words(text)) {
+    if (queryWords.has(word)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  let score = 0;
+  counts.forEach((count) => {
+    score += 1 + Math.log(count);
+  });
+  return score;
+};
+
+/**
+ * Keeps chunks in the server process, optionally backed by a JSON file, so
+ * retrieval runs without Supabase. Only the workspace's own chunks are
+ * visible, and keyword search is a simple word count rather than Postgres
+ * full-text search.
+ */
+export class LocalChunkStore implements ChunkStore {
+  private collection: LocalChunkCollection;
+
+  constructor(
+    private workspace: Workspace,
+    private embeddings: EmbeddingsInterface,
+    path?: string,
+  ) {
+    this.collection = collectionFor(path);
+  }
+
+  private async chunks() {
+    await this.collection.load();
+    return this.collection.chunks.filter(
+      (chunk) => chunk.metadata.workspace_id === this.workspace.workspaceId,
+    );
+  }
+
+  async addDocuments(documents: Document[]) {
+    const embeddings = await this.embeddings.embedDocuments(
+      documents.map((document) => document.pageContent),
+    );
+    await this.collection.load();
+    documents.forEach((document, i) => {
+      this.collection.chunks.push({
+        id: this.collection.nextId(),
+        content: document.pageContent,
+        metadata: document.metadata,
+        embedding: embeddings[i],
+      });
+    });
+    await this.collection.save();
+  }
+
+  async listChunkHashes(sourceId: string) {
+    return (await this.chunks())
+      .filter((chunk) => chunk.metadata.source_id === sourceId)
+      .map((chunk) => ({
+        id: chunk.id,
+        content_hash: chunk.metadata.content_hash ?? null,
+      }));
+  }
+
+  async getChunk(id: number) {
+    const chunk = (await this.chunks()).find((chunk) => chunk.id === id);
+    return chunk ? toStoredChunk(chunk) : null;
+  }
+
+  async getSourceChunks(sourceId: string, offset: number, limit: number) {
+    const chunks = (await this.chunks()).filter(
+      (chunk) => chunk.metadata.source_id === sourceId,
+    );
+    return {
+      items: chunks.slice(offset, offset + limit).map(toStoredChunk),
+      total: chunks.length,
+    };
+  }
+
+  async deleteChunks(sourceId: string, ids?: number[]) {
+    const deleted = new Set(
+      (await this.listChunkHashes(sourceId))
+        .map((chunk) => chunk.id)
+        .filter((id) => !ids || ids.includes(id)),
+    );
+    this.collection.chunks = this.collection.chunks.filter(
+      (chunk) => !deleted.has(chunk.id),
+    );
+    await this.collection.save();
+  }
+
+  async updateSourceMetadata(
+    sourceId: string,
+    changes: { tags?: string[]; status?: string },
+  ) {
+    for (const chunk of await this.chunks()) {
+      if (chunk.metadata.source_id === sourceId) {
+        Object.assign(chunk.metadata, changes);
+      }
+    }
+    await this.collection.save();
+  }
+
+  async search(
+    ranker: Ranker,
+    query: string,
+    filters: RetrievalFilters,
+    k: number,
+  ) {
+    const chunks = (await this.chunks()).filter((chunk) =>
+      matchesFilters(chunk.metadata, this.workspace, filters),
+    );
+    let matches: MatchedChunk[];
+    if (ranker === "vector") {
+      const embedding = await this.embeddings.embedQuery(query);
+      matches = chunks.map((chunk) => ({
+        ...toStoredChunk(chunk),
+        similarity: cosineSimilarity(embedding, chunk.embedding),
+      }));
+    } else {
+      const queryWords = new Set(words(query));
+      matches = chunks
+        .map((chunk) => ({
+          ...toStoredChunk(chunk),
+          similarity: keywordScore(queryWords, chunk.content),
+        }))
+        .filter((match) => match.similarity > 0);
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+  }
+}
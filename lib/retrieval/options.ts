@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+import { isoDate } from "@/lib/dates";
+import type { ContentStatus } from "@/trpc/routers/content";
+
+/**
+ * Retrieval settings a chat request can pass as `retrieval`.
+ */
+
+export const RETRIEVAL_MODES = {
+  hybrid: "Hybrid (keyword + vector)",
+  vector: "Vector only",
+} as const;
+
+export type RetrievalMode = keyof typeof RETRIEVAL_MODES;
+
+export const retrievalOptionsSchema = z.object({
+  mode: z
+    .enum(Object.keys(RETRIEVAL_MODES) as [RetrievalMode, ...RetrievalMode[]])
+    .default("hybrid"),
+  rerank: z.boolean().default(false),
+});
+
+export type RetrievalOptions = z.infer<typeof retrievalOptionsSchema>;
+
+/**
+ * The rankers that found a chunk, and its fused (or reranked) score.
+ * Attached to each retrieved document as `metadata.retrieval`.
+ */
+export type RetrievalScore = {
+  score: number;
+  rankers: ("vector" | "keyword")[];
+  /** Relevance from 0 to 10 assigned by the reranker, when enabled. */
+  rerankScore?: number;
+};
+
+export const SOURCE_STATUSES = [
+  "published",
+  "draft",
+  "archived",
+] as const satisfies readonly ContentStatus[];
+
+export type SourceStatus = (typeof SOURCE_STATUSES)[number];
+
+/**
+ * The `filters` a retrieval request can pass. Tags must all be present on a
+ * chunk's source, and the date range applies to when the source was first
+ * uploaded (both ends inclusive).
+ */
+export const retrievalFiltersSchema = z
+  .object({
+    tags: z.array(z.string().trim().min(1)).max(20).optional(),
+    status: z.enum(SOURCE_STATUSES).optional(),
+    sourceId: z.string().uuid().optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .refine(
+    (filters) => !filters.from || !filters.to || filters.from <= filters.to,
+    {
+      message: "The start date must be before the end date",
+      path: ["to"],
+    },
+  );
+
+export type RetrievalFilters = z.infer<typeof retrievalFiltersSchema>;
@@ -0,0 +1,55 @@
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { z } from "zod";
+
+/**
+ * Scores how relevant each passage is to a query, from 0 to 10.
+ */
+export interface Reranker {
+  rerank(
+    query: string,
+    passages: string[],
+    callbacks?: Callbacks,
+  ): Promise<number[]>;
+}
+
+const RERANK_TEMPLATE = `Rate how relevant each numbered passage is to the question, from 0 (unrelated) to 10 (answers it directly).
+Return one score per passage, in the same order.
+
+Question: {question}
+
+<passages>
+{passages}
+</passages>`;
+const rerankPrompt = PromptTemplate.fromTemplate(RERANK_TEMPLATE);
+
+const rerankSchema = z.object({
+  scores: z
+    .array(z.number().min(0).max(10))
+    .describe("One relevance score per passage, in order"),
+});
+
+/**
+ * Reranks passages by asking a chat model to score them all in one call.
+ */
+export class LLMReranker implements Reranker {
+  constructor(private model: BaseChatModel) {}
+
+  async rerank(query: string, passages: string[], callbacks?: Callbacks) {
+    const chain = rerankPrompt
+      .pipe(this.model.withStructuredOutput(rerankSchema, { name: "rerank" }))
+      .withConfig({ runName: "rerank" });
+    const { scores } = await chain.invoke(
+      {
+        question: query,
+        passages: passages
+          .map((passage, i) => `[${i + 1}] ${passage}`)
+          .join("\n\n"),
+      },
+      { callbacks },
+    );
+    // Passages the model skipped rank last
+    return passages.map((_, i) => scores[i] ?? 0);
+  }
+}
@@ -0,0 +1,100 @@
+import type { Document } from "@langchain/core/documents";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { getEmbeddings } from "@/lib/models/registry";
+import type { Workspace } from "@/lib/workspace";
+import { LocalChunkStore } from "./localStore";
+import type { RetrievalFilters, RetrievalScore, SourceStatus } from "./options";
+import { SupabaseChunkStore } from "./supabaseStore";
+
+export type Ranker = RetrievalScore["rankers"][number];
+
+export type StoredChunk = {
+  id: number;
+  content: string;
+  metadata: Record<string, any>;
+};
+
+export type MatchedChunk = StoredChunk & { similarity: number };
+
+/**
+ * Where the embedded chunks of a workspace are kept and searched. Only the
+ * chunks are pluggable: whichever backend is used, ingesting still needs the
+ * Supabase `document_sources` and `ingestion_jobs` tables and a worker with
+ * `SUPABASE_SERVICE_ROLE_KEY`, and chat still keeps its conversations in
+ * Supabase.
+ */
+export interface ChunkStore {
+  /**
+   * Embeds chunks and stores them. Each one carries its `source_id` and
+   * `content_hash` in its metadata.
+   */
+  addDocuments(documents: Document[]): Promise<void>;
+  /** The id and content hash of every chunk of a source. */
+  listChunkHashes(
+    sourceId: string,
+  ): Promise<{ id: number; content_hash: string | null }[]>;
+  getChunk(id: number): Promise<StoredChunk | null>;
+  /** A page of a source's chunks in the order they were stored. */
+  getSourceChunks(
+    sourceId: string,
+    offset: number,
+    limit: number,
+  ): Promise<{ items: StoredChunk[]; total: number }>;
+  /** Deletes the given chunks of a source, or all of them. */
+  deleteChunks(sourceId: string, ids?: number[]): Promise<void>;
+  /** Copies a source's new tags or status onto its chunks. */
+  updateSourceMetadata(
+    sourceId: string,
+    changes: { tags?: string[]; status?: SourceStatus },
+  ): Promise<void>;
+  /** Up to `k` chunks that match the filters, best first. */
+  search(
+    ranker: Ranker,
+    query: string,
+    filters: RetrievalFilters,
+    k: number,
+  ): Promise<MatchedChunk[]>;
+}
+
+export const VECTOR_STORE_BACKENDS = ["supabase", "memory", "file"] as const;
+export type VectorStoreBackend = (typeof VECTOR_STORE_BACKENDS)[number];
+
+const DEFAULT_VECTOR_STORE_PATH = ".vectorstore.json";
+
+/**
+ * Reads the `VECTOR_STORE` environment variable, defaulting to Supabase.
+ */
+export function getVectorStoreBackend(): VectorStoreBackend {
+  const backend = process.env.VECTOR_STORE ?? "supabase";
+  if (!VECTOR_STORE_BACKENDS.includes(backend as VectorStoreBackend)) {
+    throw new Error(
+      `Unknown VECTOR_STORE "${backend}", expected one of ${VECTOR_STORE_BACKENDS.join(", ")}`,
+    );
+  }
+  return backend as VectorStoreBackend;
+}
+
+/**
+ * Opens the configured chunk store for a workspace, embedding with the model
+ * from `MODEL_CONFIG.embeddings`. `memory` keeps chunks in the server process
+ * until it restarts, and `file` also saves them to `VECTOR_STORE_PATH`.
+ */
+export function getChunkStore(
+  client: SupabaseClient,
+  workspace: Workspace,
+): ChunkStore {
+  const embeddings = getEmbeddings();
+  switch (getVectorStoreBackend()) {
+    case "supabase":
+      return new SupabaseChunkStore(client, workspace, embeddings);
+    case "memory":
+      return new LocalChunkStore(workspace, embeddings);
+    case "file":
+      return new LocalChunkStore(
+        workspace,
+        embeddings,
+        process.env.VECTOR_STORE_PATH ?? DEFAULT_VECTOR_STORE_PATH,
+      );
+  }
+}
@@ -0,0 +1,117 @@
+import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
+import type { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { HttpError } from "@/lib/errors";
+import type { Workspace } from "@/lib/workspace";
+import { toSupabaseFilter } from "./filters";
+import type { RetrievalFilters } from "./options";
+import type { ChunkStore, MatchedChunk, Ranker, StoredChunk } from "./store";
+
+const CHUNK_COLUMNS = "id, content, metadata";
+
+/**
+ * Keeps chunks in the pgvector `documents` table. Row level security scopes
+ * every query to the caller's workspace, and the searches also filter on it.
+ */
+export class SupabaseChunkStore implements ChunkStore {
+  constructor(
+    private client: SupabaseClient,
+    private workspace: Workspace,
+    private embeddings: EmbeddingsInterface,
+  ) {}
+
+  async addDocuments(documents: Document[]) {
+    const vectorStore = new SupabaseVectorStore(this.embeddings, {
+      client: this.client,
+      tableName: "documents",
+      queryName: "match_documents",
+    });
+    await vectorStore.addDocuments(documents);
+  }
+
+  async listChunkHashes(sourceId: string) {
+    const { data, error } = await this.client
+      .from("documents")
+      .select("id, content_hash")
+      .eq("source_id", sourceId);
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    return (data ?? []) as { id: number; content_hash: string | null }[];
+  }
+
+  async getChunk(id: number) {
+    const { data, error } = await this.client
+      .from("documents")
+      .select(CHUNK_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    return data as StoredChunk | null;
+  }
+
+  async getSourceChunks(sourceId: string, offset: number, limit: number) {
+    const { data, error, count } = await this.client
+      .from("documents")
+      .select(CHUNK_COLUMNS, { count: "exact" })
+      .eq("source_id", sourceId)
+      .order("id", { ascending: true })
+      .range(offset, offset + limit - 1);
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    return { items: (data ?? []) as StoredChunk[], total: count ?? 0 };
+  }
+
+  async deleteChunks(sourceId: string, ids?: number[]) {
+    let query = this.client
+      .from("documents")
+      .delete()
+      .eq("source_id", sourceId);
+    if (ids) {
+      query = query.in("id", ids);
+    }
+    const { error } = await query;
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+  }
+
+  async updateSourceMetadata() {
+    // The `sync_document_source_metadata` trigger already copies tags and
+    // status from `document_sources` onto the chunks
+  }
+
+  async search(
+    ranker: Ranker,
+    query: string,
+    filters: RetrievalFilters,
+    k: number,
+  ) {
+    const params =
+      ranker === "vector"
+        ? { query_embedding: await this.embeddings.embedQuery(query) }
+        : { query_text: query };
+    const functionName =
+      ranker === "vector" ? "match_documents" : "kw_match_documents";
+    const filter = toSupabaseFilter(this.workspace, filters);
+    // Like `SupabaseVectorStore`, function filters are applied to the
+    // results, so the limit has to come after them
+    const { data, error } =
+      typeof filter === "function"
+        ? await filter(this.client.rpc(functionName, params)).limit(k)
+        : await this.client.rpc(functionName, {
+            ...params,
+            match_count: k,
+            filter,
+          });
+    if (error) {
+      throw new Error(`Error searching for documents: ${error.message}`);
+    }
+    return (data ?? []) as MatchedChunk[];
+  }
+}
@@ -0,0 +1,109 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { AIMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+
+import type { RetrievalStep, StepTiming, TokenUsage } from "./annotations";
+
+/**
+ * Run names that mark a step of the retrieval chain. Give a runnable one of
+ * these with `withConfig({ runName })` to have it timed.
+ */
+export const TRACED_RUN_NAMES: Record<string, RetrievalStep> = {
+  condense_question: "condense",
+  rerank: "rerank",
+  generate_answer: "generate",
+};
+
+/**
+ * Records how long each step of a retrieval chain takes, and adds up the
+ * token usage of every model call made along the way. The prompt tokens of
+ * the model call made directly by the `generate` step are kept separately.
+ */
+export class RetrievalTraceHandler extends BaseCallbackHandler {
+  name = "retrieval_trace";
+
+  private startedAt = Date.now();
+
+  private running = new Map<string, { step: RetrievalStep; start: number }>();
+
+  readonly timings: StepTiming[] = [];
+
+  readonly usage: TokenUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+  };
+
+  answerPromptTokens?: number;
+
+  private start(runId: string, step: RetrievalStep) {
+    this.running.set(runId, { step, start: Date.now() });
+  }
+
+  private end(runId: string) {
+    const run = this.running.get(runId);
+    if (!run) {
+      return;
+    }
+    this.running.delete(runId);
+    this.timings.push({
+      step: run.step,
+      startedAt: run.start - this.startedAt,
+      durationMs: Date.now() - run.start,
+    });
+  }
+
+  handleChainStart(
+    _chain: unknown,
+    _inputs: unknown,
+    runId: string,
+    _parentRunId?: string,
+    _tags?: string[],
+    _metadata?: Record<string, unknown>,
+    _runType?: string,
+    runName?: string,
+  ) {
+    const step = runName && TRACED_RUN_NAMES[runName];
+    if (step) {
+      this.start(runId, step);
+    }
+  }
+
+  handleChainEnd(_outputs: unknown, runId: string) {
+    this.end(runId);
+  }
+
+  handleChainError(_error: unknown, runId: string) {
+    this.end(runId);
+  }
+
+  handleRetrieverStart(_retriever: unknown, _query: string, runId: string) {
+    this.start(runId, "retrieve");
+  }
+
+  handleRetrieverEnd(_documents: unknown, runId: string) {
+    this.end(runId);
+  }
+
+  handleRetrieverError(_error: unknown, runId: string) {
+    this.end(runId);
+  }
+
+  handleLLMEnd(output: LLMResult, _runId: string, parentRunId?: string) {
+    const isAnswer =
+      parentRunId !== undefined &&
+      this.running.get(parentRunId)?.step === "generate";
+    for (const generation of output.generations.flat()) {
+      const usage = ((generation as ChatGeneration).message as AIMessage)
+        ?.usage_metadata;
+      if (usage) {
+        if (isAnswer) {
+          this.answerPromptTokens = usage.input_tokens;
+        }
+        this.usage.promptTokens += usage.input_tokens;
+        this.usage.completionTokens += usage.output_tokens;
+        this.usage.totalTokens += usage.total_tokens;
+      }
+    }
+  }
+}
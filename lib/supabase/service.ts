@@ -0,0 +1,14 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * A Supabase client with the service role key, which bypasses row level
+ * security. Only for work that runs outside of a signed-in request, like the
+ * ingestion worker, which scopes its queries to each job's workspace itself.
+ */
+export function createSupabaseServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } },
+  );
+}
@@ -0,0 +1,88 @@
+import type { ModelFeature } from "@/lib/models/registry";
+
+/**
+ * Token usage accounting.
+ */
+
+/** The features whose model calls are metered, by their label. */
+export const USAGE_FEATURES = {
+  chat: "Chat",
+  agents: "Agents",
+  retrieval: "Retrieval",
+  retrieval_agents: "Retrieval agents",
+  generative_ui: "Generative UI",
+  content_writer: "Content writer",
+} satisfies Partial<Record<ModelFeature, string>>;
+
+export type UsageFeature = keyof typeof USAGE_FEATURES;
+
+/** USD per million tokens. */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+/**
+ * List prices, matched against the longest prefix of the model name so that
+ * dated snapshots such as `gpt-4o-mini-2024-07-18` are priced too.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o1-mini": { input: 3, output: 12 },
+  "o1-preview": { input: 15, output: 60 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3-sonnet": { input: 3, output: 15 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+};
+
+/** Providers that run locally, or not at all, and cost nothing per token. */
+const FREE_PROVIDERS = ["ollama", "fake"];
+
+/**
+ * The estimated cost of a model call in USD, or `null` for a model without a
+ * known price.
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  tokens: { promptTokens: number; completionTokens: number },
+) {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return 0;
+  }
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) {
+    return null;
+  }
+  const price = MODEL_PRICES[prefix];
+  return (
+    (tokens.promptTokens * price.input +
+      tokens.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+export type ModelUsage = {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  conversation_id: string | null;
+  feature: UsageFeature;
+  /** `ls_provider` and `ls_model_name` as reported by the model. */
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number | null;
+  latency_ms: number;
+  created_at: string;
+};
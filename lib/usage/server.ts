@@ -0,0 +1,92 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { AIMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { type UsageFeature, estimateCost } from "./defaults";
+
+/**
+ * Records the tokens, estimated cost and latency of every chat model call
+ * made by a run, as one `model_usage` row per call. Pass it in the run's
+ * `callbacks` so it also sees the calls made by nested chains, agents and
+ * tools. Rows are written before the call's result is passed on, and a
+ * failed write fails the run, so no call goes unmetered.
+ */
+export class UsageHandler extends BaseCallbackHandler {
+  name = "usage";
+
+  private running = new Map<
+    string,
+    { provider: string; model: string; start: number }
+  >();
+
+  constructor(
+    private client: SupabaseClient,
+    private context: {
+      feature: UsageFeature;
+      conversationId?: string | null;
+    },
+  ) {
+    super({ _awaitHandler: true, raiseError: true });
+  }
+
+  handleChatModelStart(
+    _llm: unknown,
+    _messages: unknown,
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ) {
+    this.running.set(runId, {
+      provider: String(metadata?.ls_provider ?? "unknown"),
+      model: String(metadata?.ls_model_name ?? "unknown"),
+      start: Date.now(),
+    });
+  }
+
+  handleLLMError(_error: unknown, runId: string) {
+    this.running.delete(runId);
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.running.get(runId);
+    if (!run) {
+      return;
+    }
+    this.running.delete(runId);
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    for (const generation of output.generations.flat()) {
+      const usage = ((generation as ChatGeneration).message as AIMessage)
+        ?.usage_metadata;
+      promptTokens += usage?.input_tokens ?? 0;
+      completionTokens += usage?.output_tokens ?? 0;
+    }
+    // Older integrations only report usage in `llmOutput`
+    if (!promptTokens && !completionTokens && output.llmOutput?.tokenUsage) {
+      promptTokens = output.llmOutput.tokenUsage.promptTokens ?? 0;
+      completionTokens = output.llmOutput.tokenUsage.completionTokens ?? 0;
+    }
+
+    const { error } = await this.client.from("model_usage").insert({
+      conversation_id: this.context.conversationId ?? null,
+      feature: this.context.feature,
+      provider: run.provider,
+      model: run.model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      cost_usd: estimateCost(run.provider, run.model, {
+        promptTokens,
+        completionTokens,
+      }),
+      latency_ms: Date.now() - run.start,
+    });
+    if (error) {
+      throw new Error(`Failed to record model usage: ${error.message}`);
+    }
+  }
+}
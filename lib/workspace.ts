@@ -0,0 +1,41 @@
+import { auth } from "@clerk/nextjs/server";
+
+import { HttpError } from "@/lib/errors";
+
+export type Workspace = {
+  userId: string;
+  /**
+   * The active Clerk organization, or the user's own id when they are working
+   * outside of an organization (their personal workspace).
+   */
+  workspaceId: string;
+};
+
+/**
+ * Resolves who is making the request and which workspace their documents
+ * belong to. Throws a 401 for anonymous requests.
+ */
+export async function getWorkspace(): Promise<Workspace> {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    throw new HttpError("Unauthorized", 401);
+  }
+  return { userId, workspaceId: orgId ?? userId };
+}
+
+/**
+ * Metadata stamped onto every ingested chunk. The `documents` table derives
+ * its `user_id` and `workspace_id` columns from it for row level security.
+ */
+export const workspaceMetadata = (workspace: Workspace) => ({
+  user_id: workspace.userId,
+  workspace_id: workspace.workspaceId,
+});
+
+/**
+ * Filter passed to `match_documents` so searches only consider chunks from
+ * the caller's workspace. RLS enforces the same rule in the database.
+ */
+export const workspaceFilter = (workspace: Workspace) => ({
+  workspace_id: workspace.workspaceId,
+});
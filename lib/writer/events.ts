@@ -0,0 +1,58 @@
+/**
+ * The events the content writer route streams, one JSON object per line.
+ */
+
+/** The nodes of the content writer graph, in the order they first run. */
+export const CONTENT_WRITER_NODES = {
+  outline: "Outline",
+  research: "Research",
+  draft: "Draft sections",
+  critique: "Self-critique",
+  revise: "Revise",
+  seo: "SEO check",
+  save: "Save draft",
+} as const;
+
+export type ContentWriterNode = keyof typeof CONTENT_WRITER_NODES;
+
+export type SeoCheck = { label: string; passed: boolean };
+
+export type SeoReport = {
+  title: string;
+  metaDescription: string;
+  keywords: string[];
+  /** Measured on the article itself. */
+  checks: SeoCheck[];
+  /** The model's advice on what the checks don't cover. */
+  suggestions: string[];
+};
+
+/** An article the writer produced, with its SEO report once checked. */
+export type WrittenArticle = {
+  title: string;
+  body: string;
+  seo?: SeoReport;
+};
+
+export type ContentWriterEvent =
+  /** A node started. `critique` and `revise` can run more than once. */
+  | { type: "node_start"; node: ContentWriterNode }
+  /** A node finished a piece of its work, such as a section. */
+  | { type: "node_progress"; node: ContentWriterNode; message: string }
+  | { type: "node_end"; node: ContentWriterNode; summary: string }
+  /** The article was saved as a `draft` row in `content`. */
+  | {
+      type: "draft";
+      id: string;
+      title: string;
+      body: string;
+      seo: SeoReport;
+    }
+  /**
+   * The run failed. `article` is what was written before it did, e.g. when
+   * the draft could not be saved, so the work isn't lost.
+   */
+  | { type: "error"; error: string; article?: WrittenArticle };
+
+export const encodeContentWriterEvent = (event: ContentWriterEvent) =>
+  `${JSON.stringify(event)}\n`;
@@ -0,0 +1,443 @@
+import { dispatchCustomEvent } from "@langchain/core/callbacks/dispatch";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { BaseRetrieverInterface } from "@langchain/core/retrievers";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { Annotation, END, START, StateGraph } from "@langchain/langgraph";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+import { HttpError } from "@/lib/errors";
+import type { ToolCallingChatModel } from "@/lib/models/registry";
+import type { ContentWriterNode, SeoCheck, SeoReport } from "./events";
+
+/** How many times a draft is revised before it goes on regardless. */
+const MAX_REVISIONS = 2;
+/** Queries researched per section, and results kept per query. */
+const QUERIES_PER_SECTION = 2;
+const RESULTS_PER_QUERY = 3;
+const NOTE_LENGTH = 500;
+const MIN_WORDS = 300;
+const MAX_TITLE_LENGTH = 60;
+const META_DESCRIPTION_LENGTH = { min: 50, max: 160 };
+
+const outlineSchema = z
+  .object({
+    title: z.string().describe("The article's working title"),
+    sections: z
+      .array(
+        z.object({
+          heading: z.string(),
+          summary: z.string().describe("What the section covers"),
+          queries: z
+            .array(z.string())
+            .describe("Search queries to research the section with"),
+        }),
+      )
+      .describe("The article's sections, in order, starting with an intro"),
+  })
+  .describe("An article outline");
+
+const critiqueSchema = z
+  .object({
+    approved: z
+      .boolean()
+      .describe("Whether the article can be published as it is"),
+    issues: z.array(
+      z.object({
+        section: z
+          .number()
+          .int()
+          .describe(
+            "The number of the section, counting from 1, or 0 for the article",
+          ),
+        problem: z.string(),
+        suggestion: z.string(),
+      }),
+    ),
+  })
+  .describe("A review of an article draft");
+
+const seoSchema = z
+  .object({
+    title: z
+      .string()
+      .describe(
+        `A search result title of at most ${MAX_TITLE_LENGTH} characters`,
+      ),
+    metaDescription: z
+      .string()
+      .describe(
+        `A meta description of ${META_DESCRIPTION_LENGTH.min} to ${META_DESCRIPTION_LENGTH.max} characters`,
+      ),
+    keywords: z
+      .array(z.string())
+      .describe("Keywords to rank for, the primary one first"),
+    suggestions: z
+      .array(z.string())
+      .describe("Further changes that would help the article rank"),
+  })
+  .describe("Search engine optimization for an article");
+
+type OutlineSection = z.infer<typeof outlineSchema>["sections"][number];
+type Critique = z.infer<typeof critiqueSchema>;
+
+export type ContentWriterInput = {
+  topic: string;
+  audience?: string;
+  /** Keywords the article should rank for. */
+  keywords?: string[];
+};
+
+const ContentWriterState = Annotation.Root({
+  topic: Annotation<string>,
+  audience: Annotation<string | undefined>,
+  keywords: Annotation<string[] | undefined>,
+  title: Annotation<string>,
+  sections: Annotation<OutlineSection[]>,
+  /**
+   * Research notes and section texts, in outline order. They are kept by
+   * index as two sections can share a heading.
+   */
+  notes: Annotation<string[][]>,
+  drafts: Annotation<string[]>,
+  review: Annotation<Critique>,
+  revisions: Annotation<number>,
+  seoReport: Annotation<SeoReport>,
+  contentId: Annotation<string>,
+});
+
+export type ContentWriterState = typeof ContentWriterState.State;
+
+/** Reports progress within a node, as a `node_progress` event. */
+const reportProgress = (message: string, config: RunnableConfig) =>
+  dispatchCustomEvent("progress", { message }, config);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** The article as Markdown, with its sections in outline order. */
+export const articleBody = (
+  state: Pick<ContentWriterState, "sections" | "drafts">,
+) =>
+  state.sections
+    .map(({ heading }, i) => `## ${heading}\n\n${state.drafts[i] ?? ""}`)
+    .join("\n\n");
+
+/** The article with its sections numbered, so the critique can name them. */
+const numberedArticle = (state: ContentWriterState) =>
+  state.sections
+    .map(
+      ({ heading }, i) =>
+        `## Section ${i + 1}: ${heading}\n\n${state.drafts[i] ?? ""}`,
+    )
+    .join("\n\n");
+
+const describeBrief = (state: ContentWriterState) =>
+  [
+    `Topic: ${state.topic}`,
+    state.audience ? `Audience: ${state.audience}` : "",
+    state.keywords?.length ? `Keywords: ${state.keywords.join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+const describeOutline = (state: ContentWriterState) =>
+  state.sections
+    .map(({ heading, summary }) => `- ${heading}: ${summary}`)
+    .join("\n");
+
+/**
+ * The SEO checks measured on the article. The primary keyword is the first
+ * one asked for, or else the first one suggested.
+ */
+function checkSeo(
+  state: ContentWriterState,
+  seo: z.infer<typeof seoSchema>,
+): SeoCheck[] {
+  const keyword = (state.keywords?.[0] ?? seo.keywords[0] ?? "").toLowerCase();
+  const intro = state.drafts[0] ?? "";
+  const checks: SeoCheck[] = [
+    {
+      label: `Title is ${MAX_TITLE_LENGTH} characters or fewer`,
+      passed: seo.title.length <= MAX_TITLE_LENGTH,
+    },
+    {
+      label: `Meta description is ${META_DESCRIPTION_LENGTH.min} to ${META_DESCRIPTION_LENGTH.max} characters`,
+      passed:
+        seo.metaDescription.length >= META_DESCRIPTION_LENGTH.min &&
+        seo.metaDescription.length <= META_DESCRIPTION_LENGTH.max,
+    },
+    {
+      label: `At least ${MIN_WORDS} words`,
+      passed: countWords(articleBody(state)) >= MIN_WORDS,
+    },
+    {
+      label: "At least 2 section headings",
+      passed: state.sections.length >= 2,
+    },
+  ];
+  if (keyword) {
+    checks.push(
+      {
+        label: `Title includes "${keyword}"`,
+        passed: seo.title.toLowerCase().includes(keyword),
+      },
+      {
+        label: `Introduction mentions "${keyword}"`,
+        passed: intro.toLowerCase().includes(keyword),
+      },
+    );
+  }
+  return checks;
+}
+
+/**
+ * A LangGraph workflow that writes an article on a topic and saves it as a
+ * `draft` row in `content`:
+ *
+ * outline → research → draft → critique ⇄ revise → seo → save
+ *
+ * Research looks each section up with `retriever`, and with `search` when it
+ * is given. Drafts are revised until the critique approves them, or
+ * `MAX_REVISIONS` times. The SEO check picks the saved title.
+ *
+ * `signal` stops the run, along with the model calls in flight, e.g. when
+ * the client disconnects. `streamEvents` doesn't pass the signal of its
+ * config on to the nodes, so it is given here.
+ */
+export function createContentWriter(options: {
+  model: ToolCallingChatModel;
+  retriever: BaseRetrieverInterface;
+  search?: StructuredToolInterface;
+  client: SupabaseClient;
+  userId: string;
+  signal?: AbortSignal;
+}) {
+  const { model, retriever, search, client, userId, signal } = options;
+
+  const abortable =
+    <Update>(
+      node: (state: ContentWriterState, config: RunnableConfig) => Update,
+    ) =>
+    (state: ContentWriterState, config: RunnableConfig) => {
+      signal?.throwIfAborted();
+      return node(state, signal ? { ...config, signal } : config);
+    };
+
+  async function outline(state: ContentWriterState, config: RunnableConfig) {
+    const result = await model
+      .withStructuredOutput(outlineSchema, { name: "outline" })
+      .invoke(
+        [
+          new SystemMessage(
+            "You plan well-researched articles. Outline an article for the brief, with 3 to 6 sections.",
+          ),
+          new HumanMessage(describeBrief(state)),
+        ],
+        config,
+      );
+    return { title: result.title, sections: result.sections };
+  }
+
+  async function research(state: ContentWriterState, config: RunnableConfig) {
+    const notes: string[][] = [];
+    for (const section of state.sections) {
+      const queries = section.queries.length
+        ? section.queries.slice(0, QUERIES_PER_SECTION)
+        : [`${state.topic}: ${section.heading}`];
+      const found: string[] = [];
+      for (const query of queries) {
+        const documents = await retriever.invoke(query, config);
+        for (const document of documents.slice(0, RESULTS_PER_QUERY)) {
+          found.push(`(library) ${document.pageContent.slice(0, NOTE_LENGTH)}`);
+        }
+        if (search) {
+          const result = await search.invoke(query, config);
+          found.push(`(web) ${`${result}`.slice(0, NOTE_LENGTH)}`);
+        }
+      }
+      notes.push(found);
+      await reportProgress(`${section.heading}: ${found.length} notes`, config);
+    }
+    return { notes };
+  }
+
+  async function draft(state: ContentWriterState, config: RunnableConfig) {
+    const drafts: string[] = [];
+    for (let i = 0; i < state.sections.length; i++) {
+      const section = state.sections[i];
+      const notes = state.notes[i] ?? [];
+      const response = await model.invoke(
+        [
+          new SystemMessage(
+            "You write one section of an article at a time. Reply with the section's text in Markdown, without its heading. Only state facts found in the notes.",
+          ),
+          new HumanMessage(
+            `${describeBrief(state)}
+
+Title: ${state.title}
+Outline:
+${describeOutline(state)}
+
+Section: ${section.heading}
+It covers: ${section.summary}
+
+Notes:
+${notes.join("\n\n") || "(none)"}`,
+          ),
+        ],
+        config,
+      );
+      drafts[i] = `${response.content}`.trim();
+      await reportProgress(
+        `${section.heading}: ${countWords(drafts[i])} words`,
+        config,
+      );
+    }
+    return { drafts, revisions: 0 };
+  }
+
+  async function critique(state: ContentWriterState, config: RunnableConfig) {
+    const review = await model
+      .withStructuredOutput(critiqueSchema, { name: "critique" })
+      .invoke(
+        [
+          new SystemMessage(
+            "You are a demanding editor. Review the article against its brief for accuracy, structure, clarity and tone. Only approve it if it needs no changes.",
+          ),
+          new HumanMessage(
+            `${describeBrief(state)}\n\n# ${state.title}\n\n${numberedArticle(state)}`,
+          ),
+        ],
+        config,
+      );
+    return { review };
+  }
+
+  async function revise(state: ContentWriterState, config: RunnableConfig) {
+    const drafts = [...state.drafts];
+    for (let i = 0; i < state.sections.length; i++) {
+      const { heading } = state.sections[i];
+      // Issues that name no section apply to all of them
+      const issues = state.review.issues.filter(
+        (issue) =>
+          issue.section === i + 1 ||
+          !(issue.section >= 1 && issue.section <= state.sections.length),
+      );
+      if (!issues.length) {
+        continue;
+      }
+      const response = await model.invoke(
+        [
+          new SystemMessage(
+            "You revise one section of an article at a time. Reply with the revised text in Markdown, without its heading.",
+          ),
+          new HumanMessage(
+            `Section: ${heading}
+
+${drafts[i]}
+
+Editor's notes:
+${issues.map((issue) => `- ${issue.problem} ${issue.suggestion}`).join("\n")}`,
+          ),
+        ],
+        config,
+      );
+      drafts[i] = `${response.content}`.trim();
+      await reportProgress(`Revised ${heading}`, config);
+    }
+    return { drafts, revisions: state.revisions + 1 };
+  }
+
+  async function seo(state: ContentWriterState, config: RunnableConfig) {
+    const result = await model
+      .withStructuredOutput(seoSchema, { name: "seo" })
+      .invoke(
+        [
+          new SystemMessage(
+            "You optimize articles for search engines. Suggest the title, meta description and keywords the article should be published with.",
+          ),
+          new HumanMessage(
+            `${describeBrief(state)}\n\n# ${state.title}\n\n${articleBody(state)}`,
+          ),
+        ],
+        config,
+      );
+    const seoReport: SeoReport = {
+      ...result,
+      title: result.title || state.title,
+      checks: checkSeo(state, result),
+    };
+    return { seoReport };
+  }
+
+  async function save(state: ContentWriterState) {
+    const { data, error } = await client
+      .from("content")
+      .insert({
+        title: state.seoReport.title,
+        body: `# ${state.seoReport.title}\n\n${articleBody(state)}`,
+        status: "draft",
+        user_id: userId,
+      })
+      .select("id")
+      .single();
+    if (error) {
+      throw new HttpError(error.message, 500);
+    }
+    return { contentId: data.id as string };
+  }
+
+  const afterCritique = (state: ContentWriterState) =>
+    state.review.approved ||
+    !state.review.issues.length ||
+    state.revisions >= MAX_REVISIONS
+      ? "seo"
+      : "revise";
+
+  return new StateGraph(ContentWriterState)
+    .addNode("outline", abortable(outline))
+    .addNode("research", abortable(research))
+    .addNode("draft", abortable(draft))
+    .addNode("critique", abortable(critique))
+    .addNode("revise", abortable(revise))
+    .addNode("seo", abortable(seo))
+    .addNode("save", abortable(save))
+    .addEdge(START, "outline")
+    .addEdge("outline", "research")
+    .addEdge("research", "draft")
+    .addEdge("draft", "critique")
+    .addConditionalEdges("critique", afterCritique, ["revise", "seo"])
+    .addEdge("revise", "critique")
+    .addEdge("seo", "save")
+    .addEdge("save", END)
+    .compile();
+}
+
+export type ContentWriter = ReturnType<typeof createContentWriter>;
+
+/** What a node's update is summarized as in its `node_end` event. */
+export function summarizeUpdate(
+  node: ContentWriterNode,
+  update: Partial<ContentWriterState>,
+) {
+  switch (node) {
+    case "outline":
+      return `"${update.title}" in ${update.sections?.length ?? 0} sections`;
+    case "research":
+      return `${(update.notes ?? []).flat().length} notes`;
+    case "draft":
+    case "revise":
+      return `${countWords((update.drafts ?? []).join(" "))} words`;
+    case "critique":
+      return update.review?.approved
+        ? "Approved"
+        : `${update.review?.issues.length ?? 0} issues`;
+    case "seo": {
+      const checks = update.seoReport?.checks ?? [];
+      return `${checks.filter(({ passed }) => passed).length} of ${checks.length} checks passed`;
+    }
+    case "save":
+      return "Saved as a draft";
+  }
+}
@@ -0,0 +1,92 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+import {
+  CONTENT_WRITER_NODES,
+  type ContentWriterEvent,
+  type ContentWriterNode,
+  encodeContentWriterEvent,
+} from "./events";
+import {
+  type ContentWriter,
+  type ContentWriterInput,
+  type ContentWriterState,
+  articleBody,
+  summarizeUpdate,
+} from "./graph";
+
+const isWriterNode = (name: unknown): name is ContentWriterNode =>
+  typeof name === "string" && name in CONTENT_WRITER_NODES;
+
+/**
+ * Runs the content writer and streams its progress as newline-delimited
+ * `ContentWriterEvent`s: each node as it starts and ends, with the progress
+ * it reports in between, then the saved draft. Errors are sent as an
+ * `error` event, with the article written so far, before the stream closes.
+ * Nothing is sent once the `signal` in `config` aborts.
+ */
+export function streamContentWriter(
+  writer: ContentWriter,
+  input: ContentWriterInput,
+  config: RunnableConfig,
+) {
+  const textEncoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ContentWriterEvent) =>
+        controller.enqueue(textEncoder.encode(encodeContentWriterEvent(event)));
+      // The nodes' updates add up to the final state
+      let state = { ...input } as ContentWriterState;
+      try {
+        for await (const { event, name, data, metadata } of writer.streamEvents(
+          input,
+          { ...config, version: "v2" },
+        )) {
+          const node = metadata?.langgraph_node;
+          if (!isWriterNode(node)) {
+            continue;
+          }
+          if (event === "on_chain_start" && name === node) {
+            send({ type: "node_start", node });
+          } else if (event === "on_custom_event" && name === "progress") {
+            send({
+              type: "node_progress",
+              node,
+              message: (data as { message: string }).message,
+            });
+          } else if (event === "on_chain_end" && name === node) {
+            state = { ...state, ...data.output };
+            send({
+              type: "node_end",
+              node,
+              summary: summarizeUpdate(node, data.output),
+            });
+          }
+        }
+        send({
+          type: "draft",
+          id: state.contentId,
+          title: state.seoReport.title,
+          body: articleBody(state),
+          seo: state.seoReport,
+        });
+      } catch (e: any) {
+        if (config.signal?.aborted) {
+          // The client went away and the stream was cancelled
+          return;
+        }
+        send({
+          type: "error",
+          error: e.message,
+          article: state.drafts
+            ? {
+                title: state.seoReport?.title ?? state.title,
+                body: articleBody(state),
+                seo: state.seoReport,
+              }
+            : undefined,
+        });
+      }
+      controller.close();
+    },
+  });
+}
@@ -1,4 +1,7 @@
 const withBundleAnalyzer = require("@next/bundle-analyzer")({
   enabled: process.env.ANALYZE === "true",
 });
-module.exports = withBundleAnalyzer({});
+module.exports = withBundleAnalyzer({
+  // Starts the ingestion worker, see instrumentation.ts
+  experimental: { instrumentationHook: true },
+});
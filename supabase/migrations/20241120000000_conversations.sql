@@ -0,0 +1,47 @@
+-- Conversation history for the ChatWindow endpoints.
+--
+-- Rows are owned by the Clerk user in the `sub` claim of the Supabase JWT
+-- template, so user ids are Clerk ids (text) rather than Supabase auth uuids.
+
+create table conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  endpoint text not null check (
+    endpoint in ('chat', 'agents', 'retrieval', 'retrieval_agents')
+  ),
+  title text not null default 'New conversation',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index conversations_user_endpoint_idx
+  on conversations (user_id, endpoint, updated_at desc);
+
+create table messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant', 'tool')),
+  content text not null default '',
+  -- Tool calls made by the agent for this step, in LangChain's ToolCall shape.
+  tool_calls jsonb,
+  -- Retrieved chunks that were sent back in the `x-sources` header.
+  sources jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index messages_conversation_idx
+  on messages (conversation_id, created_at);
+
+alter table conversations enable row level security;
+alter table messages enable row level security;
+
+create policy "Users can manage own conversations" on conversations
+  for all using ((auth.jwt() ->> 'sub') = user_id)
+  with check ((auth.jwt() ->> 'sub') = user_id);
+
+create policy "Users can manage messages in own conversations" on messages
+  for all using (
+    conversation_id in (
+      select id from conversations where user_id = (auth.jwt() ->> 'sub')
+    )
+  );
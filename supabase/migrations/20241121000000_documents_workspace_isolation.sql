@@ -0,0 +1,69 @@
+-- Isolates the `documents` vector store per user and workspace.
+--
+-- Assumes the table and `match_documents` function from
+-- https://js.langchain.com/docs/integrations/vectorstores/supabase.
+--
+-- A workspace is the active Clerk organization, or the user's own id for
+-- their personal workspace. Add `"org_id": "{{org.id}}"` to the Clerk
+-- `supabase` JWT template so the policies below can see it.
+
+-- Existing rows were uploaded before ownership was tracked and are not
+-- visible to anyone once RLS is enabled. Re-ingest them or delete them.
+alter table documents
+  add column user_id text generated always as (metadata ->> 'user_id') stored,
+  add column workspace_id text generated always as (metadata ->> 'workspace_id') stored;
+
+create index documents_workspace_id_idx on documents (workspace_id);
+
+create or replace function requesting_workspace_id() returns text
+language sql stable
+as $$
+  select coalesce(auth.jwt() ->> 'org_id', auth.jwt() ->> 'sub')
+$$;
+
+alter table documents enable row level security;
+
+create policy "Members can read documents in their workspace" on documents
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can add documents to their workspace" on documents
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Members can delete documents in their workspace" on documents
+  for delete using (workspace_id = requesting_workspace_id());
+
+-- `match_documents` runs as the caller (security invoker), so the policies
+-- above apply on top of the `workspace_id` metadata filter the routes pass.
+create or replace function match_documents (
+  query_embedding vector(1536),
+  match_count int default null,
+  filter jsonb default '{}'
+) returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  embedding jsonb,
+  similarity float
+)
+language plpgsql
+security invoker
+as $$
+#variable_conflict use_column
+begin
+  return query
+  select
+    id,
+    content,
+    metadata,
+    (embedding::text)::jsonb as embedding,
+    1 - (documents.embedding <=> query_embedding) as similarity
+  from documents
+  where metadata @> filter
+    and workspace_id = requesting_workspace_id()
+  order by documents.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,42 @@
+-- One row per uploaded file or pasted text. Chunks in `documents` point back
+-- to their source through `metadata ->> 'source_id'`.
+
+create table document_sources (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  name text not null,
+  mime_type text not null,
+  -- The loaded pages, sections or rows before splitting, so the source can be
+  -- re-split with a different configuration without uploading it again.
+  documents jsonb not null,
+  splitter_config jsonb not null,
+  chunk_count int not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index document_sources_workspace_idx
+  on document_sources (workspace_id, created_at desc);
+
+alter table documents
+  add column source_id uuid generated always as ((metadata ->> 'source_id')::uuid) stored;
+
+create index documents_source_id_idx on documents (source_id);
+
+alter table document_sources enable row level security;
+
+create policy "Members can read sources in their workspace" on document_sources
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can add sources to their workspace" on document_sources
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Members can update sources in their workspace" on document_sources
+  for update using (workspace_id = requesting_workspace_id());
+
+create policy "Members can delete sources in their workspace" on document_sources
+  for delete using (workspace_id = requesting_workspace_id());
@@ -0,0 +1,16 @@
+-- Fingerprints used to make re-ingestion idempotent.
+--
+-- A source is identified by its name within a workspace. `content_hash`
+-- covers everything that was loaded for it, and each chunk carries the hash
+-- of its own text in `metadata ->> 'content_hash'`.
+
+alter table document_sources add column content_hash text;
+
+create unique index document_sources_workspace_name_idx
+  on document_sources (workspace_id, name);
+
+alter table documents
+  add column content_hash text generated always as (metadata ->> 'content_hash') stored;
+
+create index documents_source_content_hash_idx
+  on documents (source_id, content_hash);
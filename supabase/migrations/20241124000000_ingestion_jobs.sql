@@ -0,0 +1,36 @@
+-- Uploads are ingested in the background. Each upload creates a job that the
+-- upload form polls for its status and progress.
+
+create table ingestion_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  status text not null default 'queued'
+    check (status in ('queued', 'splitting', 'embedding', 'done', 'failed')),
+  source_names text[] not null default '{}',
+  -- Only chunks that need embedding count towards progress; unchanged chunks
+  -- are skipped.
+  processed_chunks int not null default 0,
+  total_chunks int not null default 0,
+  error text,
+  result jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index ingestion_jobs_workspace_idx
+  on ingestion_jobs (workspace_id, created_at desc);
+
+alter table ingestion_jobs enable row level security;
+
+create policy "Members can read jobs in their workspace" on ingestion_jobs
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can create jobs in their workspace" on ingestion_jobs
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Users can update their own jobs" on ingestion_jobs
+  for update using (user_id = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,42 @@
+-- Full-text search over chunks, used alongside `match_documents` by the
+-- hybrid retriever so exact names and acronyms are found even when their
+-- embeddings aren't close to the question's.
+
+alter table documents
+  add column fts tsvector generated always as (to_tsvector('english', content)) stored;
+
+create index documents_fts_idx on documents using gin (fts);
+
+-- Matches chunks containing any of the query's terms, ranked by how many
+-- they contain and how close together they are. Like `match_documents`, it
+-- runs as the caller so row level security applies.
+create or replace function kw_match_documents (
+  query_text text,
+  match_count int default null,
+  filter jsonb default '{}'
+) returns table (
+  id bigint,
+  content text,
+  metadata jsonb,
+  similarity real
+)
+language sql stable
+security invoker
+as $$
+  select
+    documents.id,
+    documents.content,
+    documents.metadata,
+    ts_rank_cd(documents.fts, query) as similarity
+  from
+    documents,
+    to_tsquery(
+      'english',
+      replace(plainto_tsquery('english', query_text)::text, ' & ', ' | ')
+    ) as query
+  where documents.fts @@ query
+    and documents.metadata @> filter
+    and documents.workspace_id = requesting_workspace_id()
+  order by similarity desc
+  limit match_count;
+$$;
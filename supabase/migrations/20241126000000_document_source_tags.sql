@@ -0,0 +1,76 @@
+-- Tags and a publication status on sources, copied onto their chunks so the
+-- retrieval routes can filter on them with `metadata @> filter`. Chunks also
+-- get the source's `created_at` for date range filters.
+--
+-- These mirror the `tag` entries of the `metadata` table and the `status` of
+-- the `content` table designed in docs/video-2.md.
+
+alter table document_sources
+  add column tags text[] not null default '{}',
+  add column status text not null default 'published'
+    check (status in ('draft', 'published', 'archived'));
+
+create index document_sources_tags_idx on document_sources using gin (tags);
+
+create index documents_metadata_idx on documents using gin (metadata jsonb_path_ops);
+
+create policy "Members can update documents in their workspace" on documents
+  for update using (workspace_id = requesting_workspace_id());
+
+-- Stamps new chunks with their source's tags, status and creation date.
+-- Generated columns aren't computed yet in a before trigger, so the source
+-- id is read from the metadata rather than `source_id`.
+create or replace function stamp_document_source_metadata() returns trigger
+language plpgsql
+security invoker
+as $$
+declare
+  source document_sources;
+begin
+  select * into source from document_sources
+    where id = (new.metadata ->> 'source_id')::uuid;
+  if found then
+    new.metadata := new.metadata || jsonb_build_object(
+      'tags', to_jsonb(source.tags),
+      'status', source.status,
+      'created_at', source.created_at
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger documents_stamp_source_metadata
+  before insert on documents
+  for each row execute function stamp_document_source_metadata();
+
+-- Keeps existing chunks in step when a source's tags or status change.
+create or replace function sync_document_source_metadata() returns trigger
+language plpgsql
+security invoker
+as $$
+begin
+  update documents
+    set metadata = metadata || jsonb_build_object(
+      'tags', to_jsonb(new.tags),
+      'status', new.status
+    )
+    where source_id = new.id;
+  return new;
+end;
+$$;
+
+create trigger document_sources_sync_metadata
+  after update of tags, status on document_sources
+  for each row execute function sync_document_source_metadata();
+
+-- Stamps the chunks ingested before this migration, so the filters match
+-- them too.
+update documents d
+  set metadata = d.metadata || jsonb_build_object(
+    'tags', to_jsonb(s.tags),
+    'status', s.status,
+    'created_at', s.created_at
+  )
+  from document_sources s
+  where d.source_id = s.id;
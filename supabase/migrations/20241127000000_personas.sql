@@ -0,0 +1,41 @@
+-- Personas give the chat endpoints their name, emoji, system prompt,
+-- temperature and tools. They are shared by everyone in a workspace and
+-- picked per conversation; conversations without one use the endpoint's
+-- built-in persona from `lib/personas/defaults.ts`.
+
+create table personas (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  name text not null,
+  emoji text not null,
+  system_prompt text not null,
+  -- Null keeps the temperature configured in the model registry.
+  temperature real check (temperature between 0 and 2),
+  -- Tool names the persona may use. Null allows every tool of the endpoint.
+  allowed_tools text[],
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index personas_workspace_idx on personas (workspace_id, name);
+
+alter table conversations
+  add column persona_id uuid references personas(id) on delete set null;
+
+alter table personas enable row level security;
+
+create policy "Members can read personas in their workspace" on personas
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can add personas to their workspace" on personas
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Members can update personas in their workspace" on personas
+  for update using (workspace_id = requesting_workspace_id());
+
+create policy "Members can delete personas in their workspace" on personas
+  for delete using (workspace_id = requesting_workspace_id());
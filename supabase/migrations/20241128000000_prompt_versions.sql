@@ -0,0 +1,77 @@
+-- Versioned prompt templates, per workspace. The keys and built-in templates
+-- (served as version 0) are defined in `lib/prompts/defaults.ts`.
+
+create table prompt_versions (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  prompt_key text not null,
+  version int not null check (version > 0),
+  template text not null,
+  note text,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, prompt_key, version)
+);
+
+-- Which version each prompt serves, and optionally a candidate version that
+-- gets a share of conversations for an A/B test.
+create table prompt_deployments (
+  workspace_id text not null default requesting_workspace_id(),
+  prompt_key text not null,
+  -- Null serves the built-in template.
+  version_id uuid references prompt_versions(id) on delete set null,
+  candidate_version_id uuid references prompt_versions(id) on delete set null,
+  candidate_traffic int not null default 0 check (
+    candidate_traffic between 0 and 100
+  ),
+  updated_at timestamptz not null default now(),
+  primary key (workspace_id, prompt_key)
+);
+
+-- One row per prompt used for an answer, so latency (and feedback on the
+-- message) can be compared between versions.
+create table prompt_runs (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  prompt_key text not null,
+  -- Null with version 0 for the built-in template.
+  version_id uuid references prompt_versions(id) on delete set null,
+  version int not null,
+  variant text not null check (variant in ('control', 'candidate')),
+  -- The assistant message that was produced, for stored conversations.
+  message_id uuid references messages(id) on delete set null,
+  latency_ms int not null,
+  created_at timestamptz not null default now()
+);
+
+create index prompt_runs_workspace_key_idx
+  on prompt_runs (workspace_id, prompt_key, created_at desc);
+create index prompt_runs_message_id_idx on prompt_runs (message_id);
+
+alter table prompt_versions enable row level security;
+alter table prompt_deployments enable row level security;
+alter table prompt_runs enable row level security;
+
+-- Versions are immutable: edits are saved as a new version.
+create policy "Members can read prompt versions in their workspace" on prompt_versions
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can add prompt versions to their workspace" on prompt_versions
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Members can manage deployments in their workspace" on prompt_deployments
+  for all using (workspace_id = requesting_workspace_id())
+  with check (workspace_id = requesting_workspace_id());
+
+create policy "Members can read prompt runs in their workspace" on prompt_runs
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can record prompt runs in their workspace" on prompt_runs
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
@@ -0,0 +1,54 @@
+-- Thumbs up/down ratings and comments on assistant messages.
+
+-- What produced each answer, copied onto its feedback when it is rated.
+alter table messages
+  add column persona_id uuid references personas(id) on delete set null,
+  -- `provider:model` from the model registry.
+  add column model text;
+
+-- Feedback is reviewed by the whole workspace, while conversations are only
+-- visible to their owner, so each row keeps a snapshot of the rated answer.
+create table message_feedback (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  message_id uuid not null references messages(id) on delete cascade,
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  endpoint text not null,
+  rating text not null check (rating in ('up', 'down')),
+  comment text,
+  question text,
+  answer text not null,
+  persona_id uuid references personas(id) on delete set null,
+  persona_name text not null,
+  model text,
+  -- Ids of the `documents` chunks that were retrieved for the answer.
+  source_ids bigint[] not null default '{}',
+  -- `{ key, version }` of each prompt used, from `prompt_runs`.
+  prompt_versions jsonb not null default '[]',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (message_id, user_id)
+);
+
+create index message_feedback_workspace_idx
+  on message_feedback (workspace_id, created_at desc);
+create index message_feedback_conversation_idx
+  on message_feedback (conversation_id);
+
+alter table message_feedback enable row level security;
+
+create policy "Members can read feedback in their workspace" on message_feedback
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can give feedback in their workspace" on message_feedback
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Users can update their own feedback" on message_feedback
+  for update using (user_id = (auth.jwt() ->> 'sub'));
+
+create policy "Users can delete their own feedback" on message_feedback
+  for delete using (user_id = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,31 @@
+-- Tokens, estimated cost and latency of every chat model call.
+create table model_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  conversation_id uuid references conversations(id) on delete set null,
+  feature text not null,
+  provider text not null,
+  model text not null,
+  prompt_tokens int not null default 0,
+  completion_tokens int not null default 0,
+  total_tokens int not null default 0,
+  -- Null for models without a known price, see `lib/usage/defaults.ts`.
+  cost_usd numeric(12, 6),
+  latency_ms int not null,
+  created_at timestamptz not null default now()
+);
+
+create index model_usage_workspace_idx
+  on model_usage (workspace_id, created_at desc);
+
+alter table model_usage enable row level security;
+
+create policy "Members can read model usage in their workspace" on model_usage
+  for select using (workspace_id = requesting_workspace_id());
+
+create policy "Users can record model usage in their workspace" on model_usage
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
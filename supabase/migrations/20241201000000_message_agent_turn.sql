@@ -0,0 +1,3 @@
+-- Which of the agent's model replies made a `tool` message's call, counted
+-- from 0 per answer. Calls made in the same turn ran in parallel.
+alter table messages add column agent_turn int;
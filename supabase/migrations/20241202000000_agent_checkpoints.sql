@@ -0,0 +1,58 @@
+-- LangGraph checkpoints of agent runs, written by `SupabaseSaver` so a run
+-- paused for tool approval can resume in a later request.
+create table agent_checkpoints (
+  thread_id text not null,
+  -- Empty for the top-level graph, set for subgraphs.
+  checkpoint_ns text not null default '',
+  checkpoint_id text not null,
+  parent_checkpoint_id text,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  conversation_id uuid references conversations(id) on delete cascade,
+  -- Serialized by the checkpointer's serde, without `pending_sends`.
+  checkpoint jsonb not null,
+  metadata jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  primary key (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+-- Writes of the tasks that ran on top of a checkpoint, replayed when the
+-- run resumes from it.
+create table agent_checkpoint_writes (
+  thread_id text not null,
+  checkpoint_ns text not null default '',
+  checkpoint_id text not null,
+  task_id text not null,
+  idx int not null,
+  channel text not null,
+  value jsonb,
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  workspace_id text not null default requesting_workspace_id(),
+  primary key (thread_id, checkpoint_ns, checkpoint_id, task_id, idx),
+  foreign key (thread_id, checkpoint_ns, checkpoint_id)
+    references agent_checkpoints on delete cascade
+);
+
+alter table agent_checkpoints enable row level security;
+alter table agent_checkpoint_writes enable row level security;
+
+create policy "Users can read their own agent checkpoints" on agent_checkpoints
+  for select using (user_id = (auth.jwt() ->> 'sub'));
+
+create policy "Users can save agent checkpoints in their workspace" on agent_checkpoints
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Users can read their own agent checkpoint writes" on agent_checkpoint_writes
+  for select using (user_id = (auth.jwt() ->> 'sub'));
+
+create policy "Users can save agent checkpoint writes in their workspace" on agent_checkpoint_writes
+  for insert with check (
+    user_id = (auth.jwt() ->> 'sub')
+    and workspace_id = requesting_workspace_id()
+  );
+
+create policy "Users can update their own agent checkpoint writes" on agent_checkpoint_writes
+  for update using (user_id = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,24 @@
+-- Articles managed through the tRPC `content` router, and drafts saved by the
+-- content writer. The shape follows docs/video-2.md, except that rows are
+-- owned by the Clerk user in the `sub` claim of the Supabase JWT template, so
+-- `user_id` is a Clerk id (text) rather than a reference to a `users` table.
+
+create table content (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null default (auth.jwt() ->> 'sub'),
+  title text not null,
+  body text not null,
+  status text not null default 'draft' check (
+    status in ('draft', 'published', 'archived')
+  ),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index content_user_updated_idx on content (user_id, updated_at desc);
+
+alter table content enable row level security;
+
+create policy "Users can manage own content" on content
+  for all using ((auth.jwt() ->> 'sub') = user_id)
+  with check ((auth.jwt() ->> 'sub') = user_id);
@@ -0,0 +1,88 @@
+-- Aggregates `model_usage` for the usage dashboard in the database, so the
+-- totals cover every call in the range rather than the rows PostgREST
+-- returns (at most `max_rows`, 1000 by default). Returns one JSON object,
+-- `{ total, features, models, userDays }`, whose stats match `UsageStats` in
+-- trpc/routers/usage.ts. Runs with the caller's rights, so row level security
+-- limits it to their workspace.
+create or replace function model_usage_summary (
+  feature_filter text default null,
+  -- Inclusive, by the UTC day the call was made.
+  from_day date default null,
+  to_day date default null
+) returns jsonb
+language sql stable
+security invoker
+as $$
+  with calls as (
+    select
+      feature,
+      provider || ':' || model as model,
+      (created_at at time zone 'utc')::date as day,
+      user_id,
+      prompt_tokens,
+      completion_tokens,
+      total_tokens,
+      cost_usd,
+      latency_ms
+    from model_usage
+    where (feature_filter is null or feature = feature_filter)
+      and (from_day is null or created_at >= from_day::timestamp at time zone 'utc')
+      and (to_day is null or created_at < (to_day + 1)::timestamp at time zone 'utc')
+  ),
+  grouped as (
+    select
+      case
+        when grouping(day) = 0 then 'user_day'
+        when grouping(feature) = 0 then 'feature'
+        when grouping(model) = 0 then 'model'
+        else 'total'
+      end as grouped_by,
+      feature,
+      model,
+      day,
+      user_id,
+      coalesce(sum(cost_usd), 0) as cost_usd,
+      coalesce(sum(total_tokens), 0) as total_tokens,
+      jsonb_build_object(
+        'calls', count(*),
+        'promptTokens', coalesce(sum(prompt_tokens), 0),
+        'completionTokens', coalesce(sum(completion_tokens), 0),
+        'totalTokens', coalesce(sum(total_tokens), 0),
+        -- Leaves out calls to models without a known price.
+        'costUsd', coalesce(sum(cost_usd), 0),
+        'unpricedCalls', count(*) filter (where cost_usd is null),
+        'p50LatencyMs', round(percentile_cont(0.5) within group (order by latency_ms)),
+        'p95LatencyMs', round(percentile_cont(0.95) within group (order by latency_ms))
+      ) as stats
+    from calls
+    group by grouping sets ((), (feature), (model), (day, user_id, feature))
+  )
+  select jsonb_build_object(
+    'total', (select stats from grouped where grouped_by = 'total'),
+    'features', coalesce((
+      select jsonb_agg(
+        stats || jsonb_build_object('feature', feature)
+        order by cost_usd desc, total_tokens desc
+      )
+      from grouped where grouped_by = 'feature'
+    ), '[]'),
+    'models', coalesce((
+      select jsonb_agg(
+        stats || jsonb_build_object('model', model)
+        order by cost_usd desc, total_tokens desc
+      )
+      from grouped where grouped_by = 'model'
+    ), '[]'),
+    'userDays', coalesce((
+      select jsonb_agg(
+        stats || jsonb_build_object(
+          'day', day,
+          'userId', user_id,
+          'feature', feature
+        )
+        order by day desc, cost_usd desc, total_tokens desc
+      )
+      from grouped where grouped_by = 'user_day'
+    ), '[]')
+  )
+$$;
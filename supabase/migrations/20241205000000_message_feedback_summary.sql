@@ -0,0 +1,30 @@
+-- Counts `message_feedback` ratings per persona and per model for the
+-- feedback review page in the database, so the counts cover every rating
+-- rather than the rows PostgREST returns. Returns one row per persona or
+-- model and rating, named by `grouped_by`. Runs with the caller's rights, so
+-- row level security limits it to their workspace.
+create or replace function message_feedback_summary (
+  endpoint_filter text default null,
+  rating_filter text default null,
+  -- Inclusive, by the UTC day the feedback was given.
+  from_day date default null,
+  to_day date default null
+) returns table (grouped_by text, name text, rating text, count bigint)
+language sql stable
+security invoker
+as $$
+  select
+    case when grouping(persona_name) = 0 then 'persona' else 'model' end,
+    case
+      when grouping(persona_name) = 0 then persona_name
+      else coalesce(model, 'unknown')
+    end,
+    rating,
+    count(*)
+  from message_feedback
+  where (endpoint_filter is null or endpoint = endpoint_filter)
+    and (rating_filter is null or rating = rating_filter)
+    and (from_day is null or created_at >= from_day::timestamp at time zone 'utc')
+    and (to_day is null or created_at < (to_day + 1)::timestamp at time zone 'utc')
+  group by grouping sets ((persona_name, rating), (model, rating))
+$$;
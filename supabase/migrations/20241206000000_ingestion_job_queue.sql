@@ -0,0 +1,31 @@
+-- Ingestion jobs are run by a worker that claims them from this table (see
+-- lib/ingest/worker.ts), so each job carries what it ingests.
+
+alter table ingestion_jobs
+  -- `{ name, mimeType, documents }` of each loaded file or pasted text,
+  -- cleared once the job has finished.
+  add column sources jsonb,
+  add column splitter_config jsonb;
+
+create index ingestion_jobs_queued_idx
+  on ingestion_jobs (created_at) where status = 'queued';
+
+-- Claims the oldest queued job and marks it as `splitting`. `skip locked`
+-- lets several workers claim jobs at the same time without taking the same
+-- one twice.
+create or replace function claim_ingestion_job ()
+returns setof ingestion_jobs
+language sql volatile
+security invoker
+as $$
+  update ingestion_jobs
+  set status = 'splitting', updated_at = now()
+  where id = (
+    select id from ingestion_jobs
+    where status = 'queued'
+    order by created_at
+    limit 1
+    for update skip locked
+  )
+  returning *
+$$;
@@ -0,0 +1,51 @@
+-- Compares prompt versions for the prompts page in the database, so the
+-- stats cover every run rather than the rows PostgREST returns (at most
+-- `max_rows`, 1000 by default). Returns one row per prompt and version with
+-- the number of answers it produced, their latency percentiles, and the
+-- ratings given to those answers, counted from the `prompt_versions` each
+-- `message_feedback` row records. Runs with the caller's rights, so row level
+-- security limits it to their workspace.
+create or replace function prompt_version_stats ()
+returns table (
+  prompt_key text,
+  version int,
+  runs bigint,
+  p50_latency_ms int,
+  p95_latency_ms int,
+  up bigint,
+  down bigint
+)
+language sql stable
+security invoker
+as $$
+  with runs as (
+    select
+      prompt_key,
+      version,
+      count(*) as runs,
+      round(percentile_cont(0.5) within group (order by latency_ms))::int as p50_latency_ms,
+      round(percentile_cont(0.95) within group (order by latency_ms))::int as p95_latency_ms
+    from prompt_runs
+    group by prompt_key, version
+  ),
+  ratings as (
+    select
+      used.key as prompt_key,
+      used.version,
+      count(*) filter (where rating = 'up') as up,
+      count(*) filter (where rating = 'down') as down
+    from message_feedback,
+      jsonb_to_recordset(prompt_versions) as used (key text, version int)
+    group by used.key, used.version
+  )
+  select
+    prompt_key,
+    version,
+    coalesce(runs.runs, 0),
+    runs.p50_latency_ms,
+    runs.p95_latency_ms,
+    coalesce(ratings.up, 0),
+    coalesce(ratings.down, 0)
+  from runs
+  full join ratings using (prompt_key, version)
+$$;
@@ -0,0 +1,24 @@
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Turns a Supabase error into a `TRPCError`, so clients get a typed code. A
+ * missing row becomes `NOT_FOUND` with `notFoundMessage` if given: PostgREST
+ * returns `PGRST116` when `.single()` matches no rows, which with RLS enabled
+ * also covers rows the caller can't see, and storage returns a 404. Anything
+ * else is an internal error.
+ */
+export const toTRPCError = (
+  error: { code?: string; status?: number; message: string },
+  notFoundMessage?: string,
+) => {
+  if (error.code === "PGRST116" || error.status === 404) {
+    return new TRPCError({
+      code: "NOT_FOUND",
+      message: notFoundMessage ?? error.message,
+    });
+  }
+  return new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: error.message,
+  });
+};
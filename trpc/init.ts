@@ -1,8 +1,15 @@
-import { initTRPC } from '@trpc/server';
-import { cache } from 'react';
-import superjson from 'superjson';
+import { auth } from "@clerk/nextjs/server";
+import { TRPCError, initTRPC } from "@trpc/server";
+import { cache } from "react";
+import superjson from "superjson";
+
+/**
+ * Builds the context from the Clerk session that `clerkMiddleware` attached
+ * to the request. Anonymous requests get a context with a `null` userId.
+ */
 export const createTRPCContext = cache(async () => {
-  return { userId: 'user_123' };
+  const { userId, orgId, orgRole, sessionClaims } = await auth();
+  return { userId, orgId, orgRole, sessionClaims };
 });
 
 const t = initTRPC.context<typeof createTRPCContext>().create({
@@ -12,4 +19,31 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
 export const createTRPCRouter = t.router;
 export const baseProcedure = t.procedure;
 
+/**
+ * Rejects anonymous callers and narrows `ctx.userId` to a string for
+ * everything downstream.
+ */
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must be signed in to do that",
+    });
+  }
+  return next({ ctx: { ...ctx, userId: ctx.userId } });
+});
+
+/**
+ * Only allows users whose session token carries the `admin` role claim.
+ */
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.sessionClaims?.metadata?.role !== "admin") {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This action requires the admin role",
+    });
+  }
+  return next();
+});
+
 export const createCallerFactory = t.createCallerFactory;
@@ -1,5 +1,8 @@
-import { QueryClient, defaultShouldDehydrateQuery } from '@tanstack/react-query';
-import superjson from 'superjson';
+import {
+  QueryClient,
+  defaultShouldDehydrateQuery,
+} from "@tanstack/react-query";
+import superjson from "superjson";
 
 export function makeQueryClient() {
   return new QueryClient({
@@ -10,11 +13,12 @@ export function makeQueryClient() {
       dehydrate: {
         serializeData: superjson.serialize,
         shouldDehydrateQuery: (query) =>
-          defaultShouldDehydrateQuery(query) || query.state.status === 'pending',
+          defaultShouldDehydrateQuery(query) ||
+          query.state.status === "pending",
       },
       hydrate: {
         deserializeData: superjson.deserialize,
-      }
+      },
     },
   });
 }
@@ -1,8 +1,24 @@
 import { createTRPCRouter } from "../init";
+import { agentThreadsRouter } from "./agentThreads";
 import { chatAction } from "./chat";
+import { contentRouter } from "./content";
+import { conversationsRouter } from "./conversations";
+import { documentsRouter } from "./documents";
+import { feedbackRouter } from "./feedback";
+import { personasRouter } from "./personas";
+import { promptsRouter } from "./prompts";
+import { usageRouter } from "./usage";
 
 export const appRouter = createTRPCRouter({
+  agentThreads: agentThreadsRouter,
   chatAction,
+  content: contentRouter,
+  conversations: conversationsRouter,
+  documents: documentsRouter,
+  feedback: feedbackRouter,
+  personas: personasRouter,
+  prompts: promptsRouter,
+  usage: usageRouter,
 });
 
-export type AppRouter = typeof appRouter;
\ No newline at end of file
+export type AppRouter = typeof appRouter;
@@ -0,0 +1,225 @@
+import type {
+  AIMessage,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { StateSnapshot } from "@langchain/langgraph";
+import type { Message } from "ai";
+import { z } from "zod";
+
+import { createChatAgent } from "@/lib/agents/agent";
+import { pendingToolCalls, requiresApproval } from "@/lib/agents/approval";
+import { createRetrievalAgent } from "@/lib/agents/retrieval";
+import type { IntermediateStepContent } from "@/lib/agents/steps";
+import { answerMessages } from "@/lib/agents/stream";
+import { getPersona } from "@/lib/personas/server";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+/**
+ * - `idle`: the last run finished, and its reply is stored.
+ * - `awaiting_approval`: the last run paused for the user's decisions.
+ * - `interrupted`: the last run stopped midway, e.g. when the connection
+ *   dropped, and can be resumed.
+ */
+export type AgentThreadStatus = "idle" | "awaiting_approval" | "interrupted";
+
+export type AgentThreadState = {
+  status: AgentThreadStatus;
+  replyId: string | null;
+  /** The steps of a run that is not `idle`, as `ChatWindow` messages. */
+  steps: Message[];
+  /** The tool calls the run waits for the user to decide on. */
+  awaitingApproval: string[];
+};
+
+export type AgentCheckpoint = {
+  checkpointId: string;
+  parentCheckpointId: string | null;
+  createdAt: string | null;
+  step: number;
+  /** `input`, `loop` or `update`, see LangGraph's `CheckpointMetadata`. */
+  source: string;
+  /** The nodes whose writes led to this checkpoint. */
+  writtenBy: string[];
+  /** The nodes that run next, empty once the run finished. */
+  next: string[];
+  /** The reply the run was producing, if it was recorded. */
+  replyId: string | null;
+  messageCount: number;
+  lastMessage: { type: string; summary: string } | null;
+  /** Whether the run waits here for the user to decide on tool calls. */
+  awaitingApproval: boolean;
+  /** Whether the thread's latest checkpoint descends from this one. */
+  onLatestBranch: boolean;
+};
+
+const SUMMARY_LENGTH = 120;
+
+const conversationIdSchema = z.object({ conversationId: z.string().uuid() });
+
+/**
+ * The agent of an `agents` or `retrieval_agents` conversation, on the
+ * conversation's thread.
+ */
+async function loadThreadAgent(conversationId: string) {
+  const client = await createClerkSupabaseClientSsr();
+  const { data: conversation, error } = await client
+    .from("conversations")
+    .select("id, endpoint, persona_id")
+    .eq("id", conversationId)
+    .in("endpoint", ["agents", "retrieval_agents"])
+    .single();
+  if (error) {
+    throw toTRPCError(error, "Conversation not found");
+  }
+  const persona = await getPersona(
+    client,
+    conversation.endpoint,
+    conversation.persona_id,
+  );
+  const turn = { id: conversation.id, client, persona };
+  return conversation.endpoint === "agents"
+    ? createChatAgent(turn)
+    : createRetrievalAgent(turn);
+}
+
+/** Set by `SupabaseSaver` on the checkpoints of runs that produce a reply. */
+const replyIdOf = (snapshot: StateSnapshot) =>
+  ((snapshot.metadata as Record<string, unknown> | undefined)?.reply_id as
+    | string
+    | undefined) ?? null;
+
+const summarize = (message: BaseMessage) => {
+  const toolCalls = (message as AIMessage).tool_calls ?? [];
+  const text = toolCalls.length
+    ? `Calls ${toolCalls.map(({ name }) => name).join(", ")}`
+    : `${message.content}`.trim().replace(/\s+/g, " ");
+  return text.length > SUMMARY_LENGTH
+    ? `${text.slice(0, SUMMARY_LENGTH - 1)}…`
+    : text;
+};
+
+/**
+ * The tool calls of the answer a run is producing, as the system messages
+ * `ChatWindow` shows steps as. They are keyed by tool call id, like the
+ * steps streamed by the route.
+ */
+const toSteps = (state: StateSnapshot, awaitingApproval: string[]) => {
+  const messages = answerMessages(state);
+  const observations = new Map<string, string>();
+  for (const message of messages) {
+    if (message._getType() === "tool") {
+      const toolMessage = message as ToolMessage;
+      observations.set(toolMessage.tool_call_id, `${toolMessage.content}`);
+    }
+  }
+
+  const steps: Message[] = [];
+  let turn = 0;
+  for (const message of messages) {
+    if (message._getType() !== "ai") {
+      continue;
+    }
+    for (const toolCall of (message as AIMessage).tool_calls ?? []) {
+      const id = toolCall.id ?? "";
+      steps.push({
+        id,
+        role: "system",
+        content: JSON.stringify({
+          action: { id, name: toolCall.name, args: toolCall.args },
+          observation: observations.get(id),
+          turn,
+          approval: awaitingApproval.includes(id) ? "pending" : undefined,
+        } as IntermediateStepContent),
+      });
+    }
+    turn += 1;
+  }
+  return steps;
+};
+
+/**
+ * The LangGraph threads `/api/chat/agents` and `/api/chat/retrieval_agents`
+ * checkpoint their runs on, one per conversation. Runs are resumed, replayed and forked through the route;
+ * these procedures show where a thread stands and its checkpoints.
+ */
+export const agentThreadsRouter = createTRPCRouter({
+  /**
+   * The state of the thread's latest run. Unless it is `idle`, the reply is
+   * not stored yet, so its steps so far are returned for display along with
+   * the `replyId` to resume it with.
+   */
+  get: protectedProcedure
+    .input(conversationIdSchema)
+    .query(async ({ input }): Promise<AgentThreadState> => {
+      const { agent, tools, config } = await loadThreadAgent(
+        input.conversationId,
+      );
+      const state = await agent.getState(config);
+      const awaitingApproval = pendingToolCalls(state)
+        .filter((toolCall) => requiresApproval(tools, toolCall))
+        .map((toolCall) => toolCall.id ?? "");
+      const status: AgentThreadStatus = !state.next.length
+        ? "idle"
+        : awaitingApproval.length
+          ? "awaiting_approval"
+          : "interrupted";
+      return {
+        status,
+        replyId: replyIdOf(state),
+        steps: status === "idle" ? [] : toSteps(state, awaitingApproval),
+        awaitingApproval,
+      };
+    }),
+
+  /** The thread's checkpoints, latest first, across all its branches. */
+  history: protectedProcedure
+    .input(
+      conversationIdSchema.extend({
+        limit: z.number().int().min(1).max(100).default(25),
+      }),
+    )
+    .query(async ({ input }) => {
+      const { agent, tools, config } = await loadThreadAgent(
+        input.conversationId,
+      );
+      const checkpoints: AgentCheckpoint[] = [];
+      for await (const snapshot of agent.getStateHistory(config, {
+        limit: input.limit,
+      })) {
+        const messages: BaseMessage[] = snapshot.values.messages ?? [];
+        const lastMessage = messages[messages.length - 1];
+        checkpoints.push({
+          checkpointId: snapshot.config.configurable?.checkpoint_id,
+          parentCheckpointId:
+            snapshot.parentConfig?.configurable?.checkpoint_id ?? null,
+          createdAt: snapshot.createdAt ?? null,
+          step: snapshot.metadata?.step ?? 0,
+          source: snapshot.metadata?.source ?? "loop",
+          writtenBy: Object.keys(snapshot.metadata?.writes ?? {}),
+          next: snapshot.next,
+          replyId: replyIdOf(snapshot),
+          messageCount: messages.length,
+          lastMessage: lastMessage
+            ? { type: lastMessage._getType(), summary: summarize(lastMessage) }
+            : null,
+          awaitingApproval: pendingToolCalls(snapshot).some((toolCall) =>
+            requiresApproval(tools, toolCall),
+          ),
+          onLatestBranch: false,
+        });
+      }
+
+      // Walk back from the latest checkpoint through its parents
+      let branchId: string | undefined = checkpoints[0]?.checkpointId;
+      for (const checkpoint of checkpoints) {
+        if (checkpoint.checkpointId === branchId) {
+          checkpoint.onLatestBranch = true;
+          branchId = checkpoint.parentCheckpointId ?? undefined;
+        }
+      }
+      return checkpoints;
+    }),
+});
@@ -0,0 +1,162 @@
+import { z } from "zod";
+
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+/**
+ * Mirrors the `content` table, see supabase/migrations/20241203000000_content.sql.
+ * `user_id` is the owner's Clerk id.
+ */
+export const contentStatusSchema = z.enum(["draft", "published", "archived"]);
+
+export type ContentStatus = z.infer<typeof contentStatusSchema>;
+
+export type Content = {
+  id: string;
+  user_id: string;
+  title: string;
+  body: string;
+  status: ContentStatus;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Escapes the `ilike` wildcards in `text` so it is matched literally. */
+const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, "\\$&");
+
+const contentIdSchema = z.object({ id: z.string().uuid() });
+
+const listInputSchema = z.object({
+  status: contentStatusSchema.optional(),
+  search: z.string().trim().min(1).optional(),
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(20),
+});
+
+const createInputSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  body: z.string().min(1),
+  status: contentStatusSchema.default("draft"),
+});
+
+const updateInputSchema = contentIdSchema.extend({
+  title: z.string().trim().min(1).max(200).optional(),
+  body: z.string().min(1).optional(),
+  status: contentStatusSchema.optional(),
+});
+
+/**
+ * All queries go through the Clerk-authenticated Supabase client so that the
+ * row level security policies on `content` decide what each user can see.
+ */
+export const contentRouter = createTRPCRouter({
+  list: protectedProcedure.input(listInputSchema).query(async ({ input }) => {
+    const client = await createClerkSupabaseClientSsr();
+    const from = (input.page - 1) * input.pageSize;
+    const to = from + input.pageSize - 1;
+
+    let query = client
+      .from("content")
+      .select("*", { count: "exact" })
+      .order("updated_at", { ascending: false })
+      .range(from, to);
+    if (input.status) {
+      query = query.eq("status", input.status);
+    }
+    if (input.search) {
+      query = query.ilike("title", `%${escapeLikePattern(input.search)}%`);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw toTRPCError(error, "Content not found");
+    }
+
+    const total = count ?? 0;
+    return {
+      items: (data ?? []) as Content[],
+      page: input.page,
+      pageSize: input.pageSize,
+      total,
+      totalPages: Math.ceil(total / input.pageSize),
+    };
+  }),
+
+  get: protectedProcedure.input(contentIdSchema).query(async ({ input }) => {
+    const client = await createClerkSupabaseClientSsr();
+    const { data, error } = await client
+      .from("content")
+      .select("*")
+      .eq("id", input.id)
+      .single();
+    if (error) {
+      throw toTRPCError(error, "Content not found");
+    }
+    return data as Content;
+  }),
+
+  create: protectedProcedure
+    .input(createInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("content")
+        .insert({ ...input, user_id: ctx.userId })
+        .select()
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Content not found");
+      }
+      return data as Content;
+    }),
+
+  update: protectedProcedure
+    .input(updateInputSchema)
+    .mutation(async ({ input }) => {
+      const { id, ...changes } = input;
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("content")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Content not found");
+      }
+      return data as Content;
+    }),
+
+  archive: protectedProcedure
+    .input(contentIdSchema)
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("content")
+        .update({ status: "archived", updated_at: new Date().toISOString() })
+        .eq("id", input.id)
+        .select()
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Content not found");
+      }
+      return data as Content;
+    }),
+
+  delete: protectedProcedure
+    .input(contentIdSchema)
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("content")
+        .delete()
+        .eq("id", input.id)
+        .select("id")
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Content not found");
+      }
+      return { id: data.id as string };
+    }),
+});
@@ -0,0 +1,137 @@
+import type { Message } from "ai";
+import { z } from "zod";
+
+import type { IntermediateStepContent } from "@/lib/agents/steps";
+import {
+  CONVERSATION_ENDPOINTS,
+  type ConversationEndpoint,
+  type StoredMessage,
+} from "@/lib/conversations";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export type Conversation = {
+  id: string;
+  user_id: string;
+  endpoint: ConversationEndpoint;
+  title: string;
+  /** `null` for the endpoint's built-in persona. */
+  persona_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const conversationIdSchema = z.object({ id: z.string().uuid() });
+
+/**
+ * Converts stored rows into the message shape `ChatWindow` renders. Tool steps
+ * become the JSON system messages that `IntermediateStep` expects, and sources
+ * become the same `sources` annotation the retrieval route streams.
+ */
+const toChatWindowState = (rows: StoredMessage[]) => {
+  const messages: Message[] = [];
+  for (const row of rows) {
+    if (row.role === "tool") {
+      messages.push({
+        id: row.id,
+        role: "system",
+        content: JSON.stringify({
+          action: row.tool_calls?.[0],
+          observation: row.content,
+          turn: row.agent_turn ?? undefined,
+        } as IntermediateStepContent),
+      });
+      continue;
+    }
+    messages.push({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      ...(row.sources?.length
+        ? { annotations: [{ type: "sources", sources: row.sources }] }
+        : {}),
+    });
+  }
+  return { messages };
+};
+
+export const conversationsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({ endpoint: z.enum(CONVERSATION_ENDPOINTS) }))
+    .query(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("conversations")
+        .select("*")
+        .eq("endpoint", input.endpoint)
+        .order("updated_at", { ascending: false })
+        .limit(100);
+      if (error) {
+        throw toTRPCError(error, "Conversation not found");
+      }
+      return (data ?? []) as Conversation[];
+    }),
+
+  get: protectedProcedure
+    .input(conversationIdSchema)
+    .query(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data: conversation, error } = await client
+        .from("conversations")
+        .select("*")
+        .eq("id", input.id)
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Conversation not found");
+      }
+      const { data: rows, error: messagesError } = await client
+        .from("messages")
+        .select("*")
+        .eq("conversation_id", input.id)
+        .order("created_at", { ascending: true });
+      if (messagesError) {
+        throw toTRPCError(messagesError, "Conversation not found");
+      }
+      return {
+        conversation: conversation as Conversation,
+        ...toChatWindowState((rows ?? []) as StoredMessage[]),
+      };
+    }),
+
+  rename: protectedProcedure
+    .input(
+      conversationIdSchema.extend({
+        title: z.string().trim().min(1).max(120),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("conversations")
+        .update({ title: input.title })
+        .eq("id", input.id)
+        .select()
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Conversation not found");
+      }
+      return data as Conversation;
+    }),
+
+  delete: protectedProcedure
+    .input(conversationIdSchema)
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("conversations")
+        .delete()
+        .eq("id", input.id)
+        .select("id")
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Conversation not found");
+      }
+      return { id: data.id as string };
+    }),
+});
@@ -0,0 +1,195 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { queueReingestion } from "@/lib/ingest/jobs";
+import {
+  DOCUMENT_SOURCE_COLUMNS,
+  deleteSource,
+  toDocumentSource,
+} from "@/lib/ingest/pipeline";
+import { splitterConfigSchema } from "@/lib/ingest/splitterConfig";
+import { isIngestionWorkerConfigured } from "@/lib/ingest/worker";
+import { SOURCE_STATUSES } from "@/lib/retrieval/options";
+import { type StoredChunk, getChunkStore } from "@/lib/retrieval/store";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { getWorkspace } from "@/lib/workspace";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export type DocumentChunk = StoredChunk;
+
+const sourceIdSchema = z.object({ id: z.string().uuid() });
+
+/**
+ * Manages the sources behind the `documents` vector store. Row level security
+ * scopes every query to the caller's workspace.
+ */
+export const documentsRouter = createTRPCRouter({
+  list: protectedProcedure.query(async () => {
+    const client = await createClerkSupabaseClientSsr();
+    const { data, error } = await client
+      .from("document_sources")
+      .select(DOCUMENT_SOURCE_COLUMNS)
+      .order("created_at", { ascending: false });
+    if (error) {
+      throw toTRPCError(error);
+    }
+    return (data ?? []).map(toDocumentSource);
+  }),
+
+  /**
+   * Every tag used in the workspace, for the retrieval filter bar.
+   */
+  tags: protectedProcedure.query(async () => {
+    const client = await createClerkSupabaseClientSsr();
+    const { data, error } = await client
+      .from("document_sources")
+      .select("tags");
+    if (error) {
+      throw toTRPCError(error);
+    }
+    return Array.from(
+      new Set((data ?? []).flatMap((source) => source.tags as string[])),
+    ).sort();
+  }),
+
+  /**
+   * Updates a source's tags or status. A database trigger copies them onto
+   * the source's chunks, so retrieval filters see the change immediately.
+   */
+  update: protectedProcedure
+    .input(
+      sourceIdSchema.extend({
+        tags: z
+          .array(z.string().trim().toLowerCase().min(1).max(50))
+          .max(20)
+          .optional(),
+        status: z.enum(SOURCE_STATUSES).optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const { id, ...changes } = input;
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("document_sources")
+        .update({
+          ...changes,
+          ...(changes.tags ? { tags: Array.from(new Set(changes.tags)) } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select(DOCUMENT_SOURCE_COLUMNS)
+        .maybeSingle();
+      if (error) {
+        throw toTRPCError(error);
+      }
+      if (!data) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document not found",
+        });
+      }
+      const workspace = await getWorkspace();
+      try {
+        await getChunkStore(client, workspace).updateSourceMetadata(
+          id,
+          changes,
+        );
+      } catch (e: any) {
+        throw toTRPCError(e);
+      }
+      return toDocumentSource(data);
+    }),
+
+  /**
+   * A single chunk, e.g. one cited in a retrieval answer.
+   */
+  chunk: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .query(async ({ input }) => {
+      const workspace = await getWorkspace();
+      const client = await createClerkSupabaseClientSsr();
+      let chunk: DocumentChunk | null;
+      try {
+        chunk = await getChunkStore(client, workspace).getChunk(input.id);
+      } catch (e: any) {
+        throw toTRPCError(e);
+      }
+      if (!chunk) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Chunk not found" });
+      }
+      return chunk;
+    }),
+
+  chunks: protectedProcedure
+    .input(
+      sourceIdSchema.extend({
+        page: z.number().int().min(1).default(1),
+        pageSize: z.number().int().min(1).max(100).default(20),
+      }),
+    )
+    .query(async ({ input }) => {
+      const workspace = await getWorkspace();
+      const client = await createClerkSupabaseClientSsr();
+      let page: { items: DocumentChunk[]; total: number };
+      try {
+        page = await getChunkStore(client, workspace).getSourceChunks(
+          input.id,
+          (input.page - 1) * input.pageSize,
+          input.pageSize,
+        );
+      } catch (e: any) {
+        throw toTRPCError(e);
+      }
+      const { items, total } = page;
+      return {
+        items,
+        page: input.page,
+        pageSize: input.pageSize,
+        total,
+        totalPages: Math.ceil(total / input.pageSize),
+      };
+    }),
+
+  /**
+   * Queues a job that splits the source again with `splitterConfig`, like
+   * `POST /api/retrieval/ingest`. Poll `/api/retrieval/ingest/[jobId]` for
+   * its progress.
+   */
+  reingest: protectedProcedure
+    .input(sourceIdSchema.extend({ splitterConfig: splitterConfigSchema }))
+    .mutation(async ({ input }) => {
+      if (!isIngestionWorkerConfigured()) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message:
+            "Re-ingesting is done by a worker that needs SUPABASE_SERVICE_ROLE_KEY to be set.",
+        });
+      }
+      const workspace = await getWorkspace();
+      const client = await createClerkSupabaseClientSsr();
+      try {
+        return await queueReingestion(
+          client,
+          workspace,
+          input.id,
+          input.splitterConfig,
+        );
+      } catch (e: any) {
+        throw toTRPCError(e);
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(sourceIdSchema)
+    .mutation(async ({ input }) => {
+      const workspace = await getWorkspace();
+      const client = await createClerkSupabaseClientSsr();
+      try {
+        await deleteSource(client, workspace, input.id);
+      } catch (e: any) {
+        throw toTRPCError(e);
+      }
+      return { id: input.id };
+    }),
+});
@@ -0,0 +1,279 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+  CONVERSATION_ENDPOINTS,
+  type ConversationEndpoint,
+  type StoredMessage,
+} from "@/lib/conversations";
+import { isoDate, nextDay } from "@/lib/dates";
+import {
+  FEEDBACK_RATINGS,
+  type FeedbackRating,
+  type MessageFeedback,
+  feedbackInputSchema,
+} from "@/lib/feedback";
+import { DEFAULT_PERSONAS } from "@/lib/personas/defaults";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export type FeedbackTally = {
+  name: string;
+  up: number;
+  down: number;
+};
+
+const feedbackFiltersSchema = z.object({
+  endpoint: z.enum(CONVERSATION_ENDPOINTS).optional(),
+  rating: z.enum(FEEDBACK_RATINGS).optional(),
+  /** Inclusive, by the day the feedback was given. */
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+type FeedbackFilters = z.infer<typeof feedbackFiltersSchema>;
+
+/**
+ * Narrows a `message_feedback` query down to the review page's filters.
+ */
+const applyFilters = <
+  Query extends {
+    eq(column: string, value: string): Query;
+    gte(column: string, value: string): Query;
+    lt(column: string, value: string): Query;
+  },
+>(
+  query: Query,
+  filters: FeedbackFilters,
+) => {
+  let filtered = query;
+  if (filters.endpoint) {
+    filtered = filtered.eq("endpoint", filters.endpoint);
+  }
+  if (filters.rating) {
+    filtered = filtered.eq("rating", filters.rating);
+  }
+  if (filters.from) {
+    filtered = filtered.gte("created_at", filters.from);
+  }
+  if (filters.to) {
+    filtered = filtered.lt("created_at", nextDay(filters.to));
+  }
+  return filtered;
+};
+
+/** A rated message with the endpoint of its conversation embedded. */
+type RatedMessage = Pick<
+  StoredMessage,
+  | "id"
+  | "role"
+  | "content"
+  | "sources"
+  | "persona_id"
+  | "model"
+  | "created_at"
+  | "conversation_id"
+> & { conversations: { endpoint: ConversationEndpoint } };
+
+/** A row of `message_feedback_summary`. */
+type FeedbackCount = {
+  grouped_by: "persona" | "model";
+  name: string;
+  rating: FeedbackRating;
+  count: number;
+};
+
+/** Adds up the counted ratings per name, most rated first. */
+const tally = <Row extends { rating: FeedbackRating; count: number }>(
+  rows: Row[],
+  nameOf: (row: Row) => string,
+) => {
+  const tallies = new Map<string, FeedbackTally>();
+  for (const row of rows) {
+    const name = nameOf(row);
+    const entry = tallies.get(name) ?? { name, up: 0, down: 0 };
+    entry[row.rating] += Number(row.count);
+    tallies.set(name, entry);
+  }
+  return Array.from(tallies.values()).sort(
+    (a, b) => b.up + b.down - (a.up + a.down),
+  );
+};
+
+/**
+ * Ratings and comments on assistant messages. Each user rates their own
+ * conversations, and everyone in the workspace can review the feedback.
+ */
+export const feedbackRouter = createTRPCRouter({
+  /**
+   * Rates an answer, replacing the user's earlier rating of it. Stores a
+   * snapshot of the question, answer, persona, model, retrieved sources and
+   * prompt versions with it.
+   */
+  submit: protectedProcedure
+    .input(feedbackInputSchema)
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data: message, error } = await client
+        .from("messages")
+        .select(
+          "id, role, content, sources, persona_id, model, created_at, conversation_id, conversations(endpoint)",
+        )
+        .eq("id", input.messageId)
+        .single<RatedMessage>();
+      if (error) {
+        throw toTRPCError(error, "Message not found");
+      }
+      if (message.role !== "assistant") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only answers can be rated",
+        });
+      }
+      const { endpoint } = message.conversations;
+
+      const [question, persona, runs] = await Promise.all([
+        client
+          .from("messages")
+          .select("content")
+          .eq("conversation_id", message.conversation_id)
+          .eq("role", "user")
+          .lt("created_at", message.created_at)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        message.persona_id
+          ? client
+              .from("personas")
+              .select("name")
+              .eq("id", message.persona_id)
+              .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        client
+          .from("prompt_runs")
+          .select("prompt_key, version")
+          .eq("message_id", message.id),
+      ]);
+      for (const result of [question, persona, runs]) {
+        if (result.error) {
+          throw toTRPCError(result.error, "Message not found");
+        }
+      }
+
+      const { data, error: feedbackError } = await client
+        .from("message_feedback")
+        .upsert(
+          {
+            message_id: message.id,
+            conversation_id: message.conversation_id,
+            endpoint,
+            rating: input.rating,
+            comment: input.comment || null,
+            question: question.data?.content ?? null,
+            answer: message.content,
+            persona_id: message.persona_id,
+            persona_name: persona.data?.name ?? DEFAULT_PERSONAS[endpoint].name,
+            model: message.model,
+            source_ids: ((message.sources ?? []) as { id?: number }[])
+              .map((source) => source.id)
+              .filter((id): id is number => id !== undefined),
+            prompt_versions: (runs.data ?? []).map((run) => ({
+              key: run.prompt_key,
+              version: run.version,
+            })),
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "message_id,user_id" },
+        )
+        .select("*")
+        .single();
+      if (feedbackError) {
+        throw toTRPCError(feedbackError, "Message not found");
+      }
+      return data as MessageFeedback;
+    }),
+
+  /**
+   * The caller's ratings in a conversation, to show them when it is
+   * reopened.
+   */
+  forConversation: protectedProcedure
+    .input(z.object({ conversationId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("message_feedback")
+        .select("message_id, rating, comment")
+        .eq("conversation_id", input.conversationId)
+        .eq("user_id", ctx.userId);
+      if (error) {
+        throw toTRPCError(error, "Message not found");
+      }
+      return (data ?? []) as Pick<
+        MessageFeedback,
+        "message_id" | "rating" | "comment"
+      >[];
+    }),
+
+  list: protectedProcedure
+    .input(
+      feedbackFiltersSchema.extend({
+        page: z.number().int().min(1).default(1),
+        pageSize: z.number().int().min(1).max(100).default(20),
+      }),
+    )
+    .query(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const offset = (input.page - 1) * input.pageSize;
+      const { data, error, count } = await applyFilters(
+        client.from("message_feedback").select("*", { count: "exact" }),
+        input,
+      )
+        .order("created_at", { ascending: false })
+        .range(offset, offset + input.pageSize - 1);
+      if (error) {
+        throw toTRPCError(error, "Message not found");
+      }
+      const total = count ?? 0;
+      return {
+        items: (data ?? []) as MessageFeedback[],
+        page: input.page,
+        pageSize: input.pageSize,
+        total,
+        totalPages: Math.ceil(total / input.pageSize),
+      };
+    }),
+
+  /**
+   * Thumbs up and down per persona and model, for spotting which ones are
+   * failing.
+   */
+  summary: protectedProcedure
+    .input(feedbackFiltersSchema)
+    .query(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      // Counted in SQL so every rating in the range counts, however many
+      // rows PostgREST would return
+      const { data, error } = await client.rpc("message_feedback_summary", {
+        endpoint_filter: input.endpoint ?? null,
+        rating_filter: input.rating ?? null,
+        from_day: input.from ?? null,
+        to_day: input.to ?? null,
+      });
+      if (error) {
+        throw toTRPCError(error, "Message not found");
+      }
+      const rows = (data ?? []) as FeedbackCount[];
+      return {
+        personas: tally(
+          rows.filter((row) => row.grouped_by === "persona"),
+          (row) => row.name,
+        ),
+        models: tally(
+          rows.filter((row) => row.grouped_by === "model"),
+          (row) => row.name,
+        ),
+      };
+    }),
+});
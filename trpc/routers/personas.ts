@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+import { type Persona, personaSettingsSchema } from "@/lib/personas/defaults";
+import { PERSONA_COLUMNS } from "@/lib/personas/server";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+const personaIdSchema = z.object({ id: z.string().uuid() });
+
+/**
+ * Manages the personas of the caller's workspace. Row level security scopes
+ * every query to it.
+ */
+export const personasRouter = createTRPCRouter({
+  list: protectedProcedure.query(async () => {
+    const client = await createClerkSupabaseClientSsr();
+    const { data, error } = await client
+      .from("personas")
+      .select(PERSONA_COLUMNS)
+      .order("name", { ascending: true });
+    if (error) {
+      throw toTRPCError(error, "Persona not found");
+    }
+    return (data ?? []) as Persona[];
+  }),
+
+  create: protectedProcedure
+    .input(personaSettingsSchema)
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("personas")
+        .insert(input)
+        .select(PERSONA_COLUMNS)
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Persona not found");
+      }
+      return data as Persona;
+    }),
+
+  update: protectedProcedure
+    .input(personaIdSchema.merge(personaSettingsSchema))
+    .mutation(async ({ input }) => {
+      const { id, ...settings } = input;
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("personas")
+        .update({ ...settings, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select(PERSONA_COLUMNS)
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Persona not found");
+      }
+      return data as Persona;
+    }),
+
+  /**
+   * Conversations that used the persona fall back to their endpoint's
+   * built-in one.
+   */
+  delete: protectedProcedure
+    .input(personaIdSchema)
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const { data, error } = await client
+        .from("personas")
+        .delete()
+        .eq("id", input.id)
+        .select("id")
+        .single();
+      if (error) {
+        throw toTRPCError(error, "Persona not found");
+      }
+      return { id: data.id as string };
+    }),
+});
@@ -0,0 +1,207 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+  PROMPT_DEFINITIONS,
+  PROMPT_KEYS,
+  type PromptDeployment,
+  type PromptKey,
+  type PromptVersion,
+} from "@/lib/prompts/defaults";
+import {
+  PROMPT_VERSION_COLUMNS,
+  checkPromptVariables,
+} from "@/lib/prompts/server";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export type PromptVersionStats = {
+  key: PromptKey;
+  version: number;
+  runs: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  /** Ratings given to the answers the version produced. */
+  up: number;
+  down: number;
+};
+
+/** A row of `prompt_version_stats`. */
+type PromptVersionStatsRow = {
+  prompt_key: PromptKey;
+  version: number;
+  runs: number;
+  p50_latency_ms: number | null;
+  p95_latency_ms: number | null;
+  up: number;
+  down: number;
+};
+
+const promptKeySchema = z.enum(PROMPT_KEYS);
+
+/**
+ * Manages the prompt versions of the caller's workspace and which of them
+ * are served. Row level security scopes every query to the workspace.
+ */
+export const promptsRouter = createTRPCRouter({
+  /**
+   * Every prompt with its stored versions, newest first, and deployment.
+   */
+  list: protectedProcedure.query(async () => {
+    const client = await createClerkSupabaseClientSsr();
+    const [versions, deployments] = await Promise.all([
+      client
+        .from("prompt_versions")
+        .select(PROMPT_VERSION_COLUMNS)
+        .order("version", { ascending: false }),
+      client.from("prompt_deployments").select("*"),
+    ]);
+    if (versions.error) {
+      throw toTRPCError(versions.error);
+    }
+    if (deployments.error) {
+      throw toTRPCError(deployments.error);
+    }
+    return PROMPT_KEYS.map((key) => ({
+      key,
+      ...PROMPT_DEFINITIONS[key],
+      versions: ((versions.data ?? []) as PromptVersion[]).filter(
+        (version) => version.prompt_key === key,
+      ),
+      deployment:
+        ((deployments.data ?? []) as PromptDeployment[]).find(
+          (deployment) => deployment.prompt_key === key,
+        ) ?? null,
+    }));
+  }),
+
+  /**
+   * Number of answers, latency percentiles and ratings for each version that
+   * served traffic.
+   */
+  stats: protectedProcedure.query(async () => {
+    const client = await createClerkSupabaseClientSsr();
+    // Aggregated in SQL so every run counts, however many rows PostgREST
+    // would return
+    const { data, error } = await client.rpc("prompt_version_stats");
+    if (error) {
+      throw toTRPCError(error);
+    }
+    return ((data ?? []) as PromptVersionStatsRow[]).map(
+      (row): PromptVersionStats => ({
+        key: row.prompt_key,
+        version: row.version,
+        runs: Number(row.runs),
+        p50LatencyMs: row.p50_latency_ms,
+        p95LatencyMs: row.p95_latency_ms,
+        up: Number(row.up),
+        down: Number(row.down),
+      }),
+    );
+  }),
+
+  /**
+   * Saves a template as the next version of a prompt. It is only served once
+   * deployed.
+   */
+  createVersion: protectedProcedure
+    .input(
+      z.object({
+        key: promptKeySchema,
+        template: z.string().trim().min(1).max(20000),
+        note: z.string().trim().max(200).optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const errors = checkPromptVariables(input.key, input.template);
+      if (errors.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: errors.join("\n"),
+        });
+      }
+      const client = await createClerkSupabaseClientSsr();
+      const { data: latest, error: latestError } = await client
+        .from("prompt_versions")
+        .select("version")
+        .eq("prompt_key", input.key)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (latestError) {
+        throw toTRPCError(latestError);
+      }
+      const { data, error } = await client
+        .from("prompt_versions")
+        .insert({
+          prompt_key: input.key,
+          version: (latest?.version ?? 0) + 1,
+          template: input.template,
+          note: input.note || null,
+        })
+        .select(PROMPT_VERSION_COLUMNS)
+        .single();
+      if (error) {
+        throw toTRPCError(error);
+      }
+      return data as PromptVersion;
+    }),
+
+  /**
+   * Picks the version a prompt serves (`null` for the built-in one), and
+   * optionally a candidate that gets `candidateTraffic` percent of
+   * conversations.
+   */
+  deploy: protectedProcedure
+    .input(
+      z.object({
+        key: promptKeySchema,
+        versionId: z.string().uuid().nullable(),
+        candidateVersionId: z.string().uuid().nullable(),
+        candidateTraffic: z.number().int().min(0).max(100),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      const ids = [input.versionId, input.candidateVersionId].filter(
+        (id): id is string => !!id,
+      );
+      if (ids.length) {
+        const { data, error } = await client
+          .from("prompt_versions")
+          .select("id")
+          .eq("prompt_key", input.key)
+          .in("id", ids);
+        if (error) {
+          throw toTRPCError(error);
+        }
+        if ((data ?? []).length !== new Set(ids).size) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Prompt version not found",
+          });
+        }
+      }
+      const { data, error } = await client
+        .from("prompt_deployments")
+        .upsert(
+          {
+            prompt_key: input.key,
+            version_id: input.versionId,
+            candidate_version_id: input.candidateVersionId,
+            candidate_traffic: input.candidateVersionId
+              ? input.candidateTraffic
+              : 0,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "workspace_id,prompt_key" },
+        )
+        .select("*")
+        .single();
+      if (error) {
+        throw toTRPCError(error);
+      }
+      return data as PromptDeployment;
+    }),
+});
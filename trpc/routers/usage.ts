@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+import { isoDate } from "@/lib/dates";
+import { createClerkSupabaseClientSsr } from "@/lib/supabase/server";
+import { USAGE_FEATURES, type UsageFeature } from "@/lib/usage/defaults";
+import { toTRPCError } from "../errors";
+import { createTRPCRouter, protectedProcedure } from "../init";
+
+export type UsageStats = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Leaves out calls to models without a known price. */
+  costUsd: number;
+  unpricedCalls: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+};
+
+/** What `model_usage_summary` returns, aggregated in the database. */
+type UsageSummary = {
+  total: UsageStats;
+  /** Most expensive first. */
+  features: (UsageStats & { feature: UsageFeature })[];
+  /** Most expensive first, as `provider:model`. */
+  models: (UsageStats & { model: string })[];
+  /** What each user spent per day and feature, most recent day first. */
+  userDays: (UsageStats & {
+    day: string;
+    userId: string;
+    feature: UsageFeature;
+  })[];
+};
+
+/**
+ * Tokens, estimated cost and latency of the model calls made in the caller's
+ * workspace, recorded by `UsageHandler` and summed up by the
+ * `model_usage_summary` function.
+ */
+export const usageRouter = createTRPCRouter({
+  summary: protectedProcedure
+    .input(
+      z.object({
+        feature: z
+          .enum(Object.keys(USAGE_FEATURES) as [UsageFeature])
+          .optional(),
+        /** Inclusive, by the day the call was made. */
+        from: isoDate.optional(),
+        to: isoDate.optional(),
+      }),
+    )
+    .query(async ({ input }) => {
+      const client = await createClerkSupabaseClientSsr();
+      // Aggregated in SQL so every call in the range counts, however many
+      // rows PostgREST would return
+      const { data, error } = await client.rpc("model_usage_summary", {
+        feature_filter: input.feature ?? null,
+        from_day: input.from ?? null,
+        to_day: input.to ?? null,
+      });
+      if (error) {
+        throw toTRPCError(error);
+      }
+      return data as UsageSummary;
+    }),
+});
@@ -1,9 +1,9 @@
 import "server-only";
-import { createHydrationHelpers } from '@trpc/react-query/rsc';
-import { cache } from 'react';
-import { createTRPCContext, createCallerFactory } from './init';
-import { makeQueryClient } from './query-client';
-import { appRouter } from './routers/_app';
+import { createHydrationHelpers } from "@trpc/react-query/rsc";
+import { cache } from "react";
+import { createCallerFactory, createTRPCContext } from "./init";
+import { makeQueryClient } from "./query-client";
+import { appRouter } from "./routers/_app";
 
 export const getQueryClient = cache(makeQueryClient);
 
@@ -12,4 +12,4 @@ const caller = createCallerFactory(appRouter)(createTRPCContext);
 export const { trpc, HydrateClient } = createHydrationHelpers<typeof appRouter>(
   caller,
   getQueryClient,
-);
\ No newline at end of file
+);
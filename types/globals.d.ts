@@ -0,0 +1,17 @@
+export {};
+
+export type Roles = "admin" | "editor";
+
+declare global {
+  /**
+   * Custom claims added to the Clerk session token. Add
+   * `{ "metadata": "{{user.public_metadata}}" }` to the session token
+   * template in the Clerk dashboard so the role is available without an
+   * extra API call.
+   */
+  interface CustomJwtSessionClaims {
+    metadata?: {
+      role?: Roles;
+    };
+  }
+}